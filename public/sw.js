@@ -0,0 +1,169 @@
+// Service worker for the installable app. Hand-written rather than
+// generated; the build emits precache-manifest.json listing its assets.
+
+const SHELL_CACHE = 'earthquake-monitor-shell-v3';
+const FEED_CACHE = 'earthquake-monitor-feeds-v1';
+// Other same-origin responses, kept for offline use only
+const RUNTIME_CACHE = 'earthquake-monitor-runtime-v1';
+// Filled by the Offline Map panel, see src/utils/tileUtils.ts
+const TILE_CACHE = 'earthquake-monitor-tiles';
+const CURRENT_CACHES = [SHELL_CACHE, FEED_CACHE, RUNTIME_CACHE, TILE_CACHE];
+
+// Map overlays from public/data, see src/utils/overlayUtils.ts. Only those
+// listed in the index have been generated. They aren't hashed like the built
+// assets, so bump SHELL_CACHE when they change.
+const OVERLAY_INDEX = 'data/overlays.json';
+const OVERLAY_FILES = {
+  plates: 'data/plate-boundaries.geojson',
+  faults: 'data/faults.geojson',
+  slabs: 'data/slab-contours.geojson',
+  volcanoes: 'data/volcanoes.geojson'
+};
+
+const MAX_FEED_RESPONSES = 20;
+const FEED_HOSTS = [
+  'earthquake.usgs.gov',
+  'www.seismicportal.eu',
+  'data.bmkg.go.id',
+  'api.geonet.org.nz'
+];
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const shell = ['./', 'manifest.webmanifest', 'icon.svg'];
+    try {
+      const response = await fetch(scopeUrl('precache-manifest.json'), { cache: 'no-store' });
+      shell.push(...await response.json());
+    } catch {
+      // Development builds have no manifest, assets are cached as they load
+    }
+    try {
+      const response = await fetch(scopeUrl(OVERLAY_INDEX), { cache: 'no-store' });
+      const sources = await response.json();
+      const generated = Object.keys(sources).filter(id => Object.hasOwn(OVERLAY_FILES, id));
+      shell.push(OVERLAY_INDEX, ...generated.map(id => OVERLAY_FILES[id]));
+    } catch {
+      // No overlays generated yet
+    }
+    await cache.addAll(shell.map(scopeUrl));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('earthquake-monitor-') && !CURRENT_CACHES.includes(name))
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// {z}/{x}/{y} paths, with an optional @2x and extension, e.g. a proxied
+// /tiles/5/27/12.png from a relative custom template
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?(\.\w+)?$/;
+
+// Same-origin tiles must not reach handleAsset, which would keep every
+// tile viewed in the app shell cache
+const isTileRequest = (request, url) => {
+  if (TILE_PATH.test(url.pathname)) return true;
+  return url.origin !== self.location.origin && request.destination === 'image';
+};
+
+// Tiles are stored without the {s} subdomain, see getTileUrls
+const getTileCacheKey = (url) => {
+  const key = new URL(url);
+  key.hostname = key.hostname.replace(/^[a-d]\./, '');
+  return key.href;
+};
+
+const handleTile = async (request) => {
+  const cached = await caches.match(getTileCacheKey(request.url), { cacheName: TILE_CACHE });
+  return cached ?? fetch(request);
+};
+
+// Network first so the feed is never older than it has to be
+const handleFeed = async (request) => {
+  const cache = await caches.open(FEED_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      // Keys come back in insertion order, drop the oldest responses
+      const keys = await cache.keys();
+      await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_FEED_RESPONSES)).map(key => cache.delete(key)));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Navigations always try the network so a new deploy is picked up
+const handleNavigation = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(scopeUrl('./'), response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(scopeUrl('./'));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Only what install precached is served cache first: built assets have
+// hashed names, and the rest changes with SHELL_CACHE
+const handleAsset = async (request) => {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  return cached ?? handleSameOrigin(request);
+};
+
+// Anything else on this origin, such as recorded fixture feeds or a local
+// FDSN stand-in, can change, so the network comes first
+const handleSameOrigin = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (FEED_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleFeed(request));
+  } else if (isTileRequest(request, url)) {
+    event.respondWith(handleTile(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(handleAsset(request));
+  }
+});
+
+// Alert notifications shown through the worker just bring the app forward
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow(scopeUrl('./'));
+  })());
+});
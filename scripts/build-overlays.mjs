@@ -0,0 +1,334 @@
+// Regenerates the geological overlays in public/data from their published
+// datasets, simplified for display at regional and global scale.
+//
+//   npm run overlays -- [--slab2 <directory>] [--only plates,faults,slabs,volcanoes]
+//
+// Plate boundaries, faults and volcanoes are downloaded. Slab2 is only
+// distributed as an archive, so its contours are read from a local copy:
+// download Slab2Distribute_Mar2018 from https://doi.org/10.5066/F7PV6JNV,
+// extract it and pass the directory holding the *_contours.in files.
+// An overlay that fails is reported and its file left as it was.
+//
+// Each file gets a top-level "source" member naming the dataset and its
+// licence, and an entry in data/overlays.json with its attribution. The app
+// only offers the overlays listed there, crediting each in the layer control.
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const OUTPUT_DIR = new URL('../public/data/', import.meta.url);
+const INDEX_FILE = new URL('overlays.json', OUTPUT_DIR);
+
+const PB2002_URL = 'https://raw.githubusercontent.com/fraxen/tectonicplates/master/GeoJSON/PB2002_steps.json';
+const GEM_FAULTS_URL = 'https://raw.githubusercontent.com/GEMScienceTools/gem-global-active-faults/master/geojson/gem_active_faults_harmonized.geojson';
+const GVP_URL = 'https://webservices.volcano.si.edu/geoserver/GVP-VOTW/ows?service=WFS&version=2.0.0&request=GetFeature'
+  + '&typeName=GVP-VOTW:Smithsonian_VOTW_Holocene_Volcanoes&outputFormat=application%2Fjson';
+
+// Douglas-Peucker tolerance in degrees, about 5 km at the equator
+const LINE_TOLERANCE = 0.05;
+const FAULT_TOLERANCE = 0.02;
+// Faults slower than this are left out to keep the file small
+const MIN_FAULT_SLIP_RATE = 1;
+const SLAB_DEPTHS = [100, 200, 300, 400, 500, 600];
+const COORDINATE_DECIMALS = 3;
+
+// PB2002 step classes, Bird (2003) table 2
+const STEP_CLASS_TYPES = {
+  SUB: 'subduction',
+  OCB: 'convergent',
+  CCB: 'convergent',
+  OSR: 'divergent',
+  CRB: 'divergent',
+  OTF: 'transform',
+  CTF: 'transform'
+};
+
+const PB2002_PLATES = {
+  AF: 'Africa', AM: 'Amur', AN: 'Antarctica', AP: 'Altiplano', AR: 'Arabia', AS: 'Aegean Sea',
+  AT: 'Anatolia', AU: 'Australia', BH: 'Birds Head', BR: 'Balmoral Reef', BS: 'Banda Sea', BU: 'Burma',
+  CA: 'Caribbean', CL: 'Caroline', CO: 'Cocos', CR: 'Conway Reef', EA: 'Easter', EU: 'Eurasia',
+  FT: 'Futuna', GP: 'Galapagos', IN: 'India', JF: 'Juan de Fuca', JZ: 'Juan Fernandez', KE: 'Kermadec',
+  MA: 'Mariana', MN: 'Manus', MO: 'Maoke', MS: 'Molucca Sea', NA: 'North America', NB: 'North Bismarck',
+  ND: 'North Andes', NH: 'New Hebrides', NI: 'Niuafo\'ou', NZ: 'Nazca', OK: 'Okhotsk', ON: 'Okinawa',
+  PA: 'Pacific', PM: 'Panama', PS: 'Philippine Sea', RI: 'Rivera', SA: 'South America', SB: 'South Bismarck',
+  SC: 'Scotia', SL: 'Shetland', SO: 'Somalia', SS: 'Solomon Sea', SU: 'Sunda', SW: 'Sandwich',
+  TI: 'Timor', TO: 'Tonga', WL: 'Woodlark', YA: 'Yangtze'
+};
+
+// Slab2 region codes, Hayes et al. (2018) table 1
+const SLAB2_REGIONS = {
+  alu: 'Aleutian', cal: 'Calabria', cam: 'Central America', car: 'Caribbean', cas: 'Cascadia',
+  cot: 'Cotabato', hal: 'Halmahera', hel: 'Hellenic', him: 'Himalaya', hin: 'Hindu Kush',
+  izu: 'Izu-Bonin', ker: 'Kermadec-Tonga', kur: 'Kuril-Japan', mak: 'Makran', man: 'Manila',
+  mue: 'Muertos', pam: 'Pamir', phi: 'Philippines', png: 'New Guinea', puy: 'Puysegur',
+  ryu: 'Ryukyu', sam: 'South America', sco: 'Scotia', sol: 'Solomon', sul: 'Sulawesi',
+  sum: 'Sumatra-Java', van: 'Vanuatu'
+};
+
+const SOURCES = {
+  plates: {
+    attribution: 'Bird (2003), PB2002, doi:10.1029/2001GC000252; GeoJSON by H. Ahlenius (fraxen/tectonicplates); simplified',
+    licence: 'ODC-By 1.0',
+    licenceUrl: 'https://opendatacommons.org/licenses/by/1-0/'
+  },
+  // Share-alike: the simplified file is itself CC BY-SA 4.0
+  faults: {
+    attribution: 'GEM Global Active Faults Database, Styron and Pagani (2020), doi:10.1177/8755293020944182; simplified, faults under 1 mm/yr left out',
+    licence: 'CC BY-SA 4.0',
+    licenceUrl: 'https://creativecommons.org/licenses/by-sa/4.0/'
+  },
+  slabs: {
+    attribution: 'USGS Slab2, Hayes et al. (2018), doi:10.5066/F7PV6JNV; simplified',
+    licence: 'Public domain',
+    licenceUrl: null
+  },
+  volcanoes: {
+    attribution: `Smithsonian Global Volcanism Program, Volcanoes of the World, Holocene volcanoes, retrieved ${new Date().toISOString().slice(0, 10)}`,
+    licence: 'GVP terms of use',
+    licenceUrl: null
+  }
+};
+
+const round = (value) => Number(value.toFixed(COORDINATE_DECIMALS));
+
+const normalizeLongitude = (longitude) => (longitude > 180 ? longitude - 360 : longitude);
+
+const squaredSegmentDistance = ([x, y], [x1, y1], [x2, y2]) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const t = dx === 0 && dy === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / (dx * dx + dy * dy)));
+  return (x - x1 - t * dx) ** 2 + (y - y1 - t * dy) ** 2;
+};
+
+const simplifyLine = (points, tolerance) => {
+  if (points.length <= 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop();
+    let farthest = -1;
+    let maxDistance = tolerance * tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = squaredSegmentDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+// Splits where a line jumps across the antimeridian, then simplifies and rounds
+const toLineGeometry = (points, tolerance) => {
+  const parts = [[]];
+  points.forEach((point, i) => {
+    if (i > 0 && Math.abs(point[0] - points[i - 1][0]) > 180) parts.push([]);
+    parts[parts.length - 1].push(point);
+  });
+  const lines = parts
+    .filter(part => part.length >= 2)
+    .map(part => simplifyLine(part, tolerance).map(([x, y]) => [round(x), round(y)]));
+  if (lines.length === 0) return null;
+  return lines.length === 1
+    ? { type: 'LineString', coordinates: lines[0] }
+    : { type: 'MultiLineString', coordinates: lines };
+};
+
+const fetchJson = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+  return response.json();
+};
+
+const collection = (name, source, features) => ({ type: 'FeatureCollection', name, source, features });
+
+const formatSource = ({ attribution, licence }) => `${attribution}, ${licence}`;
+
+// PB2002 steps are short segments in boundary order; consecutive steps of
+// the same boundary and class are joined back into lines
+const buildPlates = async () => {
+  const steps = await fetchJson(PB2002_URL);
+  const lines = [];
+  steps.features.forEach(({ properties, geometry }) => {
+    const values = Object.values(properties ?? {}).map(String);
+    // Field names differ between conversions, so the values are matched:
+    // boundaries are named like AF-AN, with / or \ marking subduction polarity
+    const boundary = values.find(value => /^[A-Z]{2}[-/\\][A-Z]{2}$/.test(value));
+    const type = STEP_CLASS_TYPES[values.find(value => Object.hasOwn(STEP_CLASS_TYPES, value))];
+    if (!boundary || !type || geometry?.type !== 'LineString') return;
+
+    const points = geometry.coordinates.map(([x, y]) => [normalizeLongitude(x), y]);
+    const current = lines[lines.length - 1];
+    const end = current?.points[current.points.length - 1];
+    if (current && current.boundary === boundary && current.type === type && end[0] === points[0][0] && end[1] === points[0][1]) {
+      current.points.push(...points.slice(1));
+    } else {
+      lines.push({ boundary, type, points });
+    }
+  });
+
+  const features = lines.flatMap(({ boundary, type, points }) => {
+    const geometry = toLineGeometry(points, LINE_TOLERANCE);
+    if (!geometry) return [];
+    const [left, right] = boundary.split(/[-/\\]/).map(code => PB2002_PLATES[code] ?? code);
+    return [{
+      type: 'Feature',
+      properties: { name: boundary, type, plates: `${left} / ${right}` },
+      geometry
+    }];
+  });
+  return collection('plate-boundaries', formatSource(SOURCES.plates), features);
+};
+
+const getSlipType = (slipType) => {
+  const kind = String(slipType ?? '').toLowerCase();
+  if (kind.startsWith('dextral') || kind.startsWith('sinistral') || kind.includes('strike')) return 'strike-slip';
+  if (kind.startsWith('reverse') || kind.includes('thrust')) return 'reverse';
+  if (kind.startsWith('normal')) return 'normal';
+  return null;
+};
+
+// GEM stores rates as "(preferred,min,max)" strings
+const getSlipRate = (rate) => {
+  const preferred = Number(String(rate ?? '').replace(/[()]/g, '').split(',')[0]);
+  return Number.isFinite(preferred) ? preferred : null;
+};
+
+const buildFaults = async () => {
+  const faults = await fetchJson(GEM_FAULTS_URL);
+  const features = faults.features.flatMap(({ properties, geometry }) => {
+    const slipType = getSlipType(properties?.slip_type);
+    const slipRateMmYr = getSlipRate(properties?.net_slip_rate);
+    if (!slipType || slipRateMmYr === null || slipRateMmYr < MIN_FAULT_SLIP_RATE) return [];
+    const parts = geometry?.type === 'MultiLineString' ? geometry.coordinates
+      : geometry?.type === 'LineString' ? [geometry.coordinates] : [];
+    return parts.flatMap(part => {
+      const line = toLineGeometry(part.map(([x, y]) => [normalizeLongitude(x), y]), FAULT_TOLERANCE);
+      return line ? [{
+        type: 'Feature',
+        properties: { name: properties.name || null, slipType, slipRateMmYr: round(slipRateMmYr) },
+        geometry: line
+      }] : [];
+    });
+  });
+  return collection('faults', formatSource(SOURCES.faults), features);
+};
+
+// GMT multi-segment text: a "> depth" header before each contour's points
+const parseContours = (text) => {
+  const contours = [];
+  text.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const numbers = trimmed.replace(/^>/, '').trim().split(/\s+/).map(Number).filter(Number.isFinite);
+    if (trimmed.startsWith('>')) {
+      contours.push({ depthKm: numbers.length > 0 ? Math.abs(numbers[0]) : null, points: [] });
+      return;
+    }
+    if (numbers.length < 2) return;
+    if (contours.length === 0) contours.push({ depthKm: null, points: [] });
+    const contour = contours[contours.length - 1];
+    if (contour.depthKm === null && numbers.length >= 3) contour.depthKm = Math.abs(numbers[2]);
+    contour.points.push([normalizeLongitude(numbers[0]), numbers[1]]);
+  });
+  return contours;
+};
+
+const buildSlabs = async (directory) => {
+  if (!directory) throw new Error('pass --slab2 <directory> with the extracted Slab2 contour files');
+  const files = (await readdir(directory)).filter(file => file.endsWith('_contours.in'));
+  if (files.length === 0) throw new Error(`no *_contours.in files in ${directory}`);
+
+  const features = [];
+  for (const file of files) {
+    const slab = SLAB2_REGIONS[file.slice(0, 3)] ?? file.slice(0, 3);
+    const contours = parseContours(await readFile(join(directory, file), 'utf8'));
+    contours
+      .filter(({ depthKm }) => SLAB_DEPTHS.includes(depthKm))
+      .forEach(({ depthKm, points }) => {
+        const geometry = toLineGeometry(points, LINE_TOLERANCE);
+        if (geometry) features.push({ type: 'Feature', properties: { slab, depthKm }, geometry });
+      });
+  }
+  return collection('slab-contours', formatSource(SOURCES.slabs), features);
+};
+
+// GVP years are negative before the common era
+const formatEruptionYear = (year) => {
+  const value = Number(year);
+  if (year === null || year === undefined || year === '' || !Number.isFinite(value)) return null;
+  return value < 0 ? `${-value} BCE` : String(value);
+};
+
+const buildVolcanoes = async () => {
+  const volcanoes = await fetchJson(GVP_URL);
+  const features = volcanoes.features.flatMap(({ properties, geometry }) => {
+    if (geometry?.type !== 'Point') return [];
+    const [longitude, latitude] = geometry.coordinates;
+    return [{
+      type: 'Feature',
+      properties: {
+        name: properties.Volcano_Name,
+        country: properties.Country ?? null,
+        elevationM: typeof properties.Elevation === 'number' ? properties.Elevation : null,
+        type: properties.Primary_Volcano_Type ?? null,
+        lastEruption: formatEruptionYear(properties.Last_Eruption_Year)
+      },
+      geometry: { type: 'Point', coordinates: [round(normalizeLongitude(longitude)), round(latitude)] }
+    }];
+  });
+  return collection('volcanoes', formatSource(SOURCES.volcanoes), features);
+};
+
+const parseArgs = (args) => {
+  const options = { slab2: null, only: null };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--slab2') options.slab2 = args[++i];
+    else if (args[i] === '--only') options.only = args[++i].split(',');
+    else throw new Error(`Unknown argument ${args[i]}`);
+  }
+  return options;
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const builders = {
+    plates: ['plate-boundaries.geojson', buildPlates],
+    faults: ['faults.geojson', buildFaults],
+    slabs: ['slab-contours.geojson', () => buildSlabs(options.slab2)],
+    volcanoes: ['volcanoes.geojson', buildVolcanoes]
+  };
+
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  // Overlays not rebuilt this run keep their entries
+  const index = await readFile(INDEX_FILE, 'utf8').then(JSON.parse).catch(() => ({}));
+  let built = false;
+  let failed = false;
+  for (const [id, [file, build]] of Object.entries(builders)) {
+    if (options.only && !options.only.includes(id)) continue;
+    try {
+      const data = await build();
+      // One feature per line keeps diffs of regenerated files readable
+      const body = data.features.map(feature => JSON.stringify(feature)).join(',\n');
+      const header = JSON.stringify({ type: data.type, name: data.name, source: data.source }).slice(0, -1);
+      await writeFile(new URL(file, OUTPUT_DIR), `${header},"features":[\n${body}\n]}\n`);
+      index[id] = SOURCES[id];
+      built = true;
+      console.log(`${file}: ${data.features.length} features`);
+    } catch (error) {
+      failed = true;
+      console.error(`${file}: not updated, ${error.message}`);
+    }
+  }
+  if (built) await writeFile(INDEX_FILE, `${JSON.stringify(index, null, 2)}\n`);
+  if (failed) process.exitCode = 1;
+  else console.log('Bump SHELL_CACHE in public/sw.js so installed apps pick up the new files.');
+};
+
+main();
@@ -1,48 +1,274 @@
 import React, { useState, useMemo } from 'react';
-import { RefreshCw, Activity, Globe, Clock, Map, Moon, Sun, Github, Heart } from 'lucide-react';
+import { RefreshCw, Activity, Globe, Clock, Map, Moon, Sun, Github, Heart, Database, Wifi, WifiOff, Table, LayoutDashboard } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useEarthquakes } from './hooks/useEarthquakes';
-import { EarthquakeCard } from './components/EarthquakeCard';
+import { useFdsnQuery } from './hooks/useFdsnQuery';
+import { useDataSources } from './hooks/useDataSources';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useTileCache } from './hooks/useTileCache';
+import { useAlertRules } from './hooks/useAlertRules';
+import { useAlerts } from './hooks/useAlerts';
+import { useWatchRegions } from './hooks/useWatchRegions';
+import { useReferencePoint } from './hooks/useReferencePoint';
+import { useUrlState } from './hooks/useUrlState';
+import { useLinkedEvent } from './hooks/useLinkedEvent';
+import { useClusterSettings } from './hooks/useClusterSettings';
+import { useHeatmapSettings } from './hooks/useHeatmapSettings';
+import { useMapOverlays } from './hooks/useMapOverlays';
+import { useBasemapSettings } from './hooks/useBasemapSettings';
+import { useSymbologySettings } from './hooks/useSymbologySettings';
+import { useTimelapseSettings } from './hooks/useTimelapseSettings';
+import { useTableLayout } from './hooks/useTableLayout';
 import { EarthquakeModal } from './components/EarthquakeModal';
 import { EarthquakeMap } from './components/EarthquakeMap';
+import { VirtualCardGrid } from './components/VirtualCardGrid';
+import { EarthquakeTable } from './components/EarthquakeTable';
+import { StatisticsDashboard } from './components/StatisticsDashboard';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorMessage } from './components/ErrorMessage';
 import { SearchAndFilter } from './components/SearchAndFilter';
+import { FeedSelector } from './components/FeedSelector';
+import { FdsnQueryPanel } from './components/FdsnQueryPanel';
+import { DataSourcePanel } from './components/DataSourcePanel';
+import { OfflineTilesPanel } from './components/OfflineTilesPanel';
+import { MagnitudeFrequencyPanel } from './components/MagnitudeFrequencyPanel';
+import { AlertRulesPanel } from './components/AlertRulesPanel';
+import { AlertToasts } from './components/AlertToasts';
+import { WatchRegionsPanel } from './components/WatchRegionsPanel';
+import { ReferencePointPanel } from './components/ReferencePointPanel';
 import { Earthquake } from './types/earthquake';
+import { FeedDescriptor } from './types/feed';
+import { RegionDrawMode, RegionShape } from './types/region';
+import { SortOrder } from './types/reference';
+import { EarthquakeFilters } from './types/filters';
+import { ActiveView, MapView, UrlState } from './types/urlState';
 import { formatDateTime } from './utils/dateUtils';
+import { formatMagnitude, getMaxMagnitude } from './utils/earthquakeUtils';
+import { DEFAULT_POLL_INTERVAL, getFeedMagnitudeDescription, getFeedWindowDescription, getFeedWindowShortLabel } from './utils/feedUtils';
+import { EMPTY_DIFF, getHighlights, hasChanges } from './utils/diffUtils';
+import { combineValidationReports } from './utils/validationUtils';
+import { getRegionStats, isInRegion } from './utils/regionUtils';
+import { getProximities } from './utils/proximityUtils';
+import { createFilterMatcher, DEFAULT_FILTERS, getFilterOptions } from './utils/filterUtils';
+import { DEFAULT_ENABLED_SOURCES, parseUrlState } from './utils/urlStateUtils';
+import { createBenchmarkEarthquakes, getBenchmarkConfig } from './utils/benchmarkUtils';
+import { getTileLayer } from './utils/tileUtils';
 
 function App() {
-  const { earthquakes, loading, error, lastUpdated, refetch } = useEarthquakes();
+  // State from a shared link, read once on load
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
+  const [feed, setFeed] = useState<FeedDescriptor>(initialUrlState.feed);
+  const [pollInterval, setPollInterval] = useState(DEFAULT_POLL_INTERVAL);
+  const {
+    dataSources,
+    updateDataSource,
+    setEnabledDataSources,
+    association,
+    updateAssociation,
+    cacheSettings,
+    updateCacheSettings
+  } = useDataSources(initialUrlState.dataSources);
+  const {
+    earthquakes: liveEarthquakes,
+    diff,
+    loading: feedLoading,
+    refreshing,
+    error: feedError,
+    sourceErrors,
+    sourceCounts,
+    sourceValidation,
+    lastUpdated,
+    staleSince,
+    sourceStaleSince,
+    cachedCount,
+    clearCache,
+    refetch
+  } = useEarthquakes(feed, { pollInterval, sources: dataSources, association, cache: cacheSettings });
+  const fdsnQuery = useFdsnQuery();
+  const tileCache = useTileCache();
+  const online = useOnlineStatus();
+  const { rules: alertRules, addRule, updateRule, removeRule } = useAlertRules();
+  const { regions, addRegion, importRegions, updateRegion, removeRegion } = useWatchRegions();
+  const reference = useReferencePoint();
+  const { settings: clusterSettings, setSettings: setClusterSettings } = useClusterSettings();
+  const { settings: heatmapSettings, setSettings: setHeatmapSettings } = useHeatmapSettings();
+  const { overlays, sources: overlaySources, setOverlays } = useMapOverlays();
+  const { settings: basemapSettings, setSettings: setBasemapSettings } = useBasemapSettings();
+  const { settings: symbology, setSettings: setSymbology } = useSymbologySettings();
+  const { settings: timelapseSettings, setSettings: setTimelapseSettings } = useTimelapseSettings();
+  const { layout: tableLayout, setLayout: setTableLayout } = useTableLayout();
   const [selectedEarthquake, setSelectedEarthquake] = useState<Earthquake | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [minMagnitude, setMinMagnitude] = useState(0);
-  const [activeView, setActiveView] = useState<'list' | 'map'>('map');
-  const [darkMode, setDarkMode] = useState(false);
+  const [filters, setFilters] = useState<EarthquakeFilters>(initialUrlState.filters);
+  const [activeView, setActiveView] = useState<ActiveView>(initialUrlState.view);
+  const [darkMode, setDarkMode] = useState(initialUrlState.darkMode);
+  // Linked event waiting for the catalog to load or its detail to arrive
+  const [pendingEventId, setPendingEventId] = useState<string | null>(initialUrlState.eventId);
+  const [activeRegionIds, setActiveRegionIds] = useState<string[]>(
+    () => initialUrlState.regionIds.filter(id => regions.some(region => region.id === id))
+  );
+  const [drawMode, setDrawMode] = useState<RegionDrawMode | null>(null);
+  const [editingRegionId, setEditingRegionId] = useState<string | null>(null);
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(initialUrlState.maxDistanceKm);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(initialUrlState.sortOrder);
+
+  // Historical query results replace the live feed until cleared
+  const isQueryActive = fdsnQuery.results !== null;
+  // Synthetic catalog from ?benchmark=N, for measuring map rendering
+  const [benchmark] = useState(() => getBenchmarkConfig(window.location.search));
+  const benchmarkEarthquakes = useMemo(
+    () => (benchmark ? createBenchmarkEarthquakes(benchmark.count) : null),
+    [benchmark]
+  );
+  const earthquakes = benchmarkEarthquakes ?? fdsnQuery.results ?? liveEarthquakes;
+  const loading = !isQueryActive && feedLoading;
+  const error = isQueryActive ? null : feedError;
+  const validation = isQueryActive
+    ? fdsnQuery.validation
+    : combineValidationReports(Object.values(sourceValidation));
+  const datasetKey = isQueryActive
+    ? JSON.stringify(fdsnQuery.activeQuery)
+    : JSON.stringify({ feed, dataSources });
+  const fitBoundsKey = `${datasetKey}|${JSON.stringify(filters)}|${activeRegionIds.join(',')}|${maxDistanceKm}`;
+
+  // Last map position and the fit it belongs to, so changing the filters
+  // still refits. A null key (restored from history) applies to any fit.
+  const [mapView, setMapView] = useState<{ view: MapView; fitBoundsKey: string | null } | null>(
+    () => initialUrlState.mapView ? { view: initialUrlState.mapView, fitBoundsKey } : null
+  );
+  const currentMapView = mapView && (mapView.fitBoundsKey === null || mapView.fitBoundsKey === fitBoundsKey)
+    ? mapView.view
+    : null;
+
+  const { referencePoint } = reference;
+  const proximities = useMemo(
+    () => getProximities(earthquakes, referencePoint),
+    [earthquakes, referencePoint]
+  );
+
+  // Events in the selected regions and radius, before the filters
+  const scopedEarthquakes = useMemo(() => {
+    const activeRegions = regions.filter(region => activeRegionIds.includes(region.id));
 
-  // Filter earthquakes based on search and filters
-  const filteredEarthquakes = useMemo(() => {
     return earthquakes.filter(earthquake => {
-      const matchesSearch = earthquake.properties.place
-        ?.toLowerCase()
-        .includes(searchTerm.toLowerCase()) ?? false;
+      // Events inside any of the selected regions
+      const matchesRegion = activeRegions.length === 0
+        || activeRegions.some(region => isInRegion(earthquake, region));
       
-      const matchesMagnitude = earthquake.properties.mag >= minMagnitude;
+      // The radius only applies once there is a point to measure from
+      const proximity = proximities.get(earthquake.id);
+      const matchesDistance = maxDistanceKm === null || !proximity
+        || proximity.distanceKm <= maxDistanceKm;
       
-      return matchesSearch && matchesMagnitude;
+      return matchesRegion && matchesDistance;
     });
-  }, [earthquakes, searchTerm, minMagnitude]);
+  }, [earthquakes, regions, activeRegionIds, proximities, maxDistanceKm]);
+
+  // Filter earthquakes based on search and filters
+  const filteredEarthquakes = useMemo(() => {
+    const filtered = scopedEarthquakes.filter(createFilterMatcher(filters));
+
+    if (sortOrder === 'closest' && proximities.size > 0) {
+      return [...filtered].sort(
+        (a, b) => (proximities.get(a.id)?.distanceKm ?? Infinity) - (proximities.get(b.id)?.distanceKm ?? Infinity)
+      );
+    }
+    return filtered;
+  }, [scopedEarthquakes, filters, proximities, sortOrder]);
+
+  const filterOptions = useMemo(() => getFilterOptions(earthquakes), [earthquakes]);
+
+  const regionStats = useMemo(
+    () => getRegionStats(earthquakes, regions),
+    [earthquakes, regions]
+  );
+
+  const highlights = useMemo(
+    () => getHighlights(isQueryActive ? EMPTY_DIFF : diff),
+    [diff, isQueryActive]
+  );
+
+  // Errors from a background refresh keep the current catalog on screen
+  const showError = error !== null && earthquakes.length === 0;
 
   const handleEarthquakeClick = (earthquake: Earthquake) => {
     setSelectedEarthquake(earthquake);
     setIsModalOpen(true);
+    setPendingEventId(null);
   };
 
+  const linkedEvent = useLinkedEvent(pendingEventId, earthquakes, !loading, handleEarthquakeClick);
+
+  // Back and Forward restore the state recorded in the URL
+  const handleNavigate = (state: UrlState) => {
+    setActiveView(state.view);
+    setFeed(state.feed);
+    setEnabledDataSources(state.dataSources ?? DEFAULT_ENABLED_SOURCES);
+    setFilters(state.filters);
+    setActiveRegionIds(state.regionIds.filter(id => regions.some(region => region.id === id)));
+    setMaxDistanceKm(state.maxDistanceKm);
+    setSortOrder(state.sortOrder);
+    setDarkMode(state.darkMode);
+    if (state.mapView) {
+      setMapView({ view: state.mapView, fitBoundsKey: null });
+    }
+    if (state.eventId !== selectedEarthquake?.id) {
+      setIsModalOpen(false);
+      setSelectedEarthquake(null);
+      setPendingEventId(state.eventId);
+    }
+  };
+
+  useUrlState({
+    view: activeView,
+    feed,
+    dataSources: dataSources.filter(config => config.enabled).map(config => config.id),
+    filters,
+    regionIds: activeRegionIds,
+    maxDistanceKm,
+    sortOrder,
+    mapView: currentMapView,
+    darkMode,
+    eventId: isModalOpen && selectedEarthquake ? selectedEarthquake.id : pendingEventId
+  }, handleNavigate);
+
+  // Live feed updates are checked against the alert rules, query results aren't
+  const alerts = useAlerts(alertRules, liveEarthquakes, diff, handleEarthquakeClick);
+
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setSelectedEarthquake(null);
   };
 
+  const handleDrawModeChange = (mode: RegionDrawMode | null) => {
+    setDrawMode(mode);
+    setEditingRegionId(null);
+    if (mode) setActiveView('map');
+  };
+
+  const handleRegionDrawn = (shape: RegionShape) => {
+    addRegion(shape);
+    setDrawMode(null);
+  };
+
+  const handleEditRegion = (id: string | null) => {
+    setEditingRegionId(id);
+    setDrawMode(null);
+    if (id) setActiveView('map');
+  };
+
+  const handleRemoveRegion = (id: string) => {
+    removeRegion(id);
+    setActiveRegionIds(current => current.filter(activeId => activeId !== id));
+    if (editingRegionId === id) setEditingRegionId(null);
+  };
+
+  const toggleRegionFilter = (id: string) => {
+    setActiveRegionIds(current => (
+      current.includes(id) ? current.filter(activeId => activeId !== id) : [...current, id]
+    ));
+  };
+
   const handleRefresh = () => {
     refetch();
   };
@@ -64,7 +290,7 @@ function App() {
           : 'bg-white border-gray-200'
       }`}>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-          <div className="flex items-center justify-between">
+          <div className="flex flex-wrap items-center justify-between gap-4">
             <motion.div 
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
@@ -98,7 +324,32 @@ function App() {
               </div>
             </motion.div>
             
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-4">
+              {/* Connection Status */}
+              <motion.div
+                key={online ? 'online' : 'offline'}
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                role="status"
+                className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium ${
+                  online
+                    ? 'bg-green-100 text-green-700'
+                    : 'bg-red-100 text-red-700'
+                }`}
+              >
+                {online ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+                {online ? 'Online' : 'Offline'}
+              </motion.div>
+
+              {/* Feed Picker */}
+              <FeedSelector
+                feed={feed}
+                onFeedChange={setFeed}
+                pollInterval={pollInterval}
+                onPollIntervalChange={setPollInterval}
+                darkMode={darkMode}
+              />
+
               {/* Dark Mode Toggle */}
               <motion.button
                 whileHover={{ scale: 1.05 }}
@@ -113,8 +364,25 @@ function App() {
                 {darkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
               </motion.button>
 
+              {/* Cached catalog shown until the feed responds */}
+              {staleSince && !isQueryActive && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="text-right text-sm text-amber-600"
+                >
+                  <div className="flex items-center gap-1">
+                    <Database className="w-3 h-3" />
+                    Cached · stale since
+                  </div>
+                  <div className="font-medium">
+                    {formatDateTime(staleSince.getTime())}
+                  </div>
+                </motion.div>
+              )}
+
               {/* Last Updated */}
-              {lastUpdated && (
+              {lastUpdated && !staleSince && (
                 <motion.div 
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -130,6 +398,16 @@ function App() {
                   <div className="font-medium">
                     {formatDateTime(lastUpdated.getTime())}
                   </div>
+                  {hasChanges(diff) && (
+                    <motion.div
+                      key={diff.timestamp}
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      className="text-xs"
+                    >
+                      +{diff.added.length} new · {diff.updated.length} revised · {diff.removed.length} removed
+                    </motion.div>
+                  )}
                 </motion.div>
               )}
               
@@ -138,10 +416,10 @@ function App() {
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
                 onClick={handleRefresh}
-                disabled={loading}
+                disabled={loading || refreshing}
                 className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl"
               >
-                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                <RefreshCw className={`w-4 h-4 ${loading || refreshing ? 'animate-spin' : ''}`} />
                 Refresh
               </motion.button>
             </div>
@@ -159,10 +437,97 @@ function App() {
           className="mb-8"
         >
           <SearchAndFilter
-            searchTerm={searchTerm}
-            onSearchChange={setSearchTerm}
-            minMagnitude={minMagnitude}
-            onMinMagnitudeChange={setMinMagnitude}
+            filters={filters}
+            onFiltersChange={setFilters}
+            options={filterOptions}
+            darkMode={darkMode}
+          />
+        </motion.div>
+
+        {/* Data Sources and FDSN Historical Query */}
+        <motion.div 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+          className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start mb-8"
+        >
+          <DataSourcePanel
+            dataSources={dataSources}
+            onDataSourceChange={updateDataSource}
+            feed={feed}
+            sourceCounts={sourceCounts}
+            sourceValidation={sourceValidation}
+            sourceErrors={sourceErrors}
+            sourceStaleSince={sourceStaleSince}
+            association={association}
+            onAssociationChange={updateAssociation}
+            cacheSettings={cacheSettings}
+            onCacheSettingsChange={updateCacheSettings}
+            cachedCount={cachedCount}
+            onClearCache={clearCache}
+            darkMode={darkMode}
+          />
+          <FdsnQueryPanel
+            onRunQuery={fdsnQuery.runQuery}
+            onCancel={fdsnQuery.cancel}
+            onClear={fdsnQuery.clear}
+            loading={fdsnQuery.loading}
+            error={fdsnQuery.error}
+            progress={fdsnQuery.progress}
+            resultCount={fdsnQuery.results?.length ?? null}
+            darkMode={darkMode}
+          />
+          <ReferencePointPanel
+            referencePoint={referencePoint}
+            locating={reference.locating}
+            error={reference.error}
+            onLocate={reference.locate}
+            onSetManualPoint={reference.setManualPoint}
+            onClear={reference.clear}
+            maxDistanceKm={maxDistanceKm}
+            onMaxDistanceChange={setMaxDistanceKm}
+            sortOrder={sortOrder}
+            onSortOrderChange={setSortOrder}
+            darkMode={darkMode}
+          />
+          <WatchRegionsPanel
+            regions={regions}
+            stats={regionStats}
+            activeRegionIds={activeRegionIds}
+            onToggleFilter={toggleRegionFilter}
+            drawMode={drawMode}
+            onDrawModeChange={handleDrawModeChange}
+            editingRegionId={editingRegionId}
+            onEditRegion={handleEditRegion}
+            onRenameRegion={(id, name) => updateRegion(id, { name })}
+            onRemoveRegion={handleRemoveRegion}
+            onImportRegions={importRegions}
+            onSelectEarthquake={handleEarthquakeClick}
+            darkMode={darkMode}
+          />
+          <AlertRulesPanel
+            rules={alertRules}
+            onAddRule={addRule}
+            onUpdateRule={updateRule}
+            onRemoveRule={removeRule}
+            permission={alerts.permission}
+            onRequestPermission={alerts.requestPermission}
+            darkMode={darkMode}
+          />
+          <OfflineTilesPanel
+            earthquakes={filteredEarthquakes}
+            cachedCount={tileCache.cachedCount}
+            progress={tileCache.progress}
+            running={tileCache.running}
+            error={tileCache.error}
+            onPrecache={tileCache.precache}
+            onCancel={tileCache.cancel}
+            onClear={tileCache.clear}
+            tileLayer={getTileLayer(darkMode, basemapSettings)}
+            darkMode={darkMode}
+          />
+          <MagnitudeFrequencyPanel
+            earthquakes={filteredEarthquakes}
             darkMode={darkMode}
           />
         </motion.div>
@@ -209,11 +574,96 @@ function App() {
               <Activity className="w-4 h-4" />
               List View
             </motion.button>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setActiveView('table')}
+              className={`flex items-center gap-2 px-6 py-3 rounded-lg transition-all duration-300 ${
+                activeView === 'table'
+                  ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-lg'
+                  : darkMode
+                    ? 'text-gray-300 hover:text-white hover:bg-gray-700'
+                    : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+              }`}
+            >
+              <Table className="w-4 h-4" />
+              Table
+            </motion.button>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setActiveView('dashboard')}
+              className={`flex items-center gap-2 px-6 py-3 rounded-lg transition-all duration-300 ${
+                activeView === 'dashboard'
+                  ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-lg'
+                  : darkMode
+                    ? 'text-gray-300 hover:text-white hover:bg-gray-700'
+                    : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+              }`}
+            >
+              <LayoutDashboard className="w-4 h-4" />
+              Dashboard
+            </motion.button>
           </div>
         </motion.div>
 
+        {/* Background refresh failure */}
+        {error && !showError && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-6 p-3 rounded-lg border border-yellow-200 bg-yellow-50 text-sm text-yellow-800"
+          >
+            Refresh failed: {error}. Showing the last loaded data.
+          </motion.div>
+        )}
+
+        {/* Event from a shared link */}
+        {(linkedEvent.loading || linkedEvent.error) && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={`mb-6 p-3 rounded-lg border text-sm flex items-center justify-between gap-3 ${
+              linkedEvent.error
+                ? 'border-yellow-200 bg-yellow-50 text-yellow-800'
+                : darkMode
+                  ? 'border-gray-700 bg-gray-800 text-gray-300'
+                  : 'border-gray-200 bg-white text-gray-600'
+            }`}
+          >
+            <span>
+              {linkedEvent.error
+                ? `Couldn't open the linked event ${pendingEventId}: ${linkedEvent.error}`
+                : `Loading linked event ${pendingEventId}...`}
+            </span>
+            <button
+              onClick={() => setPendingEventId(null)}
+              className="text-xs font-medium underline"
+            >
+              {linkedEvent.error ? 'Dismiss' : 'Cancel'}
+            </button>
+          </motion.div>
+        )}
+
+        {/* Malformed records dropped during validation */}
+        {validation && validation.rejected > 0 && !loading && !showError && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={`mb-6 p-3 rounded-lg border text-sm ${
+              darkMode
+                ? 'border-gray-700 bg-gray-800 text-gray-300'
+                : 'border-gray-200 bg-white text-gray-600'
+            }`}
+          >
+            {validation.rejected} of {validation.total} records were malformed and dropped ({
+              Object.entries(validation.reasons).map(([reason, count]) => `${count} ${reason}`).join(', ')
+            }).
+          </motion.div>
+        )}
+
         {/* Enhanced Stats */}
-        {!loading && !error && (
+        {!loading && !showError && (
           <motion.div 
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -241,7 +691,7 @@ function App() {
                   <div className={`${
                     darkMode ? 'text-gray-300' : 'text-gray-600'
                   }`}>
-                    Total Earthquakes (24h)
+                    Total Earthquakes ({isQueryActive ? 'query' : getFeedWindowShortLabel(feed.window)})
                   </div>
                 </div>
               </div>
@@ -292,10 +742,7 @@ function App() {
                   <div className={`text-3xl font-bold ${
                     darkMode ? 'text-white' : 'text-gray-900'
                   }`}>
-                    {earthquakes.length > 0 
-                      ? Math.max(...earthquakes.map(eq => eq.properties.mag || 0)).toFixed(1)
-                      : '0.0'
-                    }
+                    {formatMagnitude(getMaxMagnitude(earthquakes))}
                   </div>
                   <div className={`${
                     darkMode ? 'text-gray-300' : 'text-gray-600'
@@ -320,17 +767,18 @@ function App() {
             </motion.div>
           )}
           
-          {error && (
+          {showError && (
             <motion.div
               initial={{ opacity: 0, scale: 0.9 }}
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0, scale: 0.9 }}
             >
-              <ErrorMessage message={error} onRetry={handleRefresh} />
+              <ErrorMessage message={error ?? ''} onRetry={handleRefresh} />
             </motion.div>
           )}
           
-          {!loading && !error && filteredEarthquakes.length === 0 && earthquakes.length > 0 && (
+          {/* The dashboard stays up, so a brush can be cleared from it */}
+          {!loading && !showError && activeView !== 'dashboard' && filteredEarthquakes.length === 0 && earthquakes.length > 0 && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -346,12 +794,18 @@ function App() {
               <p className={`${
                 darkMode ? 'text-gray-400' : 'text-gray-500'
               }`}>
-                Try adjusting your search terms or minimum magnitude
+                Try adjusting or removing some of the active filters
               </p>
+              <button
+                onClick={() => setFilters(DEFAULT_FILTERS)}
+                className="mt-4 px-4 py-2 text-sm bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg"
+              >
+                Reset all filters
+              </button>
             </motion.div>
           )}
           
-          {!loading && !error && earthquakes.length === 0 && (
+          {!loading && !showError && earthquakes.length === 0 && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -367,13 +821,16 @@ function App() {
               <p className={`${
                 darkMode ? 'text-gray-400' : 'text-gray-500'
               }`}>
-                No earthquakes recorded in the past 24 hours
+                {isQueryActive
+                  ? 'The historical query returned no events'
+                  : `No ${getFeedMagnitudeDescription(feed.magnitude)} recorded in the ${getFeedWindowDescription(feed.window)}`
+                }
               </p>
             </motion.div>
           )}
 
           {/* Enhanced Map View */}
-          {!loading && !error && activeView === 'map' && filteredEarthquakes.length > 0 && (
+          {!loading && !showError && activeView === 'map' && filteredEarthquakes.length > 0 && (
             <motion.div
               key="map-view"
               initial={{ opacity: 0, scale: 0.95 }}
@@ -385,34 +842,91 @@ function App() {
                 earthquakes={filteredEarthquakes}
                 onEarthquakeClick={handleEarthquakeClick}
                 darkMode={darkMode}
+                highlights={highlights}
+                fitBoundsKey={fitBoundsKey}
+                view={currentMapView}
+                onViewChange={(view) => setMapView({ view, fitBoundsKey })}
+                regions={regions}
+                activeRegionIds={activeRegionIds}
+                drawMode={drawMode}
+                onRegionDrawn={handleRegionDrawn}
+                onDrawCancel={() => setDrawMode(null)}
+                editingRegionId={editingRegionId}
+                onRegionShapeChange={(id, shape) => updateRegion(id, { shape })}
+                referencePoint={referencePoint}
+                maxDistanceKm={maxDistanceKm}
+                clusterSettings={clusterSettings}
+                onClusterSettingsChange={setClusterSettings}
+                heatmapSettings={heatmapSettings}
+                onHeatmapSettingsChange={setHeatmapSettings}
+                basemapSettings={basemapSettings}
+                onBasemapSettingsChange={setBasemapSettings}
+                overlays={overlays}
+                overlaySources={overlaySources}
+                onOverlaysChange={setOverlays}
+                symbology={symbology}
+                onSymbologyChange={setSymbology}
+                timelapseSettings={timelapseSettings}
+                onTimelapseSettingsChange={setTimelapseSettings}
+                benchmark={benchmark}
               />
             </motion.div>
           )}
 
           {/* Enhanced List View */}
-          {!loading && !error && activeView === 'list' && filteredEarthquakes.length > 0 && (
+          {!loading && !showError && activeView === 'list' && filteredEarthquakes.length > 0 && (
             <motion.div
               key="list-view"
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
               transition={{ duration: 0.4 }}
-              className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
             >
-              {filteredEarthquakes.map((earthquake, index) => (
-                <motion.div
-                  key={earthquake.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.05, duration: 0.4 }}
-                >
-                  <EarthquakeCard
-                    earthquake={earthquake}
-                    onClick={() => handleEarthquakeClick(earthquake)}
-                    darkMode={darkMode}
-                  />
-                </motion.div>
-              ))}
+              <VirtualCardGrid
+                earthquakes={filteredEarthquakes}
+                onSelect={handleEarthquakeClick}
+                darkMode={darkMode}
+                highlights={highlights}
+                referencePoint={referencePoint}
+                symbology={symbology}
+              />
+            </motion.div>
+          )}
+
+          {/* Table View */}
+          {!loading && !showError && activeView === 'table' && filteredEarthquakes.length > 0 && (
+            <motion.div
+              key="table-view"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.4 }}
+            >
+              <EarthquakeTable
+                earthquakes={filteredEarthquakes}
+                onSelect={handleEarthquakeClick}
+                layout={tableLayout}
+                onLayoutChange={setTableLayout}
+                darkMode={darkMode}
+              />
+            </motion.div>
+          )}
+
+          {/* Statistics Dashboard */}
+          {!loading && !showError && activeView === 'dashboard' && earthquakes.length > 0 && (
+            <motion.div
+              key="dashboard-view"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.4 }}
+            >
+              <StatisticsDashboard
+                earthquakes={scopedEarthquakes}
+                filters={filters}
+                onFiltersChange={setFilters}
+                darkMode={darkMode}
+              />
             </motion.div>
           )}
         </AnimatePresence>
@@ -509,17 +1023,27 @@ function App() {
               darkMode ? 'text-gray-500' : 'text-gray-500'
             }`}>
               Real-time earthquake monitoring application built with React, TypeScript, and Leaflet. 
-              Data updates every minute from USGS GeoJSON feeds.
+              Data refreshes automatically from USGS GeoJSON feeds (every minute by default).
             </p>
           </motion.div>
         </div>
       </footer>
 
+      {/* Alert Rule Matches */}
+      <AlertToasts
+        toasts={alerts.toasts}
+        onSelect={handleEarthquakeClick}
+        onDismiss={alerts.dismissToast}
+        darkMode={darkMode}
+      />
+
       {/* Enhanced Modal */}
       <EarthquakeModal
         earthquake={selectedEarthquake}
         isOpen={isModalOpen}
         onClose={handleCloseModal}
+        referencePoint={referencePoint}
+        symbology={symbology}
         darkMode={darkMode}
       />
     </div>
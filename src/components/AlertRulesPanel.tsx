@@ -0,0 +1,444 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Plus, Pencil, Trash2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertRule, PagerLevel } from '../types/alert';
+import { FdsnArea } from '../types/fdsn';
+import { describeAlertRule, PAGER_LEVELS } from '../utils/alertUtils';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  onAddRule: () => AlertRule;
+  onUpdateRule: (rule: AlertRule) => void;
+  onRemoveRule: (id: string) => void;
+  permission: NotificationPermission | 'unsupported';
+  onRequestPermission: () => void;
+  darkMode?: boolean;
+}
+
+type AreaMode = 'none' | 'box' | 'radius';
+
+interface RuleForm {
+  name: string;
+  minMagnitude: string;
+  maxDepth: string;
+  minAlertLevel: PagerLevel | '';
+  tsunamiOnly: boolean;
+  areaMode: AreaMode;
+  minLatitude: string;
+  maxLatitude: string;
+  minLongitude: string;
+  maxLongitude: string;
+  latitude: string;
+  longitude: string;
+  maxRadiusKm: string;
+  cooldownMinutes: string;
+}
+
+const formatOptional = (value: number | undefined): string => value === undefined ? '' : String(value);
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toRuleForm = (rule: AlertRule): RuleForm => ({
+  name: rule.name,
+  minMagnitude: formatOptional(rule.minMagnitude),
+  maxDepth: formatOptional(rule.maxDepth),
+  minAlertLevel: rule.minAlertLevel ?? '',
+  tsunamiOnly: rule.tsunamiOnly,
+  areaMode: rule.area?.type ?? 'none',
+  minLatitude: rule.area?.type === 'box' ? String(rule.area.minLatitude) : '',
+  maxLatitude: rule.area?.type === 'box' ? String(rule.area.maxLatitude) : '',
+  minLongitude: rule.area?.type === 'box' ? String(rule.area.minLongitude) : '',
+  maxLongitude: rule.area?.type === 'box' ? String(rule.area.maxLongitude) : '',
+  latitude: rule.area?.type === 'radius' ? String(rule.area.latitude) : '',
+  longitude: rule.area?.type === 'radius' ? String(rule.area.longitude) : '',
+  maxRadiusKm: rule.area?.type === 'radius' ? String(rule.area.maxRadiusKm) : '',
+  cooldownMinutes: String(rule.cooldownMinutes)
+});
+
+const buildRule = (rule: AlertRule, form: RuleForm): { rule?: AlertRule; error?: string } => {
+  let area: FdsnArea | undefined;
+  if (form.areaMode === 'box') {
+    const minLatitude = parseOptionalNumber(form.minLatitude);
+    const maxLatitude = parseOptionalNumber(form.maxLatitude);
+    const minLongitude = parseOptionalNumber(form.minLongitude);
+    const maxLongitude = parseOptionalNumber(form.maxLongitude);
+    if (minLatitude === undefined || maxLatitude === undefined || minLongitude === undefined || maxLongitude === undefined) {
+      return { error: 'Bounding box needs all four edges' };
+    }
+    area = { type: 'box', minLatitude, maxLatitude, minLongitude, maxLongitude };
+  } else if (form.areaMode === 'radius') {
+    const latitude = parseOptionalNumber(form.latitude);
+    const longitude = parseOptionalNumber(form.longitude);
+    const maxRadiusKm = parseOptionalNumber(form.maxRadiusKm);
+    if (latitude === undefined || longitude === undefined || maxRadiusKm === undefined) {
+      return { error: 'Distance rule needs a center and a radius' };
+    }
+    area = { type: 'radius', latitude, longitude, maxRadiusKm };
+  }
+
+  const cooldownMinutes = parseOptionalNumber(form.cooldownMinutes) ?? 0;
+  if (cooldownMinutes < 0) {
+    return { error: 'Cooldown cannot be negative' };
+  }
+
+  return {
+    rule: {
+      ...rule,
+      name: form.name.trim() || 'Untitled rule',
+      minMagnitude: parseOptionalNumber(form.minMagnitude),
+      maxDepth: parseOptionalNumber(form.maxDepth),
+      minAlertLevel: form.minAlertLevel || undefined,
+      tsunamiOnly: form.tsunamiOnly,
+      area,
+      cooldownMinutes
+    }
+  };
+};
+
+export const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({
+  rules,
+  onAddRule,
+  onUpdateRule,
+  onRemoveRule,
+  permission,
+  onRequestPermission,
+  darkMode = false
+}) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const enabledCount = rules.filter(rule => rule.enabled).length;
+
+  const startEditing = (rule: AlertRule) => {
+    setEditingId(rule.id);
+    setForm(toRuleForm(rule));
+    setFormError(null);
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setForm(null);
+    setFormError(null);
+  };
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm(current => current && { ...current, ...changes });
+  };
+
+  const handleSubmit = (e: React.FormEvent, rule: AlertRule) => {
+    e.preventDefault();
+    if (!form) return;
+    const { rule: updated, error } = buildRule(rule, form);
+    setFormError(error ?? null);
+    if (updated) {
+      onUpdateRule(updated);
+      stopEditing();
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 text-sm rounded-lg border transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    darkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    darkMode ? 'text-gray-300' : 'text-gray-600'
+  }`;
+
+  const renderNumberInput = (field: keyof RuleForm, label: string, placeholder?: string) => (
+    <div>
+      <label htmlFor={`alert-${field}`} className={labelClassName}>
+        {label}
+      </label>
+      <input
+        id={`alert-${field}`}
+        type="number"
+        step="any"
+        placeholder={placeholder}
+        value={form ? String(form[field]) : ''}
+        onChange={(e) => updateForm({ [field]: e.target.value })}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  const renderEditor = (rule: AlertRule) => form && (
+    <form
+      onSubmit={(e) => handleSubmit(e, rule)}
+      className={`mt-3 space-y-4 border-t pt-3 ${
+        darkMode ? 'border-gray-600' : 'border-gray-200'
+      }`}
+    >
+      <div>
+        <label htmlFor="alert-name" className={labelClassName}>Name</label>
+        <input
+          id="alert-name"
+          type="text"
+          value={form.name}
+          onChange={(e) => updateForm({ name: e.target.value })}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {renderNumberInput('minMagnitude', 'Min magnitude', 'Any')}
+        {renderNumberInput('maxDepth', 'Max depth (km)', 'Any')}
+        <div>
+          <label htmlFor="alert-minAlertLevel" className={labelClassName}>PAGER level</label>
+          <select
+            id="alert-minAlertLevel"
+            value={form.minAlertLevel}
+            onChange={(e) => updateForm({ minAlertLevel: e.target.value as PagerLevel | '' })}
+            className={inputClassName}
+          >
+            <option value="">Any</option>
+            {PAGER_LEVELS.map(level => (
+              <option key={level} value={level}>
+                {level.charAt(0).toUpperCase() + level.slice(1)} or higher
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="alert-areaMode" className={labelClassName}>Area</label>
+          <select
+            id="alert-areaMode"
+            value={form.areaMode}
+            onChange={(e) => updateForm({ areaMode: e.target.value as AreaMode })}
+            className={inputClassName}
+          >
+            <option value="none">Anywhere</option>
+            <option value="box">Bounding box</option>
+            <option value="radius">Distance from point</option>
+          </select>
+        </div>
+        {renderNumberInput('cooldownMinutes', 'Cooldown (minutes)', '0')}
+      </div>
+
+      {form.areaMode === 'box' && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {renderNumberInput('minLatitude', 'Min latitude', '-90')}
+          {renderNumberInput('maxLatitude', 'Max latitude', '90')}
+          {renderNumberInput('minLongitude', 'Min longitude', '-180')}
+          {renderNumberInput('maxLongitude', 'Max longitude', '180')}
+        </div>
+      )}
+
+      {form.areaMode === 'radius' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {renderNumberInput('latitude', 'Latitude')}
+          {renderNumberInput('longitude', 'Longitude')}
+          {renderNumberInput('maxRadiusKm', 'Radius (km)')}
+        </div>
+      )}
+
+      <label className={`flex items-center gap-2 text-sm ${
+        darkMode ? 'text-gray-300' : 'text-gray-700'
+      }`}>
+        <input
+          type="checkbox"
+          checked={form.tsunamiOnly}
+          onChange={(e) => updateForm({ tsunamiOnly: e.target.checked })}
+          className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+        />
+        Only events flagged for tsunami potential
+      </label>
+
+      {formError && (
+        <p className="text-sm text-red-600">{formError}</p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          type="submit"
+          className="px-4 py-2 text-sm bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg"
+        >
+          Save rule
+        </motion.button>
+        <button
+          type="button"
+          onClick={stopEditing}
+          className={`px-4 py-2 text-sm rounded-lg border ${
+            darkMode
+              ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+              : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`rounded-xl shadow-lg p-6 border transition-all duration-300 ${
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-100'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Bell className={`w-4 h-4 ${
+            darkMode ? 'text-gray-400' : 'text-gray-500'
+          }`} />
+          <h3 className={`font-semibold ${
+            darkMode ? 'text-white' : 'text-gray-800'
+          }`}>
+            Alert Rules
+          </h3>
+          <span className={`text-xs px-2 py-1 rounded-full ${
+            darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+          }`}>
+            {enabledCount} active
+          </span>
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => setShowPanel(!showPanel)}
+          className={`px-4 py-2 text-sm rounded-lg border transition-all duration-200 ${
+            showPanel
+              ? 'bg-blue-100 border-blue-300 text-blue-700'
+              : darkMode
+                ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {showPanel ? 'Hide' : 'Edit rules'}
+        </motion.button>
+      </div>
+
+      <AnimatePresence>
+        {showPanel && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3, ease: "easeInOut" }}
+            className={`mt-4 border-t pt-4 space-y-4 ${
+              darkMode ? 'border-gray-700' : 'border-gray-200'
+            }`}
+          >
+            {permission !== 'granted' && (
+              <div className={`flex items-center justify-between gap-3 p-3 rounded-lg text-sm ${
+                darkMode ? 'bg-gray-700 text-gray-300' : 'bg-blue-50 text-blue-800'
+              }`}>
+                <div className="flex items-center gap-2">
+                  <BellOff className="w-4 h-4" />
+                  {permission === 'unsupported'
+                    ? 'This browser has no notifications, matches only show in the app'
+                    : permission === 'denied'
+                      ? 'Browser notifications are blocked, matches only show in the app'
+                      : 'Browser notifications are off'}
+                </div>
+                {permission === 'default' && (
+                  <button
+                    type="button"
+                    onClick={onRequestPermission}
+                    className="px-3 py-1 text-xs rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+                  >
+                    Enable
+                  </button>
+                )}
+              </div>
+            )}
+
+            {rules.length === 0 && (
+              <p className={`text-sm ${
+                darkMode ? 'text-gray-400' : 'text-gray-500'
+              }`}>
+                No rules yet. New events from the live feed are checked against every enabled rule.
+              </p>
+            )}
+
+            {rules.map(rule => (
+              <div
+                key={rule.id}
+                className={`rounded-lg p-4 ${
+                  darkMode ? 'bg-gray-700' : 'bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <label className="flex items-center gap-3 cursor-pointer min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => onUpdateRule({ ...rule, enabled: e.target.checked })}
+                      className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="min-w-0">
+                      <div className={`font-medium truncate ${
+                        darkMode ? 'text-white' : 'text-gray-800'
+                      }`}>
+                        {rule.name}
+                      </div>
+                      <div className={`text-xs ${
+                        darkMode ? 'text-gray-400' : 'text-gray-500'
+                      }`}>
+                        {describeAlertRule(rule)}
+                        {rule.cooldownMinutes > 0 && ` · ${rule.cooldownMinutes} min cooldown`}
+                      </div>
+                    </div>
+                  </label>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      aria-label="Edit rule"
+                      onClick={() => (editingId === rule.id ? stopEditing() : startEditing(rule))}
+                      className={`p-2 rounded-lg ${
+                        darkMode ? 'text-gray-300 hover:bg-gray-600' : 'text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      aria-label="Delete rule"
+                      onClick={() => {
+                        if (editingId === rule.id) stopEditing();
+                        onRemoveRule(rule.id);
+                      }}
+                      className="p-2 rounded-lg text-red-600 hover:bg-red-100"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {editingId === rule.id && renderEditor(rule)}
+              </div>
+            ))}
+
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => startEditing(onAddRule())}
+              className={`flex items-center gap-2 px-4 py-2 text-sm rounded-lg border ${
+                darkMode
+                  ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                  : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <Plus className="w-4 h-4" />
+              Add rule
+            </motion.button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect } from 'react';
+import { BellRing, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertNotification } from '../types/alert';
+import { Earthquake } from '../types/earthquake';
+import { formatAlertTitle } from '../utils/alertUtils';
+import { getTimeAgo } from '../utils/dateUtils';
+import { getMagnitudeClass } from '../utils/symbologyUtils';
+
+interface AlertToastsProps {
+  toasts: AlertNotification[];
+  onSelect: (earthquake: Earthquake) => void;
+  onDismiss: (id: string) => void;
+  darkMode?: boolean;
+}
+
+const TOAST_DURATION = 20000;
+
+const AlertToast: React.FC<{
+  toast: AlertNotification;
+  onSelect: (earthquake: Earthquake) => void;
+  onDismiss: (id: string) => void;
+  darkMode: boolean;
+}> = ({ toast, onSelect, onDismiss, darkMode }) => {
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => onDismiss(toast.id), TOAST_DURATION);
+    return () => window.clearTimeout(timeoutId);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, x: 50, scale: 0.95 }}
+      animate={{ opacity: 1, x: 0, scale: 1 }}
+      exit={{ opacity: 0, x: 50, scale: 0.95 }}
+      className={`flex items-start gap-3 w-80 p-4 rounded-xl shadow-2xl border cursor-pointer ${
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-200'
+      }`}
+      onClick={() => {
+        onSelect(toast.earthquake);
+        onDismiss(toast.id);
+      }}
+    >
+      <div className={`p-2 rounded-lg ${getMagnitudeClass(toast.earthquake.properties.mag).colors.badge}`}>
+        <BellRing className="w-4 h-4" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className={`font-semibold text-sm truncate ${
+          darkMode ? 'text-white' : 'text-gray-900'
+        }`}>
+          {formatAlertTitle(toast)}
+        </div>
+        <div className={`text-xs ${
+          darkMode ? 'text-gray-400' : 'text-gray-500'
+        }`}>
+          {toast.rule.name} · {getTimeAgo(toast.earthquake.properties.time)}
+        </div>
+      </div>
+      <button
+        type="button"
+        aria-label="Dismiss"
+        onClick={(e) => {
+          e.stopPropagation();
+          onDismiss(toast.id);
+        }}
+        className={`p-1 rounded ${
+          darkMode ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'
+        }`}
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </motion.div>
+  );
+};
+
+export const AlertToasts: React.FC<AlertToastsProps> = ({
+  toasts,
+  onSelect,
+  onDismiss,
+  darkMode = false
+}) => {
+  return (
+    <div className="fixed bottom-4 right-4 z-[1100] flex flex-col gap-3">
+      <AnimatePresence>
+        {toasts.map(toast => (
+          <AlertToast
+            key={toast.id}
+            toast={toast}
+            onSelect={onSelect}
+            onDismiss={onDismiss}
+            darkMode={darkMode}
+          />
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
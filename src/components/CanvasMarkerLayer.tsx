@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import { DomUtil, LeafletMouseEvent, Point } from 'leaflet';
+import { Earthquake, EarthquakeHighlight } from '../types/earthquake';
+import { MarkerStyle, PlacedEarthquake } from '../types/markers';
+import { SymbologySettings } from '../types/symbology';
+import { getMarkerSprite, getMarkerStyle, getSpriteExtent, isRecentEarthquake } from '../utils/markerStyleUtils';
+import { DEFAULT_SYMBOLOGY, SIZE_SCALES } from '../utils/symbologyUtils';
+
+interface CanvasMarkerLayerProps {
+  markers: PlacedEarthquake[];
+  highlights?: Map<string, EarthquakeHighlight>;
+  symbology?: SymbologySettings;
+  // Per-event opacity, e.g. events fading out during playback
+  opacities?: Map<string, number>;
+  onHover?: (marker: PlacedEarthquake) => void;
+  onClick?: (earthquake: Earthquake) => void;
+}
+
+interface DrawnMarker {
+  marker: PlacedEarthquake;
+  style: MarkerStyle;
+  // Layer point, which stays put while the map is dragged
+  x: number;
+  y: number;
+  recent: boolean;
+}
+
+const PANE_NAME = 'earthquakeCanvas';
+// Drawn area beyond each edge, so dragging doesn't reveal a blank border
+const PADDING = 0.1;
+const HIT_CELL_SIZE = 64; // px, larger than any marker
+const PULSE_PERIOD_MS = 1000;
+// Three 1.2 s flashes, as on the DOM markers
+const FLASH_DURATION_MS = 3600;
+const FLASH_COLORS: Record<EarthquakeHighlight, string> = {
+  new: 'rgba(250, 204, 21, 0.9)',
+  updated: 'rgba(96, 165, 250, 0.9)'
+};
+
+const getCellKey = (x: number, y: number): string => `${x}:${y}`;
+
+const getLatLng = ({ earthquake, position }: PlacedEarthquake): [number, number] => {
+  return position ?? [earthquake.geometry.coordinates[1], earthquake.geometry.coordinates[0]];
+};
+
+/**
+ * Draws every event onto one canvas instead of one DOM marker each. Events
+ * are stamped from cached per-magnitude sprites, hit-tested through a grid
+ * of screen cells, and only recent or just-changed events are animated, on
+ * a second canvas so the static markers aren't repainted every frame.
+ */
+export const CanvasMarkerLayer: React.FC<CanvasMarkerLayerProps> = ({
+  markers,
+  highlights,
+  symbology = DEFAULT_SYMBOLOGY,
+  opacities,
+  onHover,
+  onClick
+}) => {
+  const map = useMap();
+  const redrawRef = useRef<() => void>(() => undefined);
+  const flashStartRef = useRef(0);
+
+  // Smallest first, so larger markers are painted, and hit, on top
+  const sortedMarkers = useMemo(() => {
+    const { getSize } = SIZE_SCALES[symbology.size];
+    return [...markers].sort((a, b) => (
+      getSize(a.earthquake) - getSize(b.earthquake)
+      || (a.earthquake.properties.mag ?? -1) - (b.earthquake.properties.mag ?? -1)
+    ));
+  }, [markers, symbology.size]);
+  // Read by the map listeners, which are bound once
+  const propsRef = useRef({ markers: sortedMarkers, highlights, symbology, opacities, onHover, onClick });
+  propsRef.current = { markers: sortedMarkers, highlights, symbology, opacities, onHover, onClick };
+
+  useEffect(() => {
+    const pane = map.getPane(PANE_NAME) ?? map.createPane(PANE_NAME);
+    // Above region shapes, below cluster badges and popups
+    pane.style.zIndex = '450';
+    pane.style.pointerEvents = 'none';
+
+    // Pulses go underneath, like the rings around the DOM markers
+    const pulse = DomUtil.create('canvas', 'leaflet-zoom-hide', pane);
+    const base = DomUtil.create('canvas', 'leaflet-zoom-hide', pane);
+    const container = map.getContainer();
+    let drawn: DrawnMarker[] = [];
+    let animated: DrawnMarker[] = [];
+    let grid = new Map<string, number[]>();
+    let origin = new Point(0, 0);
+    let pixelRatio = 1;
+    let frame: number | null = null;
+    let hoveredId: string | null = null;
+
+    const animate = (time: number) => {
+      const context = pulse.getContext('2d');
+      if (!context) return;
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      context.clearRect(0, 0, pulse.width, pulse.height);
+
+      const progress = (time % PULSE_PERIOD_MS) / PULSE_PERIOD_MS;
+      const flashAge = performance.now() - flashStartRef.current;
+      const flashing = flashAge < FLASH_DURATION_MS;
+      const { highlights } = propsRef.current;
+
+      animated.forEach(({ marker, style, x, y, recent }) => {
+        const cx = x - origin.x;
+        const cy = y - origin.y;
+        const highlight = flashing ? highlights?.get(marker.earthquake.id) : undefined;
+
+        if (recent) {
+          context.beginPath();
+          context.arc(cx, cy, style.radius + 4 + progress * style.radius * 0.8, 0, Math.PI * 2);
+          context.globalAlpha = 0.4 * (1 - progress);
+          context.fillStyle = style.glow;
+          context.fill();
+        }
+        if (highlight) {
+          const flashProgress = (flashAge % 1200) / 1200;
+          context.beginPath();
+          context.arc(cx, cy, style.radius + 4 + flashProgress * 14, 0, Math.PI * 2);
+          context.globalAlpha = 1 - flashProgress;
+          context.lineWidth = 3;
+          context.strokeStyle = FLASH_COLORS[highlight];
+          context.stroke();
+        }
+      });
+      context.globalAlpha = 1;
+
+      if (!flashing) {
+        animated = animated.filter(item => item.recent);
+      }
+      frame = animated.length > 0 ? requestAnimationFrame(animate) : null;
+    };
+
+    const startAnimation = () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      pulse.getContext('2d')?.clearRect(0, 0, pulse.width, pulse.height);
+      if (animated.length > 0) frame = requestAnimationFrame(animate);
+    };
+
+    const draw = () => {
+      const size = map.getSize();
+      const padding = size.multiplyBy(PADDING).round();
+      const width = size.x + padding.x * 2;
+      const height = size.y + padding.y * 2;
+      origin = map.containerPointToLayerPoint(padding.multiplyBy(-1)).round();
+      pixelRatio = window.devicePixelRatio || 1;
+
+      [base, pulse].forEach(canvas => {
+        DomUtil.setPosition(canvas, origin);
+        canvas.width = Math.round(width * pixelRatio);
+        canvas.height = Math.round(height * pixelRatio);
+        canvas.style.width = `${width}px`;
+        canvas.style.height = `${height}px`;
+      });
+
+      const context = base.getContext('2d');
+      if (!context) return;
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+      const now = Date.now();
+      const flashing = performance.now() - flashStartRef.current < FLASH_DURATION_MS;
+      const { markers, highlights, symbology, opacities } = propsRef.current;
+      drawn = [];
+      grid = new Map();
+
+      markers.forEach(marker => {
+        const style = getMarkerStyle(marker.earthquake, symbology, now);
+        const extent = getSpriteExtent(style);
+        const point = map.latLngToLayerPoint(getLatLng(marker));
+        const cx = point.x - origin.x;
+        const cy = point.y - origin.y;
+        if (cx < -extent || cy < -extent || cx > width + extent || cy > height + extent) return;
+
+        context.globalAlpha = opacities?.get(marker.earthquake.id) ?? 1;
+        context.drawImage(getMarkerSprite(style, pixelRatio), cx - extent, cy - extent, extent * 2, extent * 2);
+
+        const cellKey = getCellKey(Math.floor(point.x / HIT_CELL_SIZE), Math.floor(point.y / HIT_CELL_SIZE));
+        const cell = grid.get(cellKey);
+        if (cell) {
+          cell.push(drawn.length);
+        } else {
+          grid.set(cellKey, [drawn.length]);
+        }
+        drawn.push({ marker, style, x: point.x, y: point.y, recent: isRecentEarthquake(marker.earthquake, now) });
+      });
+      context.globalAlpha = 1;
+
+      animated = drawn.filter(item => item.recent || (flashing && highlights?.has(item.marker.earthquake.id)));
+      startAnimation();
+    };
+
+    const hitTest = (point: Point): DrawnMarker | null => {
+      const cellX = Math.floor(point.x / HIT_CELL_SIZE);
+      const cellY = Math.floor(point.y / HIT_CELL_SIZE);
+      let hit = -1;
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          grid.get(getCellKey(cellX + dx, cellY + dy))?.forEach(index => {
+            const { x, y, style } = drawn[index];
+            if (index > hit && Math.hypot(point.x - x, point.y - y) <= style.radius + 4) {
+              hit = index;
+            }
+          });
+        }
+      }
+      return hit >= 0 ? drawn[hit] : null;
+    };
+
+    const handleMouseMove = (e: LeafletMouseEvent) => {
+      const hit = hitTest(e.layerPoint);
+      container.style.cursor = hit ? 'pointer' : '';
+      const id = hit?.marker.earthquake.id ?? null;
+      if (hit && id !== hoveredId) {
+        propsRef.current.onHover?.(hit.marker);
+      }
+      hoveredId = id;
+    };
+
+    const handleClick = (e: LeafletMouseEvent) => {
+      const hit = hitTest(e.layerPoint);
+      if (hit) propsRef.current.onClick?.(hit.marker.earthquake);
+    };
+
+    redrawRef.current = draw;
+    map.on('moveend resize viewreset', draw);
+    map.on('mousemove', handleMouseMove);
+    map.on('click', handleClick);
+    draw();
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      map.off('moveend resize viewreset', draw);
+      map.off('mousemove', handleMouseMove);
+      map.off('click', handleClick);
+      container.style.cursor = '';
+      DomUtil.remove(base);
+      DomUtil.remove(pulse);
+      redrawRef.current = () => undefined;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    if (highlights && highlights.size > 0) {
+      flashStartRef.current = performance.now();
+    }
+  }, [highlights]);
+
+  useEffect(() => {
+    redrawRef.current();
+  }, [sortedMarkers, highlights, symbology, opacities]);
+
+  return null;
+};
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Marker, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import { DivIcon, LatLngBounds, Point } from 'leaflet';
+import { Earthquake, EarthquakeHighlight } from '../types/earthquake';
+import { ClusterSettings, EarthquakeCluster } from '../types/cluster';
+import { PlacedEarthquake } from '../types/markers';
+import { ColorEncoding } from '../types/symbology';
+import { clusterEarthquakes, getSpiderOffsets } from '../utils/clusterUtils';
+import { formatMagnitude } from '../utils/earthquakeUtils';
+import { getColorClass } from '../utils/symbologyUtils';
+
+interface ClusterLayerProps {
+  earthquakes: Earthquake[];
+  settings: ClusterSettings;
+  highlights?: Map<string, EarthquakeHighlight>;
+  colorBy?: ColorEncoding;
+  // Draws the events outside clusters, and those spread out from one
+  renderMarkers: (markers: PlacedEarthquake[]) => React.ReactNode;
+}
+
+const toLatLng = (earthquake: Earthquake): [number, number] => [
+  earthquake.geometry.coordinates[1],
+  earthquake.geometry.coordinates[0]
+];
+
+const getClusterHighlight = (
+  cluster: EarthquakeCluster,
+  highlights?: Map<string, EarthquakeHighlight>
+): EarthquakeHighlight | undefined => {
+  if (!highlights) return undefined;
+  const members = cluster.earthquakes.map(earthquake => highlights.get(earthquake.id));
+  if (members.includes('new')) return 'new';
+  return members.includes('updated') ? 'updated' : undefined;
+};
+
+// Coloured like its largest event, the one named in the badge
+const createClusterIcon = (
+  cluster: EarthquakeCluster,
+  colorBy: ColorEncoding,
+  highlight?: EarthquakeHighlight
+): DivIcon => {
+  const largest = cluster.earthquakes.reduce((max, earthquake) => (
+    (earthquake.properties.mag ?? -Infinity) > (max.properties.mag ?? -Infinity) ? earthquake : max
+  ));
+  const { colors } = getColorClass(largest, colorBy);
+  const size = Math.round(Math.min(64, 36 + Math.log10(cluster.earthquakes.length) * 14));
+  const highlightClass = highlight ? `earthquake-marker-flash-${highlight}` : '';
+
+  return new DivIcon({
+    html: `
+      <div class="earthquake-cluster ${highlightClass}"
+           style="width: ${size}px; height: ${size}px; background: ${colors.bg};
+                  border-color: ${colors.glow}; box-shadow: 0 0 0 4px ${colors.glow}80, 0 4px 12px rgba(0,0,0,0.3);">
+        <span class="earthquake-cluster-count">${cluster.earthquakes.length}</span>
+        <span class="earthquake-cluster-magnitude" style="color: ${colors.border};">
+          M${formatMagnitude(cluster.maxMagnitude)}
+        </span>
+      </div>
+    `,
+    className: 'earthquake-cluster-marker',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+};
+
+const spiderCenterIcon = new DivIcon({
+  html: '<div class="earthquake-cluster-spider-center"></div>',
+  className: '',
+  iconSize: [10, 10],
+  iconAnchor: [5, 5]
+});
+
+/**
+ * Event markers grouped by screen distance at the current zoom. Clicking a
+ * cluster zooms to its events, or spreads them around it when zooming in
+ * wouldn't separate them (the same spot, or already at the deepest zoom).
+ */
+export const ClusterLayer: React.FC<ClusterLayerProps> = ({
+  earthquakes,
+  settings,
+  highlights,
+  colorBy = 'magnitude',
+  renderMarkers
+}) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  const [bounds, setBounds] = useState<LatLngBounds>(() => map.getBounds());
+  const [spiderfiedId, setSpiderfiedId] = useState<string | null>(null);
+
+  useMapEvents({
+    zoomend: () => {
+      setZoom(map.getZoom());
+      setSpiderfiedId(null);
+    },
+    moveend: () => setBounds(map.getBounds()),
+    click: () => setSpiderfiedId(null)
+  });
+
+  // Re-clustered on zoom only, panning just changes which groups are drawn
+  const { clusters, singles } = useMemo(
+    () => clusterEarthquakes(earthquakes, zoom, settings),
+    [earthquakes, zoom, settings]
+  );
+
+  const visibleBounds = bounds.pad(0.25);
+  const visibleClusters = clusters.filter(cluster => visibleBounds.contains([cluster.latitude, cluster.longitude]));
+  const spiderfied = clusters.find(cluster => cluster.id === spiderfiedId) ?? null;
+
+  // Spread out around the cluster center, in pixels at the current zoom
+  const spiderPositions = useMemo((): [number, number][] => {
+    if (!spiderfied) return [];
+    const center = map.project([spiderfied.latitude, spiderfied.longitude], zoom);
+    return getSpiderOffsets(spiderfied.earthquakes.length).map(([dx, dy]) => {
+      const position = map.unproject(center.add([dx, dy]), zoom);
+      return [position.lat, position.lng];
+    });
+  }, [map, spiderfied, zoom]);
+
+  // Unclustered, every event is kept so the list doesn't change on pan
+  const cullBounds = settings.enabled ? bounds : null;
+  const markers = useMemo((): PlacedEarthquake[] => {
+    const padded = cullBounds?.pad(0.25);
+    const visible = padded ? singles.filter(earthquake => padded.contains(toLatLng(earthquake))) : singles;
+    return [
+      ...visible.map(earthquake => ({ earthquake })),
+      ...(spiderfied?.earthquakes.map((earthquake, index) => ({ earthquake, position: spiderPositions[index] })) ?? [])
+    ];
+  }, [singles, cullBounds, spiderfied, spiderPositions]);
+
+  const handleClusterClick = (cluster: EarthquakeCluster) => {
+    const clusterBounds = new LatLngBounds(cluster.bounds);
+    if (map.getZoom() >= map.getMaxZoom() || map.getBoundsZoom(clusterBounds, false, new Point(40, 40)) <= map.getZoom()) {
+      setSpiderfiedId(cluster.id);
+    } else {
+      map.fitBounds(clusterBounds, { padding: [40, 40] });
+    }
+  };
+
+  return (
+    <>
+      {visibleClusters.filter(cluster => cluster.id !== spiderfiedId).map(cluster => (
+        <Marker
+          key={cluster.id}
+          position={[cluster.latitude, cluster.longitude]}
+          icon={createClusterIcon(cluster, colorBy, getClusterHighlight(cluster, highlights))}
+          eventHandlers={{ click: () => handleClusterClick(cluster) }}
+        >
+          <Tooltip direction="top" offset={[0, -16]}>
+            {cluster.earthquakes.length} events, largest M {formatMagnitude(cluster.maxMagnitude)}
+          </Tooltip>
+        </Marker>
+      ))}
+
+      {spiderfied && (
+        <>
+          <Marker
+            position={[spiderfied.latitude, spiderfied.longitude]}
+            icon={spiderCenterIcon}
+            eventHandlers={{ click: () => setSpiderfiedId(null) }}
+          />
+          {spiderPositions.map((position, index) => (
+            <Polyline
+              key={spiderfied.earthquakes[index].id}
+              positions={[[spiderfied.latitude, spiderfied.longitude], position]}
+              pathOptions={{ color: '#4b5563', weight: 1.5, opacity: 0.7 }}
+              interactive={false}
+            />
+          ))}
+        </>
+      )}
+
+      {renderMarkers(markers)}
+    </>
+  );
+};
@@ -0,0 +1,406 @@
+import React, { useRef, useState } from 'react';
+import { BrushSelection, CategoryCount, HistogramBin, NumericRange, ScatterPoint } from '../types/dashboard';
+import { getNiceStep, getNiceTicks, getTimeTicks } from '../utils/dashboardUtils';
+
+const WIDTH = 480;
+const HEIGHT = 220;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 44 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+// Drags shorter than this, in chart units, count as a click that clears
+const MIN_BRUSH_SIZE = 3;
+const MAX_CATEGORIES = 10;
+
+export interface AxisOptions {
+  label: string;
+  // Given the span of the axis, so time labels can pick their precision
+  format: (value: number, span: number) => string;
+  time?: boolean;
+  // Larger values drawn lower, as depth is
+  inverted?: boolean;
+}
+
+interface Axis extends Omit<AxisOptions, 'format'> {
+  domain: NumericRange;
+  ticks: number[];
+  format: (value: number) => string;
+}
+
+// Time axes span the data exactly; others are widened to round numbers
+const createAxis = (options: AxisOptions, min: number, max: number, padded: boolean): Axis => {
+  let domain: NumericRange = [min, max];
+  if (max <= min) {
+    domain = options.time ? [min - 1800000, max + 1800000] : [min - 1, max + 1];
+  } else if (padded && !options.time) {
+    const step = getNiceStep(max - min, 5);
+    domain = [Math.floor(min / step) * step, Math.ceil(max / step) * step];
+  }
+  const span = domain[1] - domain[0];
+  return {
+    ...options,
+    domain,
+    ticks: options.time ? getTimeTicks(domain[0], domain[1]) : getNiceTicks(domain[0], domain[1]),
+    format: value => options.format(value, span)
+  };
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const scaleX = (axis: Axis, value: number): number => {
+  const [min, max] = axis.domain;
+  return MARGIN.left + (max > min ? (clamp(value, min, max) - min) / (max - min) : 0.5) * PLOT_WIDTH;
+};
+
+const scaleY = (axis: Axis, value: number): number => {
+  const [min, max] = axis.domain;
+  const fraction = max > min ? (clamp(value, min, max) - min) / (max - min) : 0.5;
+  return MARGIN.top + (axis.inverted ? fraction : 1 - fraction) * PLOT_HEIGHT;
+};
+
+const invertX = (axis: Axis, x: number): number => {
+  const [min, max] = axis.domain;
+  return min + clamp((x - MARGIN.left) / PLOT_WIDTH, 0, 1) * (max - min);
+};
+
+const invertY = (axis: Axis, y: number): number => {
+  const [min, max] = axis.domain;
+  const fraction = clamp((y - MARGIN.top) / PLOT_HEIGHT, 0, 1);
+  return min + (axis.inverted ? fraction : 1 - fraction) * (max - min);
+};
+
+const getChartColors = (darkMode: boolean) => ({
+  axis: darkMode ? '#9ca3af' : '#6b7280',
+  grid: darkMode ? '#374151' : '#e5e7eb',
+  muted: darkMode ? '#4b5563' : '#d1d5db',
+  brush: darkMode ? 'rgba(96, 165, 250, 0.2)' : 'rgba(37, 99, 235, 0.12)'
+});
+
+interface DragState {
+  start: ScatterPoint; // chart units
+  end: ScatterPoint;
+}
+
+/**
+ * Pointer dragging on a chart, in chart (viewBox) units. Calls `onEnd`
+ * with the dragged rectangle, or null when the pointer barely moved.
+ */
+const useChartDrag = (onEnd: (drag: DragState | null) => void) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const toChartPoint = (e: React.PointerEvent): ScatterPoint => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return { x: 0, y: 0 };
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * HEIGHT
+    };
+  };
+
+  const handlers = {
+    onPointerDown: (e: React.PointerEvent<SVGRectElement>) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const point = toChartPoint(e);
+      setDrag({ start: point, end: point });
+    },
+    onPointerMove: (e: React.PointerEvent<SVGRectElement>) => {
+      if (drag) setDrag({ ...drag, end: toChartPoint(e) });
+    },
+    onPointerUp: () => {
+      if (!drag) return;
+      const moved = Math.abs(drag.end.x - drag.start.x) >= MIN_BRUSH_SIZE
+        || Math.abs(drag.end.y - drag.start.y) >= MIN_BRUSH_SIZE;
+      onEnd(moved ? drag : null);
+      setDrag(null);
+    },
+    onPointerCancel: () => setDrag(null)
+  };
+
+  return { svgRef, drag, handlers };
+};
+
+const ChartAxes: React.FC<{ x: Axis; y: Axis; darkMode: boolean }> = ({ x, y, darkMode }) => {
+  const colors = getChartColors(darkMode);
+  return (
+    <>
+      {y.ticks.map(tick => (
+        <g key={`y-${tick}`}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={scaleY(y, tick)} y2={scaleY(y, tick)} stroke={colors.grid} />
+          <text x={MARGIN.left - 6} y={scaleY(y, tick)} dy="0.32em" textAnchor="end" fontSize="10" fill={colors.axis}>
+            {y.format(tick)}
+          </text>
+        </g>
+      ))}
+      {x.ticks.map(tick => (
+        <text key={`x-${tick}`} x={scaleX(x, tick)} y={HEIGHT - MARGIN.bottom + 14} textAnchor="middle" fontSize="10" fill={colors.axis}>
+          {x.format(tick)}
+        </text>
+      ))}
+      <line
+        x1={MARGIN.left}
+        x2={WIDTH - MARGIN.right}
+        y1={HEIGHT - MARGIN.bottom}
+        y2={HEIGHT - MARGIN.bottom}
+        stroke={colors.axis}
+      />
+      <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="10" fill={colors.axis}>
+        {x.label}
+      </text>
+      <text
+        transform={`translate(10 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+        textAnchor="middle"
+        fontSize="10"
+        fill={colors.axis}
+      >
+        {y.label}
+      </text>
+    </>
+  );
+};
+
+interface HistogramChartProps {
+  bins: HistogramBin[];
+  // Range currently filtered on, drawn as the brush
+  selection: NumericRange | null;
+  onBrush: (range: NumericRange | null) => void;
+  x: AxisOptions;
+  yLabel: string;
+  color: string;
+  darkMode?: boolean;
+}
+
+/**
+ * Bar chart over equal-width bins. Dragging across it selects whole bins;
+ * bars outside the selection are greyed out, and a click clears it.
+ */
+export const HistogramChart: React.FC<HistogramChartProps> = ({
+  bins,
+  selection,
+  onBrush,
+  x,
+  yLabel,
+  color,
+  darkMode = false
+}) => {
+  const colors = getChartColors(darkMode);
+  const maxCount = Math.max(1, bins.reduce((max, bin) => Math.max(max, bin.count), 0));
+  const yStep = Math.max(1, getNiceStep(maxCount, 4));
+  const yMax = Math.ceil(maxCount / yStep) * yStep;
+  const xAxis = createAxis(x, bins[0]?.start ?? 0, bins[bins.length - 1]?.end ?? 1, false);
+  const yAxis: Axis = {
+    domain: [0, yMax],
+    ticks: getNiceTicks(0, yMax, 4),
+    format: value => value.toLocaleString(),
+    label: yLabel
+  };
+
+  // Snapped outwards to the bins under the ends of the drag
+  const toBinRange = (from: number, to: number): NumericRange => {
+    const low = invertX(xAxis, Math.min(from, to));
+    const high = invertX(xAxis, Math.max(from, to));
+    const first = bins.find(bin => bin.end > low) ?? bins[0];
+    const last = [...bins].reverse().find(bin => bin.start < high) ?? bins[bins.length - 1];
+    return [first.start, last.end];
+  };
+
+  const { svgRef, drag, handlers } = useChartDrag(result => {
+    onBrush(result ? toBinRange(result.start.x, result.end.x) : null);
+  });
+  const shown = drag ? toBinRange(drag.start.x, drag.end.x) : selection;
+  const isSelected = (bin: HistogramBin) => !shown || (bin.end > shown[0] && bin.start < shown[1]);
+
+  return (
+    <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto select-none touch-none">
+      <ChartAxes x={xAxis} y={yAxis} darkMode={darkMode} />
+      {shown && (
+        <rect
+          x={scaleX(xAxis, shown[0])}
+          y={MARGIN.top}
+          width={Math.max(0, scaleX(xAxis, shown[1]) - scaleX(xAxis, shown[0]))}
+          height={PLOT_HEIGHT}
+          fill={colors.brush}
+        />
+      )}
+      {bins.map(bin => bin.count > 0 && (
+        <rect
+          key={bin.start}
+          x={scaleX(xAxis, bin.start) + 0.5}
+          y={scaleY(yAxis, bin.count)}
+          width={Math.max(0.5, scaleX(xAxis, bin.end) - scaleX(xAxis, bin.start) - 1)}
+          height={HEIGHT - MARGIN.bottom - scaleY(yAxis, bin.count)}
+          fill={isSelected(bin) ? color : colors.muted}
+        >
+          <title>{xAxis.format(bin.start)} – {xAxis.format(bin.end)}: {bin.count.toLocaleString()}</title>
+        </rect>
+      ))}
+      <rect
+        x={MARGIN.left}
+        y={MARGIN.top}
+        width={PLOT_WIDTH}
+        height={PLOT_HEIGHT}
+        fill="transparent"
+        className="cursor-crosshair"
+        {...handlers}
+      />
+    </svg>
+  );
+};
+
+interface ScatterChartProps {
+  points: ScatterPoint[];
+  // Ranges currently filtered on along each axis
+  selection: { x: NumericRange | null; y: NumericRange | null };
+  onBrush: (selection: BrushSelection | null) => void;
+  x: AxisOptions;
+  y: AxisOptions;
+  color: string;
+  darkMode?: boolean;
+}
+
+// One path for all points, as thousands of circles are slow to render
+const getPointsPath = (points: ScatterPoint[], x: Axis, y: Axis): string => points
+  .map(point => `M${scaleX(x, point.x).toFixed(1)} ${scaleY(y, point.y).toFixed(1)}h0`)
+  .join('');
+
+/**
+ * Scatter plot where dragging a rectangle selects a range on both axes.
+ * Points outside the selection are greyed out; a click clears it.
+ */
+export const ScatterChart: React.FC<ScatterChartProps> = ({
+  points,
+  selection,
+  onBrush,
+  x: xOptions,
+  y: yOptions,
+  color,
+  darkMode = false
+}) => {
+  const colors = getChartColors(darkMode);
+  const getExtent = (values: number[]): NumericRange => [
+    values.reduce((min, value) => Math.min(min, value), Infinity),
+    values.reduce((max, value) => Math.max(max, value), -Infinity)
+  ];
+  const x = createAxis(xOptions, ...getExtent(points.map(point => point.x)), true);
+  const y = createAxis(yOptions, ...getExtent(points.map(point => point.y)), true);
+
+  const toSelection = (drag: DragState): BrushSelection => {
+    const [x0, x1] = [invertX(x, drag.start.x), invertX(x, drag.end.x)];
+    const [y0, y1] = [invertY(y, drag.start.y), invertY(y, drag.end.y)];
+    return {
+      x: [Math.min(x0, x1), Math.max(x0, x1)],
+      y: [Math.min(y0, y1), Math.max(y0, y1)]
+    };
+  };
+
+  const { svgRef, drag, handlers } = useChartDrag(result => onBrush(result ? toSelection(result) : null));
+  const shown = drag ? toSelection(drag) : selection;
+  const hasSelection = Boolean(shown.x || shown.y);
+  const inRange = (value: number, range: NumericRange | null) => !range || (value >= range[0] && value <= range[1]);
+
+  const selected: ScatterPoint[] = [];
+  const unselected: ScatterPoint[] = [];
+  points.forEach(point => {
+    if (inRange(point.x, shown.x) && inRange(point.y, shown.y)) {
+      selected.push(point);
+    } else {
+      unselected.push(point);
+    }
+  });
+
+  const brushX = shown.x ?? x.domain;
+  const brushY = shown.y ?? y.domain;
+  const top = Math.min(scaleY(y, brushY[0]), scaleY(y, brushY[1]));
+  const bottom = Math.max(scaleY(y, brushY[0]), scaleY(y, brushY[1]));
+
+  return (
+    <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto select-none touch-none">
+      <ChartAxes x={x} y={y} darkMode={darkMode} />
+      {hasSelection && (
+        <rect
+          x={scaleX(x, brushX[0])}
+          y={top}
+          width={Math.max(0, scaleX(x, brushX[1]) - scaleX(x, brushX[0]))}
+          height={bottom - top}
+          fill={colors.brush}
+        />
+      )}
+      <path d={getPointsPath(unselected, x, y)} stroke={colors.muted} strokeWidth={4} strokeLinecap="round" />
+      <path d={getPointsPath(selected, x, y)} stroke={color} strokeOpacity={0.7} strokeWidth={4} strokeLinecap="round" />
+      <rect
+        x={MARGIN.left}
+        y={MARGIN.top}
+        width={PLOT_WIDTH}
+        height={PLOT_HEIGHT}
+        fill="transparent"
+        className="cursor-crosshair"
+        {...handlers}
+      />
+    </svg>
+  );
+};
+
+interface BreakdownChartProps {
+  categories: CategoryCount[];
+  // Values currently filtered on
+  selected: string[];
+  onToggle: (value: string) => void;
+  color: string;
+  darkMode?: boolean;
+}
+
+// Horizontal bars for the largest categories; clicking one toggles it in the filter
+export const BreakdownChart: React.FC<BreakdownChartProps> = ({
+  categories,
+  selected,
+  onToggle,
+  color,
+  darkMode = false
+}) => {
+  const maxCount = categories[0]?.count ?? 1;
+  const shown = categories.slice(0, MAX_CATEGORIES);
+  const isSelected = (value: string) => selected.some(item => item.toLowerCase() === value);
+
+  return (
+    <div className="space-y-1">
+      {shown.map(({ value, count }) => {
+        const active = selected.length === 0 || isSelected(value);
+        return (
+          <button
+            key={value}
+            onClick={() => onToggle(value)}
+            aria-pressed={isSelected(value)}
+            className={`w-full flex items-center gap-2 text-left text-xs rounded px-1 py-0.5 transition-colors duration-200 ${
+              darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+            }`}
+          >
+            <span className={`w-14 flex-shrink-0 truncate font-medium ${
+              darkMode ? 'text-gray-200' : 'text-gray-700'
+            }`}>
+              {value}
+            </span>
+            <span className="flex-1 h-3">
+              <span
+                className="block h-full rounded-sm"
+                style={{
+                  width: `${Math.max(2, (count / maxCount) * 100)}%`,
+                  background: active ? color : getChartColors(darkMode).muted
+                }}
+              />
+            </span>
+            <span className={`w-12 flex-shrink-0 text-right tabular-nums ${
+              darkMode ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              {count.toLocaleString()}
+            </span>
+          </button>
+        );
+      })}
+      {categories.length > MAX_CATEGORIES && (
+        <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          and {categories.length - MAX_CATEGORIES} more
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,362 @@
+import React, { useState } from 'react';
+import { Radio, AlertTriangle, Merge, ArrowUp, Database } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  AssociationSettings,
+  DataSourceConfig,
+  DataSourceId,
+  SourceCounts,
+  SourceErrors,
+  SourceSyncTimes,
+  SourceValidation
+} from '../types/dataSource';
+import { FeedDescriptor } from '../types/feed';
+import { CacheSettings } from '../types/cache';
+import { DATA_SOURCE_ADAPTERS } from '../sources';
+import { formatDateTime } from '../utils/dateUtils';
+
+interface DataSourcePanelProps {
+  dataSources: DataSourceConfig[];
+  onDataSourceChange: (id: DataSourceId, changes: Partial<Omit<DataSourceConfig, 'id'>>) => void;
+  feed: FeedDescriptor;
+  sourceCounts: SourceCounts;
+  sourceErrors: SourceErrors;
+  // Failed sources still shown with their previous events
+  sourceStaleSince: SourceSyncTimes;
+  sourceValidation: SourceValidation;
+  association: AssociationSettings;
+  onAssociationChange: (changes: Partial<AssociationSettings>) => void;
+  cacheSettings: CacheSettings;
+  onCacheSettingsChange: (changes: Partial<CacheSettings>) => void;
+  cachedCount: number | null;
+  onClearCache: () => void;
+  darkMode?: boolean;
+}
+
+const TOLERANCE_FIELDS: { key: 'timeSeconds' | 'distanceKm' | 'magnitude'; label: string; step: number }[] = [
+  { key: 'timeSeconds', label: 'Time (s)', step: 1 },
+  { key: 'distanceKm', label: 'Distance (km)', step: 5 },
+  { key: 'magnitude', label: 'Magnitude', step: 0.1 }
+];
+
+const CACHE_FIELDS: { key: keyof CacheSettings; label: string; min: number; step: number }[] = [
+  { key: 'retentionDays', label: 'Keep events for (days)', min: 1, step: 1 },
+  { key: 'maxEvents', label: 'Max cached events', min: 100, step: 1000 }
+];
+
+// URL edits are applied on blur/Enter so typing doesn't refetch every keystroke
+const SourceUrlInput: React.FC<{
+  value: string;
+  placeholder: string;
+  onCommit: (url: string) => void;
+  darkMode: boolean;
+}> = ({ value, placeholder, onCommit, darkMode }) => {
+  const [draft, setDraft] = useState(value);
+
+  return (
+    <input
+      type="url"
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => draft !== value && onCommit(draft)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && draft !== value) onCommit(draft);
+      }}
+      className={`w-full px-3 py-2 text-xs font-mono rounded-lg border transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+        darkMode
+          ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-500'
+          : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+      }`}
+    />
+  );
+};
+
+export const DataSourcePanel: React.FC<DataSourcePanelProps> = ({
+  dataSources,
+  onDataSourceChange,
+  feed,
+  sourceCounts,
+  sourceErrors,
+  sourceStaleSince,
+  sourceValidation,
+  association,
+  onAssociationChange,
+  cacheSettings,
+  onCacheSettingsChange,
+  cachedCount,
+  onClearCache,
+  darkMode = false
+}) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const enabledCount = dataSources.filter(config => config.enabled).length;
+
+  const promoteAgency = (id: DataSourceId) => {
+    const index = association.agencyPriority.indexOf(id);
+    if (index <= 0) return;
+    const agencyPriority = [...association.agencyPriority];
+    [agencyPriority[index - 1], agencyPriority[index]] = [agencyPriority[index], agencyPriority[index - 1]];
+    onAssociationChange({ agencyPriority });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`rounded-xl shadow-lg p-6 border transition-all duration-300 ${
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-100'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Radio className={`w-4 h-4 ${
+            darkMode ? 'text-gray-400' : 'text-gray-500'
+          }`} />
+          <h3 className={`font-semibold ${
+            darkMode ? 'text-white' : 'text-gray-800'
+          }`}>
+            Data Sources
+          </h3>
+          <span className={`text-xs px-2 py-1 rounded-full ${
+            darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+          }`}>
+            {enabledCount} of {dataSources.length} enabled
+          </span>
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => setShowPanel(!showPanel)}
+          className={`px-4 py-2 text-sm rounded-lg border transition-all duration-200 ${
+            showPanel
+              ? 'bg-blue-100 border-blue-300 text-blue-700'
+              : darkMode
+                ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {showPanel ? 'Hide' : 'Configure'}
+        </motion.button>
+      </div>
+
+      <AnimatePresence>
+        {showPanel && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3, ease: "easeInOut" }}
+            className={`mt-4 border-t pt-4 space-y-4 ${
+              darkMode ? 'border-gray-700' : 'border-gray-200'
+            }`}
+          >
+            {dataSources.map(config => {
+              const adapter = DATA_SOURCE_ADAPTERS[config.id];
+              const count = sourceCounts[config.id];
+              const sourceError = sourceErrors[config.id];
+              const staleSince = sourceStaleSince[config.id];
+              const rejected = sourceValidation[config.id]?.rejected ?? 0;
+
+              return (
+                <div key={config.id} className="space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={config.enabled}
+                        onChange={(e) => onDataSourceChange(config.id, { enabled: e.target.checked })}
+                        className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className={`font-medium ${
+                        darkMode ? 'text-white' : 'text-gray-800'
+                      }`}>
+                        {adapter.name}
+                      </span>
+                      <span className={`text-xs ${
+                        darkMode ? 'text-gray-400' : 'text-gray-500'
+                      }`}>
+                        {adapter.agency} · {adapter.coverage}
+                      </span>
+                    </label>
+                    {config.enabled && count !== undefined && (
+                      <div className="flex items-center gap-2">
+                        {rejected > 0 && (
+                          <span className="text-xs px-2 py-1 rounded-full bg-yellow-100 text-yellow-700 font-medium">
+                            {rejected} dropped
+                          </span>
+                        )}
+                        <span className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-700 font-medium">
+                          {count} events
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                  <SourceUrlInput
+                    value={config.url}
+                    placeholder={adapter.getDefaultUrl(feed)}
+                    onCommit={(url) => onDataSourceChange(config.id, { url: url.trim() })}
+                    darkMode={darkMode}
+                  />
+                  {config.enabled && sourceError && (
+                    <div className="flex items-center gap-2 text-xs text-red-600">
+                      <AlertTriangle className="w-3 h-3" />
+                      {sourceError}
+                      {staleSince !== undefined && ` · showing events from ${formatDateTime(staleSince)}`}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            {enabledCount > 1 && (
+              <div className={`rounded-lg p-4 space-y-3 ${
+                darkMode ? 'bg-gray-700' : 'bg-gray-50'
+              }`}>
+                <div className="flex items-center gap-2">
+                  <Merge className="w-4 h-4 text-purple-500" />
+                  <h4 className={`text-sm font-semibold ${
+                    darkMode ? 'text-white' : 'text-gray-800'
+                  }`}>
+                    Event Association
+                  </h4>
+                </div>
+                <p className={`text-xs ${
+                  darkMode ? 'text-gray-400' : 'text-gray-500'
+                }`}>
+                  Solutions from different agencies within all three tolerances are merged into one preferred event.
+                </p>
+                <div className="grid grid-cols-3 gap-3">
+                  {TOLERANCE_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label htmlFor={`association-${field.key}`} className={`block text-xs font-medium mb-1 ${
+                        darkMode ? 'text-gray-300' : 'text-gray-600'
+                      }`}>
+                        {field.label}
+                      </label>
+                      <input
+                        id={`association-${field.key}`}
+                        type="number"
+                        min="0"
+                        step={field.step}
+                        value={association[field.key]}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (Number.isFinite(value) && value >= 0) {
+                            onAssociationChange({ [field.key]: value });
+                          }
+                        }}
+                        className={`w-full px-3 py-2 text-sm rounded-lg border focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                          darkMode
+                            ? 'bg-gray-800 border-gray-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-900'
+                        }`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <div className={`text-xs font-medium mb-1 ${
+                    darkMode ? 'text-gray-300' : 'text-gray-600'
+                  }`}>
+                    Preferred agency order (reviewed solutions always win)
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {association.agencyPriority.map((id, index) => (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() => promoteAgency(id)}
+                        disabled={index === 0}
+                        title={index === 0 ? 'Most preferred' : 'Move up'}
+                        className={`flex items-center gap-1 px-2 py-1 text-xs rounded-full border ${
+                          darkMode
+                            ? 'bg-gray-800 border-gray-600 text-gray-300'
+                            : 'bg-white border-gray-300 text-gray-700'
+                        }`}
+                      >
+                        {index + 1}. {DATA_SOURCE_ADAPTERS[id].name}
+                        {index > 0 && <ArrowUp className="w-3 h-3" />}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+            <div className={`rounded-lg p-4 space-y-3 ${
+              darkMode ? 'bg-gray-700' : 'bg-gray-50'
+            }`}>
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <Database className="w-4 h-4 text-blue-500" />
+                  <h4 className={`text-sm font-semibold ${
+                    darkMode ? 'text-white' : 'text-gray-800'
+                  }`}>
+                    Offline Cache
+                  </h4>
+                  {cachedCount !== null && (
+                    <span className={`text-xs ${
+                      darkMode ? 'text-gray-400' : 'text-gray-500'
+                    }`}>
+                      {cachedCount.toLocaleString()} events stored
+                    </span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={onClearCache}
+                  className={`px-2 py-1 text-xs rounded-lg border ${
+                    darkMode
+                      ? 'bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-600'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  Clear
+                </button>
+              </div>
+              <p className={`text-xs ${
+                darkMode ? 'text-gray-400' : 'text-gray-500'
+              }`}>
+                Every event seen is kept in the browser and shown straight away on the next visit or while offline. Older origin times are evicted first.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                {CACHE_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label htmlFor={`cache-${field.key}`} className={`block text-xs font-medium mb-1 ${
+                      darkMode ? 'text-gray-300' : 'text-gray-600'
+                    }`}>
+                      {field.label}
+                    </label>
+                    <input
+                      id={`cache-${field.key}`}
+                      type="number"
+                      min={field.min}
+                      step={field.step}
+                      value={cacheSettings[field.key]}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (Number.isFinite(value) && value >= field.min) {
+                          onCacheSettingsChange({ [field.key]: value });
+                        }
+                      }}
+                      className={`w-full px-3 py-2 text-sm rounded-lg border focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        darkMode
+                          ? 'bg-gray-800 border-gray-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-900'
+                      }`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <p className={`text-xs ${
+              darkMode ? 'text-gray-500' : 'text-gray-500'
+            }`}>
+              Leave a URL empty to use the agency's live feed. Custom URLs, such as recorded fixture files, are loaded as-is without narrowing to the selected feed window.
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
@@ -1,24 +1,36 @@
 import React from 'react';
-import { MapPin, Clock, Activity, Layers } from 'lucide-react';
+import { MapPin, Clock, Activity, Layers, Navigation } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { Earthquake } from '../types/earthquake';
+import { Earthquake, EarthquakeHighlight } from '../types/earthquake';
+import { ReferencePoint } from '../types/reference';
+import { SymbologySettings } from '../types/symbology';
 import { formatDate, formatTime, getTimeAgo } from '../utils/dateUtils';
-import { getMagnitudeColor, getMagnitudeLevel, formatCoordinates, formatDepth } from '../utils/earthquakeUtils';
+import { formatCoordinates, formatDepth, formatMagnitude } from '../utils/earthquakeUtils';
+import { COLOR_SCALES, DEFAULT_SYMBOLOGY, getColorClass } from '../utils/symbologyUtils';
+import { formatProximity, getProximity } from '../utils/proximityUtils';
 
 interface EarthquakeCardProps {
   earthquake: Earthquake;
   onClick: () => void;
   darkMode?: boolean;
+  highlight?: EarthquakeHighlight;
+  referencePoint?: ReferencePoint | null;
+  // Colours the magnitude badge like the event's map marker
+  symbology?: SymbologySettings;
 }
 
 export const EarthquakeCard: React.FC<EarthquakeCardProps> = ({ 
   earthquake, 
   onClick, 
-  darkMode = false 
+  darkMode = false,
+  highlight,
+  referencePoint = null,
+  symbology = DEFAULT_SYMBOLOGY
 }) => {
   const { properties, geometry } = earthquake;
   const [longitude, latitude, depth] = geometry.coordinates;
   const isRecent = Date.now() - properties.time < 3600000; // Less than 1 hour
+  const symbolClass = getColorClass(earthquake, symbology.color);
 
   return (
     <motion.div
@@ -31,26 +43,42 @@ export const EarthquakeCard: React.FC<EarthquakeCardProps> = ({
       }}
       whileTap={{ scale: 0.98 }}
       onClick={onClick}
-      className={`rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 cursor-pointer border transform ${
+      className={`relative rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 cursor-pointer border transform ${
         darkMode 
           ? 'bg-gray-800 border-gray-700 hover:border-gray-600' 
           : 'bg-white border-gray-100 hover:border-gray-200'
       }`}
     >
+      {/* Flash ring for events that just arrived or were revised */}
+      {highlight && (
+        <motion.div
+          key={`${highlight}-${properties.updated}`}
+          initial={{ opacity: 1 }}
+          animate={{ opacity: 0 }}
+          transition={{ duration: 4, ease: "easeIn" }}
+          className={`absolute inset-0 rounded-xl pointer-events-none ring-4 ${
+            highlight === 'new' ? 'ring-yellow-400' : 'ring-blue-400'
+          }`}
+        />
+      )}
+
       <div className="p-6">
         {/* Header with magnitude and time */}
         <div className="flex items-start justify-between mb-4">
           <div className="flex items-center gap-3">
             <motion.div 
               whileHover={{ scale: 1.1 }}
-              className={`px-3 py-1 rounded-full text-sm font-bold ${getMagnitudeColor(properties.mag)}`}
+              className={`px-3 py-1 rounded-full text-sm font-bold ${symbolClass.colors.badge}`}
             >
-              M {properties.mag?.toFixed(1) || 'N/A'}
+              M {formatMagnitude(properties.mag)}
             </motion.div>
-            <span className={`text-sm px-2 py-1 rounded ${
-              darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-500'
-            }`}>
-              {getMagnitudeLevel(properties.mag)}
+            <span
+              title={`${COLOR_SCALES[symbology.color].label}: ${symbolClass.range}`}
+              className={`text-sm px-2 py-1 rounded ${
+                darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-500'
+              }`}
+            >
+              {symbolClass.label}
             </span>
             {isRecent && (
               <motion.span
@@ -61,6 +89,16 @@ export const EarthquakeCard: React.FC<EarthquakeCardProps> = ({
                 NEW
               </motion.span>
             )}
+            {earthquake.solutions && earthquake.solutions.length > 1 && (
+              <span className="bg-purple-100 text-purple-700 px-2 py-1 rounded-full text-xs font-medium">
+                {earthquake.solutions.length} agencies
+              </span>
+            )}
+            {highlight === 'updated' && (
+              <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded-full text-xs font-medium">
+                REVISED
+              </span>
+            )}
           </div>
           <span className={`text-xs ${
             darkMode ? 'text-gray-400' : 'text-gray-400'
@@ -130,6 +168,14 @@ export const EarthquakeCard: React.FC<EarthquakeCardProps> = ({
             <Activity className="w-3 h-3" />
             {formatCoordinates(longitude, latitude)}
           </div>
+          {referencePoint && (
+            <div className={`flex items-center gap-2 text-xs mt-1 font-medium ${
+              darkMode ? 'text-blue-300' : 'text-blue-700'
+            }`}>
+              <Navigation className="w-3 h-3" />
+              {formatProximity(getProximity(earthquake, referencePoint), referencePoint)}
+            </div>
+          )}
         </div>
 
         {/* Tsunami warning */}
@@ -1,39 +1,97 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Circle, Tooltip, useMap, useMapEvents } from 'react-leaflet';
 import { DivIcon } from 'leaflet';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Earthquake } from '../types/earthquake';
+import { Earthquake, EarthquakeHighlight } from '../types/earthquake';
+import { RegionDrawMode, RegionShape, WatchRegion } from '../types/region';
+import { ReferencePoint } from '../types/reference';
+import { MapView } from '../types/urlState';
+import { ClusterSettings } from '../types/cluster';
+import { HeatmapSettings } from '../types/heatmap';
+import { OverlayId, OverlaySources } from '../types/overlay';
+import { BasemapSettings } from '../types/tiles';
+import { SymbolColors, SymbologySettings } from '../types/symbology';
+import { TimelapseSettings } from '../types/timelapse';
+import { BenchmarkConfig, FrameStats, PlacedEarthquake } from '../types/markers';
+import { RegionDrawer, RegionEditor, RegionShapes } from './RegionLayer';
+import { ClusterLayer } from './ClusterLayer';
+import { HeatmapLayer } from './HeatmapLayer';
+import { OverlayLayers } from './OverlayLayers';
+import { LayerControl } from './LayerControl';
+import { SymbologyLegend } from './SymbologyLegend';
+import { TimelapseControl } from './TimelapseControl';
+import { CanvasMarkerLayer } from './CanvasMarkerLayer';
+import { MarkerBenchmark } from './MarkerBenchmark';
 import { formatDateTime } from '../utils/dateUtils';
-import { getMagnitudeColor, getMagnitudeLevel, formatCoordinates, formatDepth } from '../utils/earthquakeUtils';
-import { Activity, MapPin, Clock, Layers, AlertTriangle, Zap } from 'lucide-react';
+import { DEFAULT_BASEMAP_SETTINGS, getTileLayer } from '../utils/tileUtils';
+import { formatProximity, getProximity } from '../utils/proximityUtils';
+import { DEFAULT_CLUSTER_SETTINGS, UNCLUSTERED_MAGNITUDE_OPTIONS } from '../utils/clusterUtils';
+import { getMarkerStyle, getSpriteExtent } from '../utils/markerStyleUtils';
+import { DEFAULT_HEATMAP_SETTINGS, HEAT_LEGEND_GRADIENT, HEATMAP_RADIUS_OPTIONS, HEATMAP_WEIGHTINGS } from '../utils/heatmapUtils';
+import { formatCoordinates, formatDepth, formatMagnitude, getMaxMagnitude } from '../utils/earthquakeUtils';
+import { DEFAULT_SYMBOLOGY, getColorClass } from '../utils/symbologyUtils';
+import { DEFAULT_TIMELAPSE_SETTINGS, getPlaybackFrame, getPlaybackRange, sortByOriginTime } from '../utils/timelapseUtils';
+import { Activity, MapPin, Clock, Layers, AlertTriangle, Zap, Navigation, Boxes, Flame } from 'lucide-react';
 import 'leaflet/dist/leaflet.css';
 
 interface EarthquakeMapProps {
   earthquakes: Earthquake[];
   onEarthquakeClick?: (earthquake: Earthquake) => void;
   darkMode?: boolean;
+  highlights?: Map<string, EarthquakeHighlight>;
+  // Map re-fits its bounds only when this key changes, so background
+  // refreshes don't move the camera
+  fitBoundsKey?: string;
+  regions?: WatchRegion[];
+  activeRegionIds?: string[];
+  drawMode?: RegionDrawMode | null;
+  onRegionDrawn?: (shape: RegionShape) => void;
+  onDrawCancel?: () => void;
+  editingRegionId?: string | null;
+  onRegionShapeChange?: (id: string, shape: RegionShape) => void;
+  referencePoint?: ReferencePoint | null;
+  // Radius filter around the reference point, drawn as a circle
+  maxDistanceKm?: number | null;
+  // Position to show instead of fitting the events, e.g. from a shared link
+  view?: MapView | null;
+  onViewChange?: (view: MapView) => void;
+  clusterSettings?: ClusterSettings;
+  onClusterSettingsChange?: (settings: ClusterSettings) => void;
+  heatmapSettings?: HeatmapSettings;
+  onHeatmapSettingsChange?: (settings: HeatmapSettings) => void;
+  basemapSettings?: BasemapSettings;
+  onBasemapSettingsChange?: (settings: BasemapSettings) => void;
+  // Bundled geological layers shown under the events
+  overlays?: OverlayId[];
+  overlaySources?: OverlaySources;
+  onOverlaysChange?: (overlays: OverlayId[]) => void;
+  // Marker colour and size encodings, shown in the map legend
+  symbology?: SymbologySettings;
+  onSymbologyChange?: (settings: SymbologySettings) => void;
+  // Speed and window of the time-lapse timeline under the map
+  timelapseSettings?: TimelapseSettings;
+  onTimelapseSettingsChange?: (settings: TimelapseSettings) => void;
+  // Synthetic-catalog run that measures frame times, see ?benchmark
+  benchmark?: BenchmarkConfig | null;
 }
 
 // Advanced custom marker with sophisticated animations
-const createAdvancedMagnitudeMarker = (magnitude: number, isRecent: boolean = false): DivIcon => {
-  const baseSize = Math.max(24, Math.min(60, magnitude * 8));
+const createAdvancedMagnitudeMarker = (
+  magnitude: number | null,
+  colors: SymbolColors,
+  isRecent: boolean = false,
+  highlight?: EarthquakeHighlight
+): DivIcon => {
+  const mag = magnitude ?? 0;
+  const baseSize = Math.max(24, Math.min(60, mag * 8));
   const pulseSize = baseSize + 8;
   
-  // Color mapping for different magnitude levels
-  const getMarkerColors = (mag: number) => {
-    if (mag >= 7) return { bg: '#dc2626', border: '#991b1b', glow: '#fca5a5' }; // Red
-    if (mag >= 5.5) return { bg: '#ea580c', border: '#c2410c', glow: '#fed7aa' }; // Orange
-    if (mag >= 4) return { bg: '#ca8a04', border: '#a16207', glow: '#fde047' }; // Yellow
-    if (mag >= 2.5) return { bg: '#2563eb', border: '#1d4ed8', glow: '#93c5fd' }; // Blue
-    return { bg: '#16a34a', border: '#15803d', glow: '#86efac' }; // Green
-  };
-
-  const colors = getMarkerColors(magnitude);
   const recentClass = isRecent ? 'animate-bounce' : '';
+  const highlightClass = highlight ? `earthquake-marker-flash-${highlight}` : '';
   
   return new DivIcon({
     html: `
-      <div class="earthquake-marker-container ${recentClass}" style="width: ${pulseSize}px; height: ${pulseSize}px;">
+      <div class="earthquake-marker-container ${recentClass} ${highlightClass}" style="width: ${pulseSize}px; height: ${pulseSize}px;">
         <!-- Outer pulse ring -->
         <div class="absolute inset-0 rounded-full animate-ping" 
              style="background: ${colors.glow}; opacity: 0.4;"></div>
@@ -48,12 +106,12 @@ const createAdvancedMagnitudeMarker = (magnitude: number, isRecent: boolean = fa
                     border: 2px solid ${colors.border};
                     box-shadow: 0 4px 12px rgba(0,0,0,0.3), 0 0 20px ${colors.glow}40;">
           <span style="font-size: ${Math.max(10, baseSize * 0.25)}px; text-shadow: 0 1px 2px rgba(0,0,0,0.5);">
-            ${magnitude.toFixed(1)}
+            ${formatMagnitude(magnitude)}
           </span>
         </div>
         
         <!-- Intensity indicator -->
-        <div class="absolute -top-1 -right-1 w-3 h-3 rounded-full ${magnitude >= 5 ? 'bg-red-500 animate-pulse' : 'bg-gray-400'}"
+        <div class="absolute -top-1 -right-1 w-3 h-3 rounded-full ${mag >= 5 ? 'bg-red-500 animate-pulse' : 'bg-gray-400'}"
              style="box-shadow: 0 0 6px rgba(0,0,0,0.3);"></div>
       </div>
     `,
@@ -64,12 +122,58 @@ const createAdvancedMagnitudeMarker = (magnitude: number, isRecent: boolean = fa
   });
 };
 
+const referenceIcon = new DivIcon({
+  html: '<div class="reference-marker"></div>',
+  className: '',
+  iconSize: [20, 20],
+  iconAnchor: [10, 10]
+});
+
+const roundCoordinate = (value: number): number => Math.round(value * 10000) / 10000;
+
+// Reports where the map is, and moves it when the view changes from outside
+// (e.g. Back and Forward), ignoring echoes of its own reports
+const MapViewSync: React.FC<{ view: MapView | null; onViewChange?: (view: MapView) => void }> = ({
+  view,
+  onViewChange
+}) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter().wrap();
+      onViewChange?.({
+        center: [roundCoordinate(center.lat), roundCoordinate(center.lng)],
+        zoom: map.getZoom()
+      });
+    }
+  });
+
+  useEffect(() => {
+    if (!view) return;
+    const center = map.getCenter().wrap();
+    const moved = Math.abs(center.lat - view.center[0]) > 0.001
+      || Math.abs(center.lng - view.center[1]) > 0.001;
+    if (moved || map.getZoom() !== view.zoom) {
+      map.setView(view.center, view.zoom);
+    }
+  }, [map, view]);
+
+  return null;
+};
+
 // Enhanced map bounds with smooth animation
-const AnimatedMapBounds: React.FC<{ earthquakes: Earthquake[] }> = ({ earthquakes }) => {
+const AnimatedMapBounds: React.FC<{ earthquakes: Earthquake[]; fitBoundsKey?: string; skipInitialFit: boolean }> = ({
+  earthquakes,
+  fitBoundsKey,
+  skipInitialFit
+}) => {
   const map = useMap();
+  const fittedKeyRef = useRef<string | null>(skipInitialFit ? fitBoundsKey ?? null : null);
   
   useEffect(() => {
+    if (fitBoundsKey !== undefined && fittedKeyRef.current === fitBoundsKey) return;
+
     if (earthquakes.length > 0) {
+      fittedKeyRef.current = fitBoundsKey ?? null;
       const bounds = earthquakes.map(eq => [
         eq.geometry.coordinates[1], // latitude
         eq.geometry.coordinates[0]  // longitude
@@ -82,7 +186,7 @@ const AnimatedMapBounds: React.FC<{ earthquakes: Earthquake[] }> = ({ earthquake
         duration: 1.5
       });
     }
-  }, [earthquakes, map]);
+  }, [earthquakes, fitBoundsKey, map]);
   
   return null;
 };
@@ -91,10 +195,13 @@ const AnimatedMapBounds: React.FC<{ earthquakes: Earthquake[] }> = ({ earthquake
 const AnimatedPopup: React.FC<{
   earthquake: Earthquake;
   onViewDetails: () => void;
-}> = ({ earthquake, onViewDetails }) => {
+  referencePoint: ReferencePoint | null;
+  symbology: SymbologySettings;
+}> = ({ earthquake, onViewDetails, referencePoint, symbology }) => {
   const { properties, geometry } = earthquake;
   const [longitude, latitude, depth] = geometry.coordinates;
-  const isHighMagnitude = properties.mag >= 5;
+  const symbolClass = getColorClass(earthquake, symbology.color);
+  const isHighMagnitude = (properties.mag ?? 0) >= 5;
   const isRecent = Date.now() - properties.time < 3600000; // Less than 1 hour
 
   return (
@@ -106,18 +213,15 @@ const AnimatedPopup: React.FC<{
       className="p-0 m-0"
     >
       <div className="bg-white rounded-lg shadow-xl border-0 overflow-hidden min-w-[280px]">
-        {/* Header with gradient */}
-        <div className={`p-3 bg-gradient-to-r ${
-          isHighMagnitude 
-            ? 'from-red-500 to-red-600' 
-            : properties.mag >= 3 
-              ? 'from-orange-500 to-orange-600'
-              : 'from-blue-500 to-blue-600'
-        } text-white`}>
+        {/* Header in the marker's colour */}
+        <div
+          className="p-3 text-white"
+          style={{ backgroundImage: `linear-gradient(to right, ${symbolClass.colors.bg}, ${symbolClass.colors.border})` }}
+        >
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <div className="bg-white bg-opacity-20 rounded-full px-2 py-1 text-sm font-bold">
-                M {properties.mag?.toFixed(1) || 'N/A'}
+                M {formatMagnitude(properties.mag)}
               </div>
               {isRecent && (
                 <div className="bg-yellow-400 text-yellow-900 px-2 py-1 rounded-full text-xs font-medium animate-pulse">
@@ -126,7 +230,7 @@ const AnimatedPopup: React.FC<{
               )}
             </div>
             <div className="text-xs opacity-90">
-              {getMagnitudeLevel(properties.mag)}
+              {symbolClass.label}
             </div>
           </div>
         </div>
@@ -166,6 +270,18 @@ const AnimatedPopup: React.FC<{
                 <div className="font-medium text-gray-800">{formatDepth(depth)}</div>
               </div>
             </div>
+
+            {referencePoint && (
+              <div className="flex items-center gap-2 p-2 bg-blue-50 rounded">
+                <Navigation className="w-3 h-3 text-blue-600" />
+                <div>
+                  <div className="text-gray-600">Distance</div>
+                  <div className="font-medium text-gray-800">
+                    {formatProximity(getProximity(earthquake, referencePoint), referencePoint)}
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
           
           {/* Warnings */}
@@ -204,11 +320,65 @@ const AnimatedPopup: React.FC<{
 export const EarthquakeMap: React.FC<EarthquakeMapProps> = ({ 
   earthquakes, 
   onEarthquakeClick,
-  darkMode = false
+  darkMode = false,
+  highlights,
+  fitBoundsKey,
+  regions = [],
+  activeRegionIds = [],
+  drawMode = null,
+  onRegionDrawn,
+  onDrawCancel,
+  editingRegionId = null,
+  onRegionShapeChange,
+  referencePoint = null,
+  maxDistanceKm = null,
+  view = null,
+  onViewChange,
+  clusterSettings = DEFAULT_CLUSTER_SETTINGS,
+  onClusterSettingsChange,
+  heatmapSettings = DEFAULT_HEATMAP_SETTINGS,
+  onHeatmapSettingsChange,
+  basemapSettings = DEFAULT_BASEMAP_SETTINGS,
+  onBasemapSettingsChange,
+  overlays = [],
+  overlaySources = {},
+  onOverlaysChange,
+  symbology = DEFAULT_SYMBOLOGY,
+  onSymbologyChange,
+  timelapseSettings = DEFAULT_TIMELAPSE_SETTINGS,
+  onTimelapseSettingsChange,
+  benchmark = null
 }) => {
   const mapRef = useRef<any>(null);
   const [selectedEarthquake, setSelectedEarthquake] = useState<string | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
+  const [hoveredMarker, setHoveredMarker] = useState<PlacedEarthquake | null>(null);
+  const [benchmarkStats, setBenchmarkStats] = useState<FrameStats | null>(null);
+  // Time-lapse position, or null to show every event
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const renderer = benchmark?.renderer ?? 'canvas';
+  // Benchmarks measure every marker, not the clusters
+  const layerClusterSettings = useMemo(
+    () => (benchmark ? { ...clusterSettings, enabled: false } : clusterSettings),
+    [benchmark, clusterSettings]
+  );
+  const tileLayer = getTileLayer(darkMode, basemapSettings);
+
+  const timelapseActive = playbackTime !== null;
+  const playbackRange = useMemo(() => getPlaybackRange(earthquakes), [earthquakes]);
+  const sortedEarthquakes = useMemo(() => (timelapseActive ? sortByOriginTime(earthquakes) : []), [earthquakes, timelapseActive]);
+  // Kept inside the loaded events when a refresh or new query changes them
+  const clampedPlaybackTime = playbackRange && playbackTime !== null
+    ? Math.min(playbackRange.end, Math.max(playbackRange.start, playbackTime))
+    : null;
+  const playbackFrame = useMemo(
+    () => (clampedPlaybackTime === null
+      ? null
+      : getPlaybackFrame(sortedEarthquakes, clampedPlaybackTime, timelapseSettings.windowMs)),
+    [sortedEarthquakes, clampedPlaybackTime, timelapseSettings.windowMs]
+  );
+  const mapEarthquakes = playbackFrame?.earthquakes ?? earthquakes;
+  const editingRegion = regions.find(region => region.id === editingRegionId) ?? null;
 
   // Determine recent earthquakes (within last hour)
   const getRecentEarthquakes = () => {
@@ -265,70 +435,304 @@ export const EarthquakeMap: React.FC<EarthquakeMapProps> = ({
         <div className="h-[500px] md:h-[600px] relative overflow-hidden">
           <MapContainer
             ref={mapRef}
-            center={[20, 0]}
-            zoom={2}
+            center={view?.center ?? [20, 0]}
+            zoom={view?.zoom ?? 2}
             style={{ height: '100%', width: '100%' }}
             className="z-0"
             whenReady={() => setMapLoaded(true)}
           >
             <TileLayer
-              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-              url={darkMode 
-                ? "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
-                : "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-              }
+              // Attribution and zoom limits only apply when the layer is created
+              key={tileLayer.url}
+              attribution={tileLayer.attribution}
+              url={tileLayer.url}
+              maxNativeZoom={tileLayer.maxNativeZoom}
             />
+
+            <OverlayLayers overlays={overlays} sources={overlaySources} />
+
+            <RegionShapes
+              regions={regions}
+              activeRegionIds={activeRegionIds}
+              hiddenRegionId={editingRegion?.id}
+            />
+            {editingRegion && onRegionShapeChange && (
+              <RegionEditor
+                region={editingRegion}
+                onChange={(shape) => onRegionShapeChange(editingRegion.id, shape)}
+              />
+            )}
+            {referencePoint && (
+              <>
+                <Marker
+                  position={[referencePoint.latitude, referencePoint.longitude]}
+                  icon={referenceIcon}
+                  zIndexOffset={1000}
+                >
+                  <Tooltip direction="top" offset={[0, -10]}>
+                    {referencePoint.source === 'geolocation' ? 'Your location' : referencePoint.label}
+                  </Tooltip>
+                </Marker>
+                {maxDistanceKm !== null && (
+                  <Circle
+                    center={[referencePoint.latitude, referencePoint.longitude]}
+                    radius={maxDistanceKm * 1000}
+                    pathOptions={{ color: '#2563eb', weight: 1, dashArray: '4 4', fillOpacity: 0.04 }}
+                    interactive={false}
+                  />
+                )}
+              </>
+            )}
+
+            {drawMode && onRegionDrawn && onDrawCancel && (
+              <RegionDrawer
+                key={drawMode}
+                mode={drawMode}
+                onComplete={onRegionDrawn}
+                onCancel={onDrawCancel}
+              />
+            )}
             
-            <AnimatedMapBounds earthquakes={earthquakes} />
+            <AnimatedMapBounds earthquakes={earthquakes} fitBoundsKey={fitBoundsKey} skipInitialFit={view !== null} />
+            <MapViewSync view={view} onViewChange={onViewChange} />
+
+            {heatmapSettings.enabled && <HeatmapLayer earthquakes={mapEarthquakes} settings={heatmapSettings} />}
             
-            <AnimatePresence>
-              {earthquakes.map((earthquake, index) => {
-                const [longitude, latitude, depth] = earthquake.geometry.coordinates;
-                const { properties } = earthquake;
-                const isRecent = Date.now() - properties.time < 3600000;
+            <ClusterLayer
+              earthquakes={mapEarthquakes}
+              settings={layerClusterSettings}
+              highlights={highlights}
+              colorBy={symbology.color}
+              renderMarkers={(markers) => renderer === 'canvas' ? (
+                <CanvasMarkerLayer
+                  markers={markers}
+                  highlights={highlights}
+                  symbology={symbology}
+                  opacities={playbackFrame?.opacities}
+                  onHover={setHoveredMarker}
+                  onClick={(earthquake) => {
+                    setSelectedEarthquake(earthquake.id);
+                    onEarthquakeClick?.(earthquake);
+                  }}
+                />
+              ) : (
+                <AnimatePresence>
+                  {markers.map(({ earthquake, position }, index) => {
+                    const [longitude, latitude, depth] = earthquake.geometry.coordinates;
+                    const { properties } = earthquake;
+                    const isRecent = Date.now() - properties.time < 3600000;
                 
-                return (
-                  <motion.div
-                    key={earthquake.id}
-                    initial={{ opacity: 0, scale: 0 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    exit={{ opacity: 0, scale: 0 }}
-                    transition={{ 
-                      duration: 0.5, 
-                      delay: Math.min(index * 0.05, 2),
-                      ease: "easeOut"
-                    }}
-                  >
-                    <Marker
-                      position={[latitude, longitude]}
-                      icon={createAdvancedMagnitudeMarker(properties.mag, isRecent)}
-                      eventHandlers={{
-                        click: () => {
-                          setSelectedEarthquake(earthquake.id);
-                          onEarthquakeClick?.(earthquake);
-                        },
-                        mouseover: (e) => {
-                          e.target.openPopup();
-                        }
-                      }}
-                    >
-                      <Popup 
-                        className="earthquake-popup-advanced" 
-                        maxWidth={320}
-                        closeButton={false}
-                        autoPan={true}
+                    return (
+                      <motion.div
+                        key={earthquake.id}
+                        initial={{ opacity: 0, scale: 0 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0 }}
+                        transition={{ 
+                          duration: 0.5, 
+                          delay: Math.min(index * 0.05, 2),
+                          ease: "easeOut"
+                        }}
                       >
-                        <AnimatedPopup
-                          earthquake={earthquake}
-                          onViewDetails={() => onEarthquakeClick?.(earthquake)}
-                        />
-                      </Popup>
-                    </Marker>
-                  </motion.div>
-                );
-              })}
-            </AnimatePresence>
+                        <Marker
+                          position={position ?? [latitude, longitude]}
+                          opacity={playbackFrame?.opacities.get(earthquake.id) ?? 1}
+                          icon={createAdvancedMagnitudeMarker(
+                            properties.mag,
+                            getColorClass(earthquake, symbology.color).colors,
+                            isRecent,
+                            highlights?.get(earthquake.id)
+                          )}
+                          eventHandlers={{
+                            click: () => {
+                              setSelectedEarthquake(earthquake.id);
+                              onEarthquakeClick?.(earthquake);
+                            },
+                            mouseover: (e) => {
+                              e.target.openPopup();
+                            }
+                          }}
+                        >
+                          <Popup 
+                            className="earthquake-popup-advanced" 
+                            maxWidth={320}
+                            closeButton={false}
+                            autoPan={true}
+                          >
+                            <AnimatedPopup
+                              earthquake={earthquake}
+                              onViewDetails={() => onEarthquakeClick?.(earthquake)}
+                              referencePoint={referencePoint}
+                              symbology={symbology}
+                            />
+                          </Popup>
+                        </Marker>
+                      </motion.div>
+                    );
+                  })}
+                </AnimatePresence>
+              )}
+            />
+
+            {/* Hover popup for canvas markers */}
+            {hoveredMarker && (
+              <Popup
+                key={hoveredMarker.earthquake.id}
+                position={hoveredMarker.position ?? [
+                  hoveredMarker.earthquake.geometry.coordinates[1],
+                  hoveredMarker.earthquake.geometry.coordinates[0]
+                ]}
+                offset={[0, 7 - getSpriteExtent(getMarkerStyle(hoveredMarker.earthquake, symbology))]}
+                className="earthquake-popup-advanced"
+                maxWidth={320}
+                closeButton={false}
+                autoPan={true}
+                eventHandlers={{
+                  remove: () => setHoveredMarker(current => (current === hoveredMarker ? null : current))
+                }}
+              >
+                <AnimatedPopup
+                  earthquake={hoveredMarker.earthquake}
+                  onViewDetails={() => onEarthquakeClick?.(hoveredMarker.earthquake)}
+                  referencePoint={referencePoint}
+                  symbology={symbology}
+                />
+              </Popup>
+            )}
+
+            {benchmark && <MarkerBenchmark onComplete={setBenchmarkStats} />}
           </MapContainer>
+
+          {/* Benchmark result */}
+          {benchmark && (
+            <div className="absolute bottom-3 left-3 z-[1000] px-3 py-2 rounded-lg bg-gray-900 bg-opacity-80 text-white text-xs shadow-lg font-mono">
+              <div className="font-semibold mb-1">
+                Benchmark: {earthquakes.length} events, {renderer} renderer
+              </div>
+              {benchmarkStats ? (
+                <>
+                  <div>frames {benchmarkStats.frames}, mean {benchmarkStats.meanMs.toFixed(1)} ms</div>
+                  <div>p95 {benchmarkStats.p95Ms.toFixed(1)} ms, max {benchmarkStats.maxMs.toFixed(1)} ms</div>
+                  <div>frames over 50 ms: {benchmarkStats.longFrames}</div>
+                </>
+              ) : (
+                <div>Running...</div>
+              )}
+            </div>
+          )}
+
+          {/* Marker legend */}
+          {!benchmark && (
+            <div className="absolute bottom-6 left-3 z-[1000]">
+              <SymbologyLegend settings={symbology} onChange={onSymbologyChange} />
+            </div>
+          )}
+
+          {/* Map layer controls */}
+          <div className="absolute top-3 right-3 z-[1000] flex flex-col items-end gap-2">
+            {(onBasemapSettingsChange || onOverlaysChange) && (
+              <LayerControl
+                basemapSettings={basemapSettings}
+                onBasemapSettingsChange={onBasemapSettingsChange}
+                overlays={overlays}
+                overlaySources={overlaySources}
+                onOverlaysChange={onOverlaysChange}
+              />
+            )}
+            {onClusterSettingsChange && !benchmark && (
+              <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white bg-opacity-90 shadow-lg text-xs text-gray-700">
+                <button
+                  onClick={() => onClusterSettingsChange({ ...clusterSettings, enabled: !clusterSettings.enabled })}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-md font-medium transition-colors duration-200 ${
+                    clusterSettings.enabled ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  title={clusterSettings.enabled ? 'Show every event' : 'Group nearby events'}
+                >
+                  <Boxes className="w-3 h-3" />
+                  Cluster
+                </button>
+                {clusterSettings.enabled && (
+                  <label className="flex items-center gap-1">
+                    Always show M≥
+                    <select
+                      value={clusterSettings.unclusteredMagnitude}
+                      onChange={(e) => onClusterSettingsChange({
+                        ...clusterSettings,
+                        unclusteredMagnitude: Number(e.target.value)
+                      })}
+                      className="px-1 py-0.5 rounded border border-gray-300 bg-white"
+                    >
+                      {UNCLUSTERED_MAGNITUDE_OPTIONS.map(magnitude => (
+                        <option key={magnitude} value={magnitude}>{magnitude}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+            )}
+            {onHeatmapSettingsChange && (
+              <div className="flex flex-wrap items-center justify-end gap-2 px-3 py-2 rounded-lg bg-white bg-opacity-90 shadow-lg text-xs text-gray-700">
+                <button
+                  onClick={() => onHeatmapSettingsChange({ ...heatmapSettings, enabled: !heatmapSettings.enabled })}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-md font-medium transition-colors duration-200 ${
+                    heatmapSettings.enabled ? 'bg-orange-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  title={heatmapSettings.enabled ? 'Hide the density layer' : 'Show where events concentrate'}
+                >
+                  <Flame className="w-3 h-3" />
+                  Density
+                </button>
+                {heatmapSettings.enabled && (
+                  <>
+                    <label className="flex items-center gap-1">
+                      Weight
+                      <select
+                        value={heatmapSettings.weighting}
+                        onChange={(e) => onHeatmapSettingsChange({
+                          ...heatmapSettings,
+                          weighting: e.target.value as HeatmapSettings['weighting']
+                        })}
+                        className="px-1 py-0.5 rounded border border-gray-300 bg-white"
+                      >
+                        {HEATMAP_WEIGHTINGS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-1">
+                      Radius
+                      <select
+                        value={heatmapSettings.radius}
+                        onChange={(e) => onHeatmapSettingsChange({
+                          ...heatmapSettings,
+                          radius: Number(e.target.value)
+                        })}
+                        className="px-1 py-0.5 rounded border border-gray-300 bg-white"
+                      >
+                        {HEATMAP_RADIUS_OPTIONS.map(radius => (
+                          <option key={radius} value={radius}>{radius} px</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="flex items-center gap-1" title="Relative to the densest area in view">
+                      Low
+                      <span className="w-16 h-2 rounded-full" style={{ background: HEAT_LEGEND_GRADIENT }} />
+                      High
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Drawing and editing instructions */}
+          {(drawMode || editingRegion) && (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] px-4 py-2 rounded-lg bg-gray-900 bg-opacity-80 text-white text-xs shadow-lg text-center">
+              {drawMode === 'polygon' && 'Click to add points. Double-click, press Enter or click the first point to finish. Esc cancels.'}
+              {drawMode === 'circle' && 'Click to place the center, then click again to set the radius. Esc cancels.'}
+              {!drawMode && editingRegion && `Editing ${editingRegion.name}: drag the handles${editingRegion.shape.type === 'polygon' ? ', click a vertex to remove it' : ''}.`}
+            </div>
+          )}
         </div>
 
         {/* Loading overlay */}
@@ -352,30 +756,42 @@ export const EarthquakeMap: React.FC<EarthquakeMapProps> = ({
         </AnimatePresence>
       </div>
 
+      {/* Time-lapse timeline */}
+      {playbackRange && !benchmark && (
+        <TimelapseControl
+          range={playbackRange}
+          time={clampedPlaybackTime}
+          onTimeChange={setPlaybackTime}
+          settings={timelapseSettings}
+          onSettingsChange={onTimelapseSettingsChange}
+          visibleCount={mapEarthquakes.length}
+        />
+      )}
+
       {/* Enhanced Footer Stats */}
       <div className="p-4 bg-gray-50 border-t border-gray-200">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
           <div className="p-2">
             <div className="text-lg font-bold text-red-600">
-              {earthquakes.filter(eq => eq.properties.mag >= 5).length}
+              {earthquakes.filter(eq => (eq.properties.mag ?? 0) >= 5).length}
             </div>
             <div className="text-xs text-gray-600">Major (5.0+)</div>
           </div>
           <div className="p-2">
             <div className="text-lg font-bold text-orange-600">
-              {earthquakes.filter(eq => eq.properties.mag >= 3 && eq.properties.mag < 5).length}
+              {earthquakes.filter(eq => eq.properties.mag !== null && eq.properties.mag >= 3 && eq.properties.mag < 5).length}
             </div>
             <div className="text-xs text-gray-600">Moderate (3.0-4.9)</div>
           </div>
           <div className="p-2">
             <div className="text-lg font-bold text-blue-600">
-              {earthquakes.filter(eq => eq.properties.mag < 3).length}
+              {earthquakes.filter(eq => eq.properties.mag !== null && eq.properties.mag < 3).length}
             </div>
             <div className="text-xs text-gray-600">Minor {"<3.0"}</div>
           </div>
           <div className="p-2">
             <div className="text-lg font-bold text-green-600">
-              {Math.max(...earthquakes.map(eq => eq.properties.mag || 0)).toFixed(1)}
+              {formatMagnitude(getMaxMagnitude(earthquakes))}
             </div>
             <div className="text-xs text-gray-600">Highest Mag</div>
           </div>
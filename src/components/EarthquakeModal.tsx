@@ -1,14 +1,23 @@
-import React from 'react';
-import { X, MapPin, Clock, Activity, Layers, Globe, AlertTriangle, Gauge, TrendingUp } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, MapPin, Clock, Activity, Layers, Globe, AlertTriangle, Gauge, TrendingUp, Merge, Navigation, Link, Check } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Earthquake } from '../types/earthquake';
+import { ReferencePoint } from '../types/reference';
+import { SymbologySettings } from '../types/symbology';
 import { formatDateTime } from '../utils/dateUtils';
-import { getMagnitudeColor, getMagnitudeLevel, formatCoordinates, formatDepth } from '../utils/earthquakeUtils';
+import { formatCoordinates, formatDepth, formatMagnitude } from '../utils/earthquakeUtils';
+import { COLOR_SCALES, DEFAULT_SYMBOLOGY, getColorClass } from '../utils/symbologyUtils';
+import { getDistanceKm } from '../utils/geoUtils';
+import { formatProximity, getProximity } from '../utils/proximityUtils';
+import { DATA_SOURCE_ADAPTERS, getEarthquakeSource } from '../sources';
 
 interface EarthquakeModalProps {
   earthquake: Earthquake | null;
   isOpen: boolean;
   onClose: () => void;
+  referencePoint?: ReferencePoint | null;
+  // Colours the magnitude badge like the event's map marker
+  symbology?: SymbologySettings;
   darkMode?: boolean;
 }
 
@@ -16,12 +25,24 @@ export const EarthquakeModal: React.FC<EarthquakeModalProps> = ({
   earthquake, 
   isOpen, 
   onClose,
+  referencePoint = null,
+  symbology = DEFAULT_SYMBOLOGY,
   darkMode = false 
 }) => {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
   if (!earthquake) return null;
 
-  const { properties, geometry } = earthquake;
+  const { properties, geometry, solutions } = earthquake;
   const [longitude, latitude, depth] = geometry.coordinates;
+  const symbolClass = getColorClass(earthquake, symbology.color);
+
+  // The address bar holds this event's deep link while it is open
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => setCopiedId(earthquake.id))
+      .catch(err => console.warn('Failed to copy link:', err));
+  };
 
   return (
     <AnimatePresence>
@@ -61,30 +82,50 @@ export const EarthquakeModal: React.FC<EarthquakeModalProps> = ({
                     <div className="flex items-center gap-3">
                       <motion.div 
                         whileHover={{ scale: 1.05 }}
-                        className={`px-3 py-1 rounded-full text-lg font-bold ${getMagnitudeColor(properties.mag)}`}
+                        className={`px-3 py-1 rounded-full text-lg font-bold ${symbolClass.colors.badge}`}
                       >
-                        M {properties.mag?.toFixed(1) || 'N/A'}
+                        M {formatMagnitude(properties.mag)}
                       </motion.div>
                       <div>
-                        <span className={`text-sm px-2 py-1 rounded ${
-                          darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-500'
-                        }`}>
-                          {getMagnitudeLevel(properties.mag)}
+                        <span
+                          title={`${COLOR_SCALES[symbology.color].label}: ${symbolClass.range}`}
+                          className={`text-sm px-2 py-1 rounded ${
+                            darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-500'
+                          }`}
+                        >
+                          {symbolClass.label}
                         </span>
                       </div>
                     </div>
-                    <motion.button
-                      whileHover={{ scale: 1.1, rotate: 90 }}
-                      whileTap={{ scale: 0.9 }}
-                      onClick={onClose}
-                      className={`p-2 rounded-full transition-colors ${
-                        darkMode 
-                          ? 'hover:bg-gray-700 text-gray-400 hover:text-white' 
-                          : 'hover:bg-gray-100 text-gray-500 hover:text-gray-700'
-                      }`}
-                    >
-                      <X className="w-5 h-5" />
-                    </motion.button>
+                    <div className="flex items-center gap-1">
+                      <motion.button
+                        whileHover={{ scale: 1.1 }}
+                        whileTap={{ scale: 0.9 }}
+                        onClick={copyLink}
+                        title="Copy a link to this event"
+                        className={`p-2 rounded-full transition-colors ${
+                          darkMode 
+                            ? 'hover:bg-gray-700 text-gray-400 hover:text-white' 
+                            : 'hover:bg-gray-100 text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {copiedId === earthquake.id
+                          ? <Check className="w-5 h-5 text-green-500" />
+                          : <Link className="w-5 h-5" />}
+                      </motion.button>
+                      <motion.button
+                        whileHover={{ scale: 1.1, rotate: 90 }}
+                        whileTap={{ scale: 0.9 }}
+                        onClick={onClose}
+                        className={`p-2 rounded-full transition-colors ${
+                          darkMode 
+                            ? 'hover:bg-gray-700 text-gray-400 hover:text-white' 
+                            : 'hover:bg-gray-100 text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        <X className="w-5 h-5" />
+                      </motion.button>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -108,6 +149,14 @@ export const EarthquakeModal: React.FC<EarthquakeModalProps> = ({
                       {properties.place || 'Unknown Location'}
                     </h2>
                   </div>
+                  {referencePoint && (
+                    <div className={`flex items-center gap-3 text-sm ${
+                      darkMode ? 'text-blue-300' : 'text-blue-700'
+                    }`}>
+                      <Navigation className="w-5 h-5 flex-shrink-0" />
+                      {formatProximity(getProximity(earthquake, referencePoint), referencePoint)}
+                    </div>
+                  )}
                 </motion.div>
 
                 {/* Key Information Grid */}
@@ -328,6 +377,80 @@ export const EarthquakeModal: React.FC<EarthquakeModalProps> = ({
                   </div>
                 </motion.div>
 
+                {/* Per-agency solution comparison */}
+                {solutions && solutions.length > 1 && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.75 }}
+                    className={`mt-4 rounded-lg p-4 ${
+                      darkMode ? 'bg-gray-700' : 'bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 mb-3">
+                      <Merge className="w-5 h-5 text-purple-500" />
+                      <h3 className={`font-semibold ${
+                        darkMode ? 'text-white' : 'text-gray-800'
+                      }`}>
+                        Agency Solutions
+                      </h3>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className={`w-full text-xs ${
+                        darkMode ? 'text-gray-300' : 'text-gray-700'
+                      }`}>
+                        <thead>
+                          <tr className={`text-left ${
+                            darkMode ? 'text-gray-400' : 'text-gray-500'
+                          }`}>
+                            <th className="py-1 pr-3 font-medium">Agency</th>
+                            <th className="py-1 pr-3 font-medium">Origin time</th>
+                            <th className="py-1 pr-3 font-medium">Δt</th>
+                            <th className="py-1 pr-3 font-medium">Location</th>
+                            <th className="py-1 pr-3 font-medium">Δ</th>
+                            <th className="py-1 pr-3 font-medium">Depth</th>
+                            <th className="py-1 pr-3 font-medium">Mag</th>
+                            <th className="py-1 font-medium">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {solutions.map(solution => {
+                            const [solutionLon, solutionLat, solutionDepth] = solution.geometry.coordinates;
+                            const isPreferred = solution.id === earthquake.id;
+                            const offsetSeconds = (solution.properties.time - properties.time) / 1000;
+                            const offsetKm = getDistanceKm(latitude, longitude, solutionLat, solutionLon);
+
+                            return (
+                              <tr
+                                key={solution.id}
+                                className={`border-t ${
+                                  darkMode ? 'border-gray-600' : 'border-gray-200'
+                                } ${isPreferred ? 'font-semibold' : ''}`}
+                              >
+                                <td className="py-1 pr-3 whitespace-nowrap">
+                                  {DATA_SOURCE_ADAPTERS[getEarthquakeSource(solution)].name}
+                                  {isPreferred && ' ★'}
+                                </td>
+                                <td className="py-1 pr-3 whitespace-nowrap">{formatDateTime(solution.properties.time)}</td>
+                                <td className="py-1 pr-3 whitespace-nowrap">
+                                  {offsetSeconds >= 0 ? '+' : ''}{offsetSeconds.toFixed(1)}s
+                                </td>
+                                <td className="py-1 pr-3 whitespace-nowrap">{formatCoordinates(solutionLon, solutionLat)}</td>
+                                <td className="py-1 pr-3 whitespace-nowrap">{offsetKm.toFixed(1)} km</td>
+                                <td className="py-1 pr-3 whitespace-nowrap">{formatDepth(solutionDepth)}</td>
+                                <td className="py-1 pr-3 whitespace-nowrap">
+                                  {formatMagnitude(solution.properties.mag)} {solution.properties.magType}
+                                </td>
+                                <td className="py-1 capitalize">{solution.properties.status}</td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </motion.div>
+                )}
+
                 {/* USGS Link */}
                 {properties.url && (
                   <motion.div
@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronUp, Columns3, GripVertical, RotateCcw } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Earthquake } from '../types/earthquake';
+import { TableColumnId, TableLayout } from '../types/table';
+import { DEFAULT_TABLE_LAYOUT, moveColumn, sortEarthquakes, TABLE_COLUMNS, toggleSort } from '../utils/tableUtils';
+import { getMagnitudeClass } from '../utils/symbologyUtils';
+
+interface EarthquakeTableProps {
+  earthquakes: Earthquake[];
+  onSelect: (earthquake: Earthquake) => void;
+  layout: TableLayout;
+  onLayoutChange: (layout: TableLayout) => void;
+  darkMode?: boolean;
+}
+
+const ROW_HEIGHT = 40; // px, every row is one line
+// Rows rendered beyond each edge of the window
+const OVERSCAN_ROWS = 20;
+
+/**
+ * Dense, sortable event table. Only the rows in and near the window are
+ * rendered, with spacer rows standing in for the rest. Shift-click on a
+ * header adds it as a further sort key; headers can be dragged to reorder.
+ */
+export const EarthquakeTable: React.FC<EarthquakeTableProps> = ({
+  earthquakes,
+  onSelect,
+  layout,
+  onLayoutChange,
+  darkMode = false
+}) => {
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const [range, setRange] = useState({ start: 0, end: OVERSCAN_ROWS * 2 });
+  const [showColumns, setShowColumns] = useState(false);
+  const [draggedColumn, setDraggedColumn] = useState<TableColumnId | null>(null);
+
+  const rows = useMemo(() => sortEarthquakes(earthquakes, layout.sort), [earthquakes, layout.sort]);
+  const columns = layout.order
+    .filter(id => !layout.hidden.includes(id))
+    .map(id => TABLE_COLUMNS[id]);
+
+  useEffect(() => {
+    let frame: number | null = null;
+    const update = () => {
+      frame = null;
+      if (!bodyRef.current) return;
+      const top = -bodyRef.current.getBoundingClientRect().top;
+      const start = Math.max(0, Math.floor(top / ROW_HEIGHT) - OVERSCAN_ROWS);
+      const end = Math.ceil((top + window.innerHeight) / ROW_HEIGHT) + OVERSCAN_ROWS;
+      setRange(current => (current.start === start && current.end === end ? current : { start, end }));
+    };
+    const scheduleUpdate = () => {
+      if (frame === null) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+    };
+  }, []);
+
+  const start = Math.min(range.start, rows.length);
+  const end = Math.min(range.end, rows.length);
+
+  const updateLayout = (changes: Partial<TableLayout>) => onLayoutChange({ ...layout, ...changes });
+
+  const toggleColumn = (id: TableColumnId) => {
+    updateLayout({
+      hidden: layout.hidden.includes(id)
+        ? layout.hidden.filter(hidden => hidden !== id)
+        : [...layout.hidden, id]
+    });
+  };
+
+  const handleDrop = (target: TableColumnId) => {
+    if (draggedColumn && draggedColumn !== target) {
+      const offset = layout.order.indexOf(target) - layout.order.indexOf(draggedColumn);
+      updateLayout({ order: moveColumn(layout.order, draggedColumn, offset) });
+    }
+    setDraggedColumn(null);
+  };
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const iconButtonClassName = `p-1 rounded transition-colors duration-200 disabled:opacity-30 ${
+    darkMode ? 'hover:bg-gray-600' : 'hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className={`rounded-2xl shadow-lg border ${
+      darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      {/* Toolbar */}
+      <div className={`relative flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b ${
+        darkMode ? 'border-gray-700' : 'border-gray-200'
+      }`}>
+        <div className={`text-sm ${mutedText}`}>
+          <span className={`font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>{rows.length}</span> events
+          {layout.sort.length > 0 && (
+            <>
+              {' '}sorted by{' '}
+              {layout.sort.map(({ column, direction }) => `${TABLE_COLUMNS[column].label} ${direction === 'asc' ? '↑' : '↓'}`).join(', ')}
+            </>
+          )}
+          <span className="hidden md:inline"> · shift-click a header to add a sort key</span>
+        </div>
+        <button
+          onClick={() => setShowColumns(!showColumns)}
+          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors duration-200 ${
+            showColumns
+              ? 'bg-blue-600 text-white'
+              : darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          <Columns3 className="w-4 h-4" />
+          Columns
+        </button>
+
+        {/* Column chooser */}
+        <AnimatePresence>
+          {showColumns && (
+            <motion.div
+              initial={{ opacity: 0, y: -4 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -4 }}
+              transition={{ duration: 0.15 }}
+              className={`absolute right-4 top-full mt-2 z-20 w-72 rounded-lg border shadow-xl p-2 ${
+                darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'
+              }`}
+            >
+              <ul>
+                {layout.order.map((id, index) => {
+                  const visible = !layout.hidden.includes(id);
+                  return (
+                    <li key={id} className="flex items-center gap-2 px-2 py-1 text-sm">
+                      <label className={`flex flex-1 items-center gap-2 cursor-pointer ${
+                        darkMode ? 'text-gray-200' : 'text-gray-700'
+                      }`} title={TABLE_COLUMNS[id].description}>
+                        <input
+                          type="checkbox"
+                          checked={visible}
+                          // At least one column stays visible
+                          disabled={visible && columns.length === 1}
+                          onChange={() => toggleColumn(id)}
+                        />
+                        {TABLE_COLUMNS[id].label}
+                      </label>
+                      <button
+                        onClick={() => updateLayout({ order: moveColumn(layout.order, id, -1) })}
+                        disabled={index === 0}
+                        className={iconButtonClassName}
+                        aria-label={`Move ${TABLE_COLUMNS[id].label} up`}
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => updateLayout({ order: moveColumn(layout.order, id, 1) })}
+                        disabled={index === layout.order.length - 1}
+                        className={iconButtonClassName}
+                        aria-label={`Move ${TABLE_COLUMNS[id].label} down`}
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              <button
+                onClick={() => onLayoutChange(DEFAULT_TABLE_LAYOUT)}
+                className={`flex items-center gap-2 w-full mt-1 px-2 py-1.5 rounded text-sm ${
+                  darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <RotateCcw className="w-4 h-4" />
+                Reset layout
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className={darkMode ? 'bg-gray-900' : 'bg-gray-50'}>
+            <tr>
+              {columns.map(column => {
+                const sortIndex = layout.sort.findIndex(sort => sort.column === column.id);
+                const sort = layout.sort[sortIndex];
+                return (
+                  <th
+                    key={column.id}
+                    scope="col"
+                    draggable
+                    onDragStart={() => setDraggedColumn(column.id)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleDrop(column.id)}
+                    onDragEnd={() => setDraggedColumn(null)}
+                    aria-sort={sort ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                    className={`px-3 py-2 font-semibold whitespace-nowrap select-none ${
+                      column.align === 'right' ? 'text-right' : 'text-left'
+                    } ${draggedColumn === column.id ? 'opacity-50' : ''} ${
+                      darkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}
+                  >
+                    <button
+                      onClick={(e) => updateLayout({ sort: toggleSort(layout.sort, column.id, e.shiftKey) })}
+                      title={`${column.description}. Click to sort, shift-click to add to the sort.`}
+                      className={`inline-flex items-center gap-1 ${column.align === 'right' ? 'flex-row-reverse' : ''}`}
+                    >
+                      <GripVertical className={`w-3 h-3 cursor-move ${mutedText}`} />
+                      {column.label}
+                      {sort && (
+                        <span className="inline-flex items-center text-blue-500">
+                          {sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+                          {layout.sort.length > 1 && <span className="text-[10px]">{sortIndex + 1}</span>}
+                        </span>
+                      )}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody ref={bodyRef}>
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} aria-hidden="true" />}
+            {rows.slice(start, end).map(earthquake => (
+              <tr
+                key={earthquake.id}
+                tabIndex={0}
+                onClick={() => onSelect(earthquake)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onSelect(earthquake);
+                  }
+                }}
+                style={{ height: ROW_HEIGHT }}
+                className={`border-t cursor-pointer transition-colors duration-150 focus:outline-none ${
+                  darkMode
+                    ? 'border-gray-700 text-gray-200 hover:bg-gray-700 focus:bg-gray-700'
+                    : 'border-gray-100 text-gray-800 hover:bg-blue-50 focus:bg-blue-50'
+                }`}
+              >
+                {columns.map(column => (
+                  <td
+                    key={column.id}
+                    className={`px-3 whitespace-nowrap ${column.align === 'right' ? 'text-right tabular-nums' : 'text-left'} ${
+                      column.id === 'place' ? 'max-w-xs truncate' : ''
+                    }`}
+                    title={column.id === 'place' ? column.format(earthquake) : undefined}
+                  >
+                    {column.id === 'mag' ? (
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${getMagnitudeClass(earthquake.properties.mag).colors.badge}`}>
+                        {column.format(earthquake)}
+                      </span>
+                    ) : (
+                      column.format(earthquake)
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {end < rows.length && <tr style={{ height: (rows.length - end) * ROW_HEIGHT }} aria-hidden="true" />}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
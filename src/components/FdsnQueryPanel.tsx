@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { Database, Play, X, Square } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FdsnArea, FdsnOrderBy, FdsnQuery } from '../types/fdsn';
+import { toDateTimeLocal } from '../utils/dateUtils';
+
+interface FdsnQueryPanelProps {
+  onRunQuery: (query: FdsnQuery) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  loading: boolean;
+  error: string | null;
+  progress: number;
+  resultCount: number | null;
+  darkMode?: boolean;
+}
+
+type AreaMode = 'none' | 'box' | 'radius';
+
+interface QueryForm {
+  startTime: string;
+  endTime: string;
+  minMagnitude: string;
+  maxMagnitude: string;
+  minDepth: string;
+  maxDepth: string;
+  areaMode: AreaMode;
+  minLatitude: string;
+  maxLatitude: string;
+  minLongitude: string;
+  maxLongitude: string;
+  latitude: string;
+  longitude: string;
+  maxRadiusKm: string;
+  orderBy: FdsnOrderBy;
+}
+
+const ORDER_BY_OPTIONS: { value: FdsnOrderBy; label: string }[] = [
+  { value: 'time', label: 'Newest first' },
+  { value: 'time-asc', label: 'Oldest first' },
+  { value: 'magnitude', label: 'Largest first' },
+  { value: 'magnitude-asc', label: 'Smallest first' }
+];
+
+const createInitialForm = (): QueryForm => ({
+  startTime: toDateTimeLocal(new Date(Date.now() - 30 * 24 * 3600000)),
+  endTime: toDateTimeLocal(new Date()),
+  minMagnitude: '4',
+  maxMagnitude: '',
+  minDepth: '',
+  maxDepth: '',
+  areaMode: 'none',
+  minLatitude: '',
+  maxLatitude: '',
+  minLongitude: '',
+  maxLongitude: '',
+  latitude: '',
+  longitude: '',
+  maxRadiusKm: '',
+  orderBy: 'time'
+});
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const buildQuery = (form: QueryForm): { query?: FdsnQuery; error?: string } => {
+  const start = form.startTime ? new Date(form.startTime) : null;
+  const end = form.endTime ? new Date(form.endTime) : null;
+
+  if (start && end && start >= end) {
+    return { error: 'Start time must be before end time' };
+  }
+
+  let area: FdsnArea | undefined;
+  if (form.areaMode === 'box') {
+    const minLatitude = parseOptionalNumber(form.minLatitude);
+    const maxLatitude = parseOptionalNumber(form.maxLatitude);
+    const minLongitude = parseOptionalNumber(form.minLongitude);
+    const maxLongitude = parseOptionalNumber(form.maxLongitude);
+    if (minLatitude === undefined || maxLatitude === undefined || minLongitude === undefined || maxLongitude === undefined) {
+      return { error: 'Bounding box needs all four edges' };
+    }
+    area = { type: 'box', minLatitude, maxLatitude, minLongitude, maxLongitude };
+  } else if (form.areaMode === 'radius') {
+    const latitude = parseOptionalNumber(form.latitude);
+    const longitude = parseOptionalNumber(form.longitude);
+    const maxRadiusKm = parseOptionalNumber(form.maxRadiusKm);
+    if (latitude === undefined || longitude === undefined || maxRadiusKm === undefined) {
+      return { error: 'Radius search needs a center and a radius' };
+    }
+    area = { type: 'radius', latitude, longitude, maxRadiusKm };
+  }
+
+  return {
+    query: {
+      startTime: start?.toISOString(),
+      endTime: end?.toISOString(),
+      minMagnitude: parseOptionalNumber(form.minMagnitude),
+      maxMagnitude: parseOptionalNumber(form.maxMagnitude),
+      minDepth: parseOptionalNumber(form.minDepth),
+      maxDepth: parseOptionalNumber(form.maxDepth),
+      area,
+      orderBy: form.orderBy
+    }
+  };
+};
+
+export const FdsnQueryPanel: React.FC<FdsnQueryPanelProps> = ({
+  onRunQuery,
+  onCancel,
+  onClear,
+  loading,
+  error,
+  progress,
+  resultCount,
+  darkMode = false
+}) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const [form, setForm] = useState<QueryForm>(createInitialForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateForm = (changes: Partial<QueryForm>) => {
+    setForm(current => ({ ...current, ...changes }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { query, error: validationError } = buildQuery(form);
+    setFormError(validationError ?? null);
+    if (query) {
+      onRunQuery(query);
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 text-sm rounded-lg border transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    darkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    darkMode ? 'text-gray-300' : 'text-gray-600'
+  }`;
+
+  const renderNumberInput = (field: keyof QueryForm, label: string, placeholder?: string) => (
+    <div>
+      <label htmlFor={`fdsn-${field}`} className={labelClassName}>
+        {label}
+      </label>
+      <input
+        id={`fdsn-${field}`}
+        type="number"
+        step="any"
+        placeholder={placeholder}
+        value={form[field]}
+        onChange={(e) => updateForm({ [field]: e.target.value })}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`rounded-xl shadow-lg p-6 border transition-all duration-300 ${
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-100'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Database className={`w-4 h-4 ${
+            darkMode ? 'text-gray-400' : 'text-gray-500'
+          }`} />
+          <h3 className={`font-semibold ${
+            darkMode ? 'text-white' : 'text-gray-800'
+          }`}>
+            Historical Query
+          </h3>
+          {resultCount !== null && (
+            <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">
+              Showing {resultCount} results
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {resultCount !== null && (
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={onClear}
+              className={`px-3 py-2 text-sm rounded-lg border flex items-center gap-1 ${
+                darkMode
+                  ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                  : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <X className="w-4 h-4" />
+              Back to live feed
+            </motion.button>
+          )}
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => setShowPanel(!showPanel)}
+            className={`px-4 py-2 text-sm rounded-lg border transition-all duration-200 ${
+              showPanel
+                ? 'bg-blue-100 border-blue-300 text-blue-700'
+                : darkMode
+                  ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                  : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {showPanel ? 'Hide' : 'Build query'}
+          </motion.button>
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {showPanel && (
+          <motion.form
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3, ease: "easeInOut" }}
+            onSubmit={handleSubmit}
+            className={`mt-4 border-t pt-4 space-y-4 ${
+              darkMode ? 'border-gray-700' : 'border-gray-200'
+            }`}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="fdsn-startTime" className={labelClassName}>Start time</label>
+                <input
+                  id="fdsn-startTime"
+                  type="datetime-local"
+                  value={form.startTime}
+                  onChange={(e) => updateForm({ startTime: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="fdsn-endTime" className={labelClassName}>End time</label>
+                <input
+                  id="fdsn-endTime"
+                  type="datetime-local"
+                  value={form.endTime}
+                  onChange={(e) => updateForm({ endTime: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {renderNumberInput('minMagnitude', 'Min magnitude')}
+              {renderNumberInput('maxMagnitude', 'Max magnitude')}
+              {renderNumberInput('minDepth', 'Min depth (km)')}
+              {renderNumberInput('maxDepth', 'Max depth (km)')}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="fdsn-areaMode" className={labelClassName}>Area</label>
+                <select
+                  id="fdsn-areaMode"
+                  value={form.areaMode}
+                  onChange={(e) => updateForm({ areaMode: e.target.value as AreaMode })}
+                  className={inputClassName}
+                >
+                  <option value="none">Worldwide</option>
+                  <option value="box">Bounding box</option>
+                  <option value="radius">Radius around point</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="fdsn-orderBy" className={labelClassName}>Order by</label>
+                <select
+                  id="fdsn-orderBy"
+                  value={form.orderBy}
+                  onChange={(e) => updateForm({ orderBy: e.target.value as FdsnOrderBy })}
+                  className={inputClassName}
+                >
+                  {ORDER_BY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {form.areaMode === 'box' && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {renderNumberInput('minLatitude', 'Min latitude', '-90')}
+                {renderNumberInput('maxLatitude', 'Max latitude', '90')}
+                {renderNumberInput('minLongitude', 'Min longitude', '-180')}
+                {renderNumberInput('maxLongitude', 'Max longitude', '180')}
+              </div>
+            )}
+
+            {form.areaMode === 'radius' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {renderNumberInput('latitude', 'Latitude')}
+                {renderNumberInput('longitude', 'Longitude')}
+                {renderNumberInput('maxRadiusKm', 'Radius (km)')}
+              </div>
+            )}
+
+            {(formError || error) && (
+              <p className="text-sm text-red-600">{formError ?? error}</p>
+            )}
+
+            <div className="flex items-center gap-3">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                type="submit"
+                disabled={loading}
+                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg"
+              >
+                <Play className="w-4 h-4" />
+                Run query
+              </motion.button>
+              {loading && (
+                <>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    type="button"
+                    onClick={onCancel}
+                    className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg border border-red-200 bg-red-50 text-red-700 hover:bg-red-100"
+                  >
+                    <Square className="w-4 h-4" />
+                    Cancel
+                  </motion.button>
+                  <span className={`text-sm animate-pulse ${
+                    darkMode ? 'text-gray-300' : 'text-gray-600'
+                  }`}>
+                    Fetched {progress} events...
+                  </span>
+                </>
+              )}
+            </div>
+          </motion.form>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Rss, Timer } from 'lucide-react';
+import { FeedDescriptor, FeedMagnitude, FeedWindow } from '../types/feed';
+import { FEED_MAGNITUDES, FEED_WINDOWS, POLL_INTERVALS } from '../utils/feedUtils';
+
+interface FeedSelectorProps {
+  feed: FeedDescriptor;
+  onFeedChange: (feed: FeedDescriptor) => void;
+  pollInterval: number;
+  onPollIntervalChange: (interval: number) => void;
+  darkMode?: boolean;
+}
+
+export const FeedSelector: React.FC<FeedSelectorProps> = ({
+  feed,
+  onFeedChange,
+  pollInterval,
+  onPollIntervalChange,
+  darkMode = false
+}) => {
+  const selectClassName = `text-sm rounded-lg border px-2 py-2 transition-colors focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    darkMode
+      ? 'bg-gray-700 border-gray-600 text-gray-200'
+      : 'bg-gray-50 border-gray-300 text-gray-700'
+  }`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Rss className={`w-4 h-4 ${
+        darkMode ? 'text-gray-400' : 'text-gray-500'
+      }`} />
+      <select
+        aria-label="Feed magnitude"
+        value={feed.magnitude}
+        onChange={(e) => onFeedChange({ ...feed, magnitude: e.target.value as FeedMagnitude })}
+        className={selectClassName}
+      >
+        {FEED_MAGNITUDES.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Feed time window"
+        value={feed.window}
+        onChange={(e) => onFeedChange({ ...feed, window: e.target.value as FeedWindow })}
+        className={selectClassName}
+      >
+        {FEED_WINDOWS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <Timer className={`w-4 h-4 ml-2 ${
+        darkMode ? 'text-gray-400' : 'text-gray-500'
+      }`} />
+      <select
+        aria-label="Auto-refresh interval"
+        value={pollInterval}
+        onChange={(e) => onPollIntervalChange(Number(e.target.value))}
+        className={selectClassName}
+      >
+        {POLL_INTERVALS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
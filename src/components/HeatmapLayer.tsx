@@ -0,0 +1,107 @@
+import React, { useEffect, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import { DomUtil } from 'leaflet';
+import { Earthquake } from '../types/earthquake';
+import { DensityPoint, HeatmapSettings } from '../types/heatmap';
+import { computeDensityGrid, getEventWeight, getHeatPalette } from '../utils/heatmapUtils';
+
+interface HeatmapLayerProps {
+  earthquakes: Earthquake[];
+  settings: HeatmapSettings;
+}
+
+const PANE_NAME = 'earthquakeHeatmap';
+// Drawn area beyond each edge, so dragging doesn't reveal a blank border
+const PADDING = 0.1;
+// Density is summed at this resolution and smoothed up to the screen
+const CELL_SIZE = 4; // px
+
+/**
+ * Seismicity density drawn onto one canvas under the event markers. Every
+ * event spreads its weight over the kernel radius, the sums are scaled to
+ * the densest spot in view and colored through the heat palette.
+ */
+export const HeatmapLayer: React.FC<HeatmapLayerProps> = ({ earthquakes, settings }) => {
+  const map = useMap();
+  const redrawRef = useRef<() => void>(() => undefined);
+  // Read by the map listeners, which are bound once
+  const propsRef = useRef({ earthquakes, settings });
+  propsRef.current = { earthquakes, settings };
+
+  useEffect(() => {
+    const pane = map.getPane(PANE_NAME) ?? map.createPane(PANE_NAME);
+    // Above region shapes, below the event markers
+    pane.style.zIndex = '420';
+    pane.style.pointerEvents = 'none';
+
+    const canvas = DomUtil.create('canvas', 'leaflet-zoom-hide', pane);
+    // Density at grid resolution, scaled onto the visible canvas
+    const buffer = document.createElement('canvas');
+
+    const draw = () => {
+      const size = map.getSize();
+      const padding = size.multiplyBy(PADDING).round();
+      const width = size.x + padding.x * 2;
+      const height = size.y + padding.y * 2;
+      const origin = map.containerPointToLayerPoint(padding.multiplyBy(-1)).round();
+      const pixelRatio = window.devicePixelRatio || 1;
+
+      DomUtil.setPosition(canvas, origin);
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      const { earthquakes, settings } = propsRef.current;
+      const { radius, weighting } = settings;
+      const points: DensityPoint[] = [];
+      earthquakes.forEach(earthquake => {
+        const [longitude, latitude] = earthquake.geometry.coordinates;
+        const point = map.latLngToLayerPoint([latitude, longitude]);
+        const x = point.x - origin.x;
+        const y = point.y - origin.y;
+        if (x < -radius || y < -radius || x > width + radius || y > height + radius) return;
+        points.push({ x, y, weight: getEventWeight(earthquake, weighting) });
+      });
+
+      const grid = computeDensityGrid(points, width, height, radius, CELL_SIZE);
+      if (grid.max <= 0) return;
+
+      buffer.width = grid.columns;
+      buffer.height = grid.rows;
+      const bufferContext = buffer.getContext('2d');
+      if (!bufferContext) return;
+      const image = bufferContext.createImageData(grid.columns, grid.rows);
+      const palette = getHeatPalette();
+      grid.values.forEach((value, index) => {
+        if (value <= 0) return;
+        const color = Math.min(255, Math.round((value / grid.max) * 255)) * 4;
+        image.data.set(palette.subarray(color, color + 4), index * 4);
+      });
+      bufferContext.putImageData(image, 0, 0);
+
+      context.imageSmoothingEnabled = true;
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      context.drawImage(buffer, 0, 0, grid.columns * CELL_SIZE, grid.rows * CELL_SIZE);
+    };
+
+    redrawRef.current = draw;
+    map.on('moveend resize viewreset', draw);
+    draw();
+
+    return () => {
+      map.off('moveend resize viewreset', draw);
+      DomUtil.remove(canvas);
+      redrawRef.current = () => undefined;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    redrawRef.current();
+  }, [earthquakes, settings]);
+
+  return null;
+};
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Layers } from 'lucide-react';
+import { OverlayId, OverlaySources } from '../types/overlay';
+import { BasemapSettings } from '../types/tiles';
+import { MAP_OVERLAYS, OVERLAY_IDS } from '../utils/overlayUtils';
+import { BASEMAP_OPTIONS, MAX_TILE_ZOOM, validateTileUrl } from '../utils/tileUtils';
+
+interface LayerControlProps {
+  basemapSettings: BasemapSettings;
+  onBasemapSettingsChange?: (settings: BasemapSettings) => void;
+  overlays: OverlayId[];
+  // Overlays with generated data, each credited under its entry
+  overlaySources: OverlaySources;
+  onOverlaysChange?: (overlays: OverlayId[]) => void;
+}
+
+/**
+ * Map corner panel for choosing the basemap, including a custom tile
+ * server, and the geological overlays drawn over it.
+ */
+export const LayerControl: React.FC<LayerControlProps> = ({
+  basemapSettings,
+  onBasemapSettingsChange,
+  overlays,
+  overlaySources,
+  onOverlaysChange
+}) => {
+  const availableOverlays = OVERLAY_IDS.filter(id => overlaySources[id]);
+  const [open, setOpen] = useState(false);
+  // Custom source being edited, only applied once it validates
+  const [customForm, setCustomForm] = useState({
+    url: basemapSettings.customUrl,
+    attribution: basemapSettings.customAttribution,
+    maxZoom: String(basemapSettings.customMaxZoom)
+  });
+  const [editingCustom, setEditingCustom] = useState(false);
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  const showCustomForm = editingCustom || (basemapSettings.basemap === 'custom' && !basemapSettings.customUrl);
+
+  const applyCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validateTileUrl(customForm.url);
+    const maxZoom = Number(customForm.maxZoom);
+    if (error) {
+      setCustomError(error);
+    } else if (!Number.isInteger(maxZoom) || maxZoom < 0 || maxZoom > MAX_TILE_ZOOM) {
+      setCustomError(`Max zoom must be a whole number from 0 to ${MAX_TILE_ZOOM}`);
+    } else {
+      setCustomError(null);
+      setEditingCustom(false);
+      onBasemapSettingsChange?.({
+        basemap: 'custom',
+        customUrl: customForm.url.trim(),
+        customAttribution: customForm.attribution.trim(),
+        customMaxZoom: maxZoom
+      });
+    }
+  };
+
+  const selectBasemap = (basemap: BasemapSettings['basemap']) => {
+    if (basemap === 'custom' && validateTileUrl(basemapSettings.customUrl) !== null) {
+      setEditingCustom(true);
+      return;
+    }
+    setEditingCustom(false);
+    onBasemapSettingsChange?.({ ...basemapSettings, basemap });
+  };
+
+  const inputClassName = 'w-full px-2 py-1 rounded border border-gray-300 bg-white text-gray-900';
+
+  return (
+    <div className="px-3 py-2 rounded-lg bg-white bg-opacity-90 shadow-lg text-xs text-gray-700">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 ml-auto px-2 py-1 rounded-md font-medium transition-colors duration-200 ${
+          open ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        }`}
+        aria-expanded={open}
+        title="Basemap and geological overlays"
+      >
+        <Layers className="w-3 h-3" />
+        Layers{overlays.length > 0 && ` (${overlays.length})`}
+      </button>
+
+      {open && (
+        <div className="mt-2 w-60 space-y-3">
+          {onBasemapSettingsChange && (
+            <fieldset>
+              <legend className="mb-1 font-semibold text-gray-900">Basemap</legend>
+              <div className="space-y-1">
+                {BASEMAP_OPTIONS.map(option => (
+                  <label key={option.id} className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="basemap"
+                      className="mt-0.5"
+                      checked={basemapSettings.basemap === option.id}
+                      onChange={() => selectBasemap(option.id)}
+                    />
+                    <span>
+                      <span className="font-medium text-gray-900">{option.label}</span>
+                      <span className="block text-gray-500 break-all">
+                        {option.id === 'custom' && basemapSettings.customUrl ? basemapSettings.customUrl : option.description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              {showCustomForm ? (
+                <form onSubmit={applyCustom} className="mt-2 space-y-1.5">
+                  <input
+                    type="text"
+                    value={customForm.url}
+                    onChange={(e) => setCustomForm({ ...customForm, url: e.target.value })}
+                    placeholder="http://localhost:8080/{z}/{x}/{y}.png"
+                    aria-label="Tile URL template"
+                    className={inputClassName}
+                  />
+                  <input
+                    type="text"
+                    value={customForm.attribution}
+                    onChange={(e) => setCustomForm({ ...customForm, attribution: e.target.value })}
+                    placeholder="Attribution (optional)"
+                    aria-label="Attribution"
+                    className={inputClassName}
+                  />
+                  <label className="flex items-center gap-2">
+                    Max zoom
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_TILE_ZOOM}
+                      value={customForm.maxZoom}
+                      onChange={(e) => setCustomForm({ ...customForm, maxZoom: e.target.value })}
+                      className={`${inputClassName} w-16`}
+                    />
+                  </label>
+                  {customError && <div className="text-red-600">{customError}</div>}
+                  <div className="flex gap-2">
+                    <button type="submit" className="px-2 py-1 rounded-md bg-blue-600 text-white font-medium hover:bg-blue-700">
+                      Use tiles
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingCustom(false);
+                        setCustomError(null);
+                      }}
+                      className="px-2 py-1 rounded-md bg-gray-100 hover:bg-gray-200"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <button
+                  onClick={() => setEditingCustom(true)}
+                  className="mt-1 text-blue-600 hover:underline"
+                >
+                  {basemapSettings.customUrl ? 'Edit custom tile source' : 'Set up a custom tile source'}
+                </button>
+              )}
+            </fieldset>
+          )}
+
+          {onOverlaysChange && availableOverlays.length > 0 && (
+            <fieldset>
+              <legend className="mb-1 font-semibold text-gray-900">Geology</legend>
+              <ul className="space-y-2">
+                {availableOverlays.map(id => {
+                  const overlay = MAP_OVERLAYS[id];
+                  const source = overlaySources[id];
+                  return (
+                    <li key={id}>
+                      <label className="flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="mt-0.5"
+                          checked={overlays.includes(id)}
+                          onChange={() => onOverlaysChange(overlays.includes(id)
+                            ? overlays.filter(visible => visible !== id)
+                            : availableOverlays.filter(other => other === id || overlays.includes(other)))}
+                        />
+                        <span>
+                          <span className="font-medium text-gray-900">{overlay.label}</span>
+                          <span className="block text-gray-500">{overlay.description}</span>
+                        </span>
+                      </label>
+                      {source && (
+                        <p className="mt-0.5 ml-5 text-[10px] text-gray-400">
+                          {source.attribution},{' '}
+                          {source.licenceUrl ? (
+                            <a href={source.licenceUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                              {source.licence}
+                            </a>
+                          ) : source.licence}
+                        </p>
+                      )}
+                      {overlays.includes(id) && (
+                        <div className="flex flex-wrap gap-x-2 gap-y-0.5 mt-1 ml-5">
+                          {overlay.legend.map(item => (
+                            <span key={item.label} className="flex items-center gap-1">
+                              <span className="w-3 h-1 rounded-full" style={{ backgroundColor: item.color }} />
+                              {item.label}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </fieldset>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
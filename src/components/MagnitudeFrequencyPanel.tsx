@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Earthquake } from '../types/earthquake';
+import { MagnitudeFrequency, McMethod } from '../types/magnitudeFrequency';
+import { getMagnitudeFrequency, MC_METHODS, MIN_RELIABLE_FIT_EVENTS } from '../utils/magnitudeFrequencyUtils';
+
+interface MagnitudeFrequencyPanelProps {
+  // The filtered events, so the analysis follows the filters
+  earthquakes: Earthquake[];
+  darkMode?: boolean;
+}
+
+const WIDTH = 560;
+const HEIGHT = 300;
+const MARGIN = { top: 12, right: 16, bottom: 40, left: 52 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const CUMULATIVE_COLOR = '#2563eb';
+const INCREMENTAL_COLOR = '#f97316';
+const FIT_COLOR = '#dc2626';
+
+/**
+ * Log-linear plot of the cumulative and incremental event counts per
+ * magnitude bin, with Mc and the fitted Gutenberg-Richter line.
+ */
+const MagnitudeFrequencyChart: React.FC<{ data: MagnitudeFrequency; darkMode: boolean }> = ({ data, darkMode }) => {
+  const { bins, binWidth, fit } = data;
+  const minMagnitude = bins[0].magnitude - binWidth / 2;
+  const maxMagnitude = bins[bins.length - 1].magnitude + binWidth / 2;
+  const maxPower = Math.max(1, Math.ceil(Math.log10(data.total)));
+
+  const x = (magnitude: number) => MARGIN.left + ((magnitude - minMagnitude) / (maxMagnitude - minMagnitude)) * PLOT_WIDTH;
+  const y = (count: number) => MARGIN.top + (1 - Math.log10(count) / maxPower) * PLOT_HEIGHT;
+
+  const span = maxMagnitude - minMagnitude;
+  const tickStep = span > 4 ? 1 : span > 2 ? 0.5 : binWidth * 2;
+  const xTicks: number[] = [];
+  for (let tick = Math.ceil(minMagnitude / tickStep) * tickStep; tick <= maxMagnitude; tick += tickStep) {
+    xTicks.push(Math.round(tick * 10) / 10);
+  }
+  const yTicks = Array.from({ length: maxPower + 1 }, (_, power) => 10 ** power);
+
+  // Fitted line from Mc until it predicts fewer than one event
+  const fitEnd = fit ? Math.min(bins[bins.length - 1].magnitude, fit.a / fit.b) : 0;
+  const axisColor = darkMode ? '#9ca3af' : '#6b7280';
+  const gridColor = darkMode ? '#374151' : '#e5e7eb';
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Magnitude-frequency distribution">
+      {yTicks.map(tick => (
+        <g key={tick}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke={gridColor} />
+          <text x={MARGIN.left - 6} y={y(tick)} dy="0.32em" textAnchor="end" fontSize="11" fill={axisColor}>
+            {tick.toLocaleString()}
+          </text>
+        </g>
+      ))}
+      {xTicks.map(tick => (
+        <text key={tick} x={x(tick)} y={HEIGHT - MARGIN.bottom + 16} textAnchor="middle" fontSize="11" fill={axisColor}>
+          {tick.toFixed(1)}
+        </text>
+      ))}
+      <line
+        x1={MARGIN.left}
+        x2={WIDTH - MARGIN.right}
+        y1={HEIGHT - MARGIN.bottom}
+        y2={HEIGHT - MARGIN.bottom}
+        stroke={axisColor}
+      />
+      <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 6} textAnchor="middle" fontSize="11" fill={axisColor}>
+        Magnitude
+      </text>
+      <text
+        transform={`translate(14 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+        textAnchor="middle"
+        fontSize="11"
+        fill={axisColor}
+      >
+        Number of events
+      </text>
+
+      {fit && (
+        <>
+          <line
+            x1={x(fit.mc)}
+            x2={x(fit.mc)}
+            y1={MARGIN.top}
+            y2={HEIGHT - MARGIN.bottom}
+            stroke={axisColor}
+            strokeDasharray="4 4"
+          />
+          <text x={x(fit.mc) + 4} y={MARGIN.top + 10} fontSize="11" fill={axisColor}>
+            Mc {fit.mc.toFixed(1)}
+          </text>
+          {fitEnd > fit.mc && (
+            <line
+              x1={x(fit.mc)}
+              x2={x(fitEnd)}
+              y1={y(10 ** (fit.a - fit.b * fit.mc))}
+              y2={y(10 ** (fit.a - fit.b * fitEnd))}
+              stroke={FIT_COLOR}
+              strokeWidth={2}
+            />
+          )}
+        </>
+      )}
+
+      {bins.map(bin => bin.count > 0 && (
+        <rect
+          key={`incremental-${bin.magnitude}`}
+          x={x(bin.magnitude) - 3}
+          y={y(bin.count) - 3}
+          width={6}
+          height={6}
+          fill={INCREMENTAL_COLOR}
+        >
+          <title>M {bin.magnitude.toFixed(1)}: {bin.count} events</title>
+        </rect>
+      ))}
+      {bins.map(bin => (
+        <circle
+          key={`cumulative-${bin.magnitude}`}
+          cx={x(bin.magnitude)}
+          cy={y(bin.cumulative)}
+          r={3.5}
+          fill="none"
+          stroke={CUMULATIVE_COLOR}
+          strokeWidth={1.5}
+        >
+          <title>M ≥ {bin.magnitude.toFixed(1)}: {bin.cumulative} events</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export const MagnitudeFrequencyPanel: React.FC<MagnitudeFrequencyPanelProps> = ({
+  earthquakes,
+  darkMode = false
+}) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const [method, setMethod] = useState<McMethod>('maxc-corrected');
+  const [manualMc, setManualMc] = useState('2.5');
+
+  const parsedManualMc = manualMc.trim() === '' ? null : Number(manualMc);
+  const manualValue = parsedManualMc !== null && Number.isFinite(parsedManualMc) ? parsedManualMc : null;
+
+  // Only computed while open, the bootstrap isn't free on large catalogs
+  const data = useMemo(
+    () => (showPanel ? getMagnitudeFrequency(earthquakes, method, manualValue) : null),
+    [showPanel, earthquakes, method, manualValue]
+  );
+  const fit = data?.fit ?? null;
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const labelClassName = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const inputClassName = `w-full px-3 py-2 text-sm rounded-lg border transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    darkMode
+      ? 'bg-gray-700 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const statClassName = `rounded-lg p-3 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`;
+  const statValueClassName = `text-lg font-bold tabular-nums ${darkMode ? 'text-white' : 'text-gray-900'}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`rounded-xl shadow-lg p-6 border transition-all duration-300 ${
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-100'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <BarChart3 className={`w-4 h-4 ${mutedText}`} />
+          <h3 className={`font-semibold ${
+            darkMode ? 'text-white' : 'text-gray-800'
+          }`}>
+            Magnitude-Frequency
+          </h3>
+          {fit && (
+            <span className={`text-xs px-2 py-1 rounded-full ${
+              darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+            }`}>
+              b = {fit.b.toFixed(2)}
+            </span>
+          )}
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => setShowPanel(!showPanel)}
+          className={`px-4 py-2 text-sm rounded-lg border transition-all duration-200 ${
+            showPanel
+              ? 'bg-blue-100 border-blue-300 text-blue-700'
+              : darkMode
+                ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {showPanel ? 'Hide' : 'Analyze'}
+        </motion.button>
+      </div>
+
+      <AnimatePresence>
+        {showPanel && data && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3, ease: "easeInOut" }}
+            className={`mt-4 border-t pt-4 space-y-4 ${
+              darkMode ? 'border-gray-700' : 'border-gray-200'
+            }`}
+          >
+            <p className={`text-xs ${mutedText}`}>
+              Gutenberg-Richter analysis of the {data.total.toLocaleString()} filtered events with a magnitude,
+              in {data.binWidth.toFixed(1)} magnitude bins. The b-value is the maximum-likelihood estimate
+              (Aki-Utsu) over the events at or above Mc.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="gr-mc-method" className={labelClassName}>Mc method</label>
+                <select
+                  id="gr-mc-method"
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as McMethod)}
+                  className={inputClassName}
+                >
+                  {MC_METHODS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {method === 'manual' && (
+                <div>
+                  <label htmlFor="gr-manual-mc" className={labelClassName}>Mc</label>
+                  <input
+                    id="gr-manual-mc"
+                    type="number"
+                    step={data.binWidth}
+                    value={manualMc}
+                    onChange={(e) => setManualMc(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            {data.total === 0 ? (
+              <p className={`text-sm ${mutedText}`}>No filtered events have a magnitude.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className={statClassName}>
+                    <div className={`text-xs ${mutedText}`}>Mc</div>
+                    <div className={statValueClassName}>
+                      {fit ? fit.mc.toFixed(1) : '—'}
+                      {fit && fit.mcUncertainty !== null && (
+                        <span className={`text-sm font-normal ${mutedText}`}> ± {fit.mcUncertainty.toFixed(2)}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className={statClassName}>
+                    <div className={`text-xs ${mutedText}`}>b-value</div>
+                    <div className={statValueClassName}>
+                      {fit ? fit.b.toFixed(2) : '—'}
+                      {fit && <span className={`text-sm font-normal ${mutedText}`}> ± {fit.bUncertainty.toFixed(2)}</span>}
+                    </div>
+                  </div>
+                  <div className={statClassName}>
+                    <div className={`text-xs ${mutedText}`}>a-value</div>
+                    <div className={statValueClassName}>{fit ? fit.a.toFixed(2) : '—'}</div>
+                  </div>
+                  <div className={statClassName}>
+                    <div className={`text-xs ${mutedText}`}>Events ≥ Mc</div>
+                    <div className={statValueClassName}>{fit ? fit.count.toLocaleString() : '—'}</div>
+                  </div>
+                </div>
+
+                <MagnitudeFrequencyChart data={data} darkMode={darkMode} />
+
+                <div className={`flex flex-wrap items-center gap-4 text-xs ${mutedText}`}>
+                  <span className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5 rounded-full border-2" style={{ borderColor: CUMULATIVE_COLOR }} />
+                    Cumulative, N(≥M)
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="w-2 h-2" style={{ background: INCREMENTAL_COLOR }} />
+                    Incremental, per bin
+                  </span>
+                  {fit && (
+                    <span className="flex items-center gap-1">
+                      <span className="w-4 h-0.5" style={{ background: FIT_COLOR }} />
+                      log N = {fit.a.toFixed(2)} − {fit.b.toFixed(2)} M
+                    </span>
+                  )}
+                </div>
+
+                {!fit && (
+                  <p className="text-sm text-yellow-600">
+                    Too few events at or above Mc to fit a b-value.
+                  </p>
+                )}
+                {fit && fit.count < MIN_RELIABLE_FIT_EVENTS && (
+                  <p className="text-sm text-yellow-600">
+                    Only {fit.count} events at or above Mc; the b-value is poorly constrained below {MIN_RELIABLE_FIT_EVENTS}.
+                  </p>
+                )}
+                {data.magTypes.length > 1 && (
+                  <p className={`text-xs ${mutedText}`}>
+                    Mixes magnitude types ({data.magTypes.join(', ')}). Filter to one type for a consistent b-value.
+                  </p>
+                )}
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
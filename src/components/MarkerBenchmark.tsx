@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import { FrameStats } from '../types/markers';
+import { summarizeFrameTimes } from '../utils/benchmarkUtils';
+
+// Zooms and pans across the benchmark hotspots, each step given time to
+// settle, so every run exercises the same redraws
+const BENCHMARK_STEPS: { center: [number, number]; zoom: number }[] = [
+  { center: [20, 0], zoom: 2 },
+  { center: [38, 142], zoom: 4 },
+  { center: [38, 142], zoom: 6 },
+  { center: [14, 121], zoom: 5 },
+  { center: [-6, 130], zoom: 4 },
+  { center: [-20, -70], zoom: 5 },
+  { center: [36, -118], zoom: 3 },
+  { center: [20, 0], zoom: 2 }
+];
+const START_DELAY_MS = 2000;
+const STEP_DURATION_MS = 1500;
+
+/**
+ * Scripted camera run for ?benchmark. Records the time between animation
+ * frames while the map moves and reports their distribution when done.
+ */
+export const MarkerBenchmark: React.FC<{ onComplete: (stats: FrameStats) => void }> = ({ onComplete }) => {
+  const map = useMap();
+  // Runs once per mount, a new callback shouldn't restart it
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  useEffect(() => {
+    const durations: number[] = [];
+    const timers: number[] = [];
+    let frame: number | null = null;
+    let last: number | null = null;
+
+    const record = (time: number) => {
+      if (last !== null) durations.push(time - last);
+      last = time;
+      frame = requestAnimationFrame(record);
+    };
+
+    timers.push(window.setTimeout(() => {
+      frame = requestAnimationFrame(record);
+      BENCHMARK_STEPS.forEach((step, index) => {
+        timers.push(window.setTimeout(() => {
+          map.flyTo(step.center, step.zoom, { duration: 1 });
+        }, index * STEP_DURATION_MS));
+      });
+      timers.push(window.setTimeout(() => {
+        if (frame !== null) cancelAnimationFrame(frame);
+        frame = null;
+        onCompleteRef.current(summarizeFrameTimes(durations));
+      }, BENCHMARK_STEPS.length * STEP_DURATION_MS));
+    }, START_DELAY_MS));
+
+    return () => {
+      timers.forEach(timer => window.clearTimeout(timer));
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [map]);
+
+  return null;
+};
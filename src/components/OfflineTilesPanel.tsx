@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { Download, Square, Crosshair } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Earthquake } from '../types/earthquake';
+import { TileArea, TileLayerConfig, TilePrecacheProgress } from '../types/tiles';
+import { countTiles, getEarthquakeExtent, MAX_PRECACHE_TILES } from '../utils/tileUtils';
+
+interface OfflineTilesPanelProps {
+  earthquakes: Earthquake[];
+  cachedCount: number | null;
+  progress: TilePrecacheProgress | null;
+  running: boolean;
+  error: string | null;
+  onPrecache: (template: string, area: TileArea) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  // Basemap shown on the map, the one that gets downloaded
+  tileLayer: TileLayerConfig;
+  darkMode?: boolean;
+}
+
+type AreaForm = Record<keyof TileArea, string>;
+
+const AREA_FIELDS: { key: keyof TileArea; label: string }[] = [
+  { key: 'minLatitude', label: 'Min latitude' },
+  { key: 'maxLatitude', label: 'Max latitude' },
+  { key: 'minLongitude', label: 'Min longitude' },
+  { key: 'maxLongitude', label: 'Max longitude' },
+  { key: 'minZoom', label: 'Min zoom' },
+  { key: 'maxZoom', label: 'Max zoom' }
+];
+
+const INITIAL_FORM: AreaForm = {
+  minLatitude: '-11',
+  maxLatitude: '6',
+  minLongitude: '95',
+  maxLongitude: '141',
+  minZoom: '2',
+  maxZoom: '6'
+};
+
+const parseField = (value: string): number => (value.trim() === '' ? NaN : Number(value));
+
+const parseArea = (form: AreaForm): TileArea | null => {
+  const area: TileArea = {
+    minLatitude: parseField(form.minLatitude),
+    maxLatitude: parseField(form.maxLatitude),
+    minLongitude: parseField(form.minLongitude),
+    maxLongitude: parseField(form.maxLongitude),
+    minZoom: parseField(form.minZoom),
+    maxZoom: parseField(form.maxZoom)
+  };
+
+  if (!Object.values(area).every(Number.isFinite)) return null;
+  if (area.minLatitude < -90 || area.maxLatitude > 90 || area.minLongitude < -180 || area.maxLongitude > 180) return null;
+  if (area.minLatitude >= area.maxLatitude || area.minLongitude >= area.maxLongitude) return null;
+  if (area.minZoom < 0 || area.maxZoom > 18 || area.minZoom > area.maxZoom) return null;
+  return { ...area, minZoom: Math.round(area.minZoom), maxZoom: Math.round(area.maxZoom) };
+};
+
+export const OfflineTilesPanel: React.FC<OfflineTilesPanelProps> = ({
+  earthquakes,
+  cachedCount,
+  progress,
+  running,
+  error,
+  onPrecache,
+  onCancel,
+  onClear,
+  tileLayer,
+  darkMode = false
+}) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const [form, setForm] = useState<AreaForm>(INITIAL_FORM);
+
+  const area = parseArea(form);
+  const tileCount = area ? countTiles(area) : null;
+  const tooMany = tileCount !== null && tileCount > MAX_PRECACHE_TILES;
+
+  const fitToEvents = () => {
+    const extent = getEarthquakeExtent(earthquakes);
+    if (!extent) return;
+    setForm(current => ({
+      ...current,
+      minLatitude: extent.minLatitude.toFixed(2),
+      maxLatitude: extent.maxLatitude.toFixed(2),
+      minLongitude: extent.minLongitude.toFixed(2),
+      maxLongitude: extent.maxLongitude.toFixed(2)
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (area && !tooMany) {
+      onPrecache(tileLayer.url, area);
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 text-sm rounded-lg border transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    darkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    darkMode ? 'text-gray-300' : 'text-gray-600'
+  }`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`rounded-xl shadow-lg p-6 border transition-all duration-300 ${
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-100'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Download className={`w-4 h-4 ${
+            darkMode ? 'text-gray-400' : 'text-gray-500'
+          }`} />
+          <h3 className={`font-semibold ${
+            darkMode ? 'text-white' : 'text-gray-800'
+          }`}>
+            Offline Map
+          </h3>
+          {cachedCount !== null && (
+            <span className={`text-xs px-2 py-1 rounded-full ${
+              darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+            }`}>
+              {cachedCount.toLocaleString()} tiles stored
+            </span>
+          )}
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => setShowPanel(!showPanel)}
+          className={`px-4 py-2 text-sm rounded-lg border transition-all duration-200 ${
+            showPanel
+              ? 'bg-blue-100 border-blue-300 text-blue-700'
+              : darkMode
+                ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {showPanel ? 'Hide' : 'Choose area'}
+        </motion.button>
+      </div>
+
+      <AnimatePresence>
+        {showPanel && (
+          <motion.form
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3, ease: "easeInOut" }}
+            onSubmit={handleSubmit}
+            className={`mt-4 border-t pt-4 space-y-4 ${
+              darkMode ? 'border-gray-700' : 'border-gray-200'
+            }`}
+          >
+            <p className={`text-xs ${
+              darkMode ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              Downloads the basemap shown on the map for an area so the map keeps working without a connection.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              {AREA_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label htmlFor={`tiles-${field.key}`} className={labelClassName}>
+                    {field.label}
+                  </label>
+                  <input
+                    id={`tiles-${field.key}`}
+                    type="number"
+                    step="any"
+                    value={form[field.key]}
+                    onChange={(e) => setForm(current => ({ ...current, [field.key]: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className={`text-sm ${
+              tooMany ? 'text-red-600' : darkMode ? 'text-gray-300' : 'text-gray-600'
+            }`}>
+              {tileCount === null
+                ? 'Enter a valid area and zoom range (0-18)'
+                : tooMany
+                  ? `${tileCount.toLocaleString()} tiles exceeds the limit of ${MAX_PRECACHE_TILES.toLocaleString()}, shrink the area or zoom range`
+                  : `${tileCount.toLocaleString()} tiles to download`}
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                type="submit"
+                disabled={running || !area || tooMany}
+                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg"
+              >
+                <Download className="w-4 h-4" />
+                Download tiles
+              </motion.button>
+              <button
+                type="button"
+                onClick={fitToEvents}
+                disabled={earthquakes.length === 0}
+                className={`flex items-center gap-1 px-3 py-2 text-sm rounded-lg border disabled:opacity-50 ${
+                  darkMode
+                    ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                    : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <Crosshair className="w-4 h-4" />
+                Fit to events
+              </button>
+              <button
+                type="button"
+                onClick={onClear}
+                className={`px-3 py-2 text-sm rounded-lg border ${
+                  darkMode
+                    ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                    : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Clear tiles
+              </button>
+              {running && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  type="button"
+                  onClick={onCancel}
+                  className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg border border-red-200 bg-red-50 text-red-700 hover:bg-red-100"
+                >
+                  <Square className="w-4 h-4" />
+                  Cancel
+                </motion.button>
+              )}
+            </div>
+
+            {progress && (
+              <div className="space-y-1">
+                <div className={`h-2 rounded-full overflow-hidden ${
+                  darkMode ? 'bg-gray-700' : 'bg-gray-200'
+                }`}>
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-200"
+                    style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <div className={`text-xs ${
+                  darkMode ? 'text-gray-400' : 'text-gray-500'
+                }`}>
+                  {progress.done.toLocaleString()} of {progress.total.toLocaleString()} tiles{running ? '...' : ''}
+                </div>
+              </div>
+            )}
+          </motion.form>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
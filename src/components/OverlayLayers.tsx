@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { GeoJSON, Popup } from 'react-leaflet';
+import { DivIcon, LatLng, LeafletMouseEvent, Marker } from 'leaflet';
+import { Feature } from 'geojson';
+import { OverlayData, OverlayId, OverlaySources, SelectedOverlayFeature } from '../types/overlay';
+import { formatOverlayValue, getOverlayStyle, loadOverlay, MAP_OVERLAYS, VOLCANO_COLOR } from '../utils/overlayUtils';
+
+const volcanoIcon = new DivIcon({
+  html: `<div class="volcano-marker" style="border-bottom-color: ${VOLCANO_COLOR}"></div>`,
+  className: '',
+  iconSize: [12, 10],
+  iconAnchor: [6, 8]
+});
+
+const OverlayLayer: React.FC<{
+  overlay: OverlayId;
+  onSelect: (feature: SelectedOverlayFeature) => void;
+}> = ({ overlay, onSelect }) => {
+  const [data, setData] = useState<OverlayData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOverlay(overlay)
+      .then(loaded => {
+        if (!cancelled) setData(loaded);
+      })
+      .catch(error => console.error(`Failed to load the ${overlay} overlay:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [overlay]);
+
+  if (!data) return null;
+
+  return (
+    <GeoJSON
+      data={data}
+      style={(feature) => getOverlayStyle(overlay, feature?.properties ?? {})}
+      pointToLayer={(_, latlng: LatLng) => new Marker(latlng, { icon: volcanoIcon })}
+      eventHandlers={{
+        click: (e: LeafletMouseEvent) => {
+          const feature: Feature | undefined = e.propagatedFrom?.feature;
+          if (!feature) return;
+          // Points open on the point itself, lines where they were clicked
+          const position: [number, number] = feature.geometry.type === 'Point'
+            ? [feature.geometry.coordinates[1], feature.geometry.coordinates[0]]
+            : [e.latlng.lat, e.latlng.lng];
+          onSelect({ overlay, properties: feature.properties ?? {}, position });
+        }
+      }}
+    />
+  );
+};
+
+/**
+ * Bundled geological context layers, loaded from public/data the first
+ * time each is shown. Clicking a feature shows its properties.
+ */
+export const OverlayLayers: React.FC<{
+  overlays: OverlayId[];
+  sources: OverlaySources;
+}> = ({ overlays, sources }) => {
+  const [selected, setSelected] = useState<SelectedOverlayFeature | null>(null);
+  const visibleSelection = selected && overlays.includes(selected.overlay) ? selected : null;
+
+  return (
+    <>
+      {overlays.map(overlay => (
+        <OverlayLayer key={overlay} overlay={overlay} onSelect={setSelected} />
+      ))}
+      {visibleSelection && (
+        <Popup
+          key={`${visibleSelection.position}`}
+          position={visibleSelection.position}
+          eventHandlers={{ remove: () => setSelected(null) }}
+        >
+          <div className="text-xs min-w-[180px]">
+            <div className="font-semibold text-gray-900 mb-1">{MAP_OVERLAYS[visibleSelection.overlay].label}</div>
+            <table>
+              <tbody>
+                {MAP_OVERLAYS[visibleSelection.overlay].fields.map(field => (
+                  <tr key={field.key}>
+                    <td className="pr-3 text-gray-500 align-top">{field.label}</td>
+                    <td className="text-gray-900">{formatOverlayValue(field, visibleSelection.properties[field.key])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-1 text-[10px] text-gray-400">{sources[visibleSelection.overlay]?.attribution}</div>
+          </div>
+        </Popup>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Search, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FilterOptions } from '../types/filters';
+import { QueryCompletion, QueryError, QueryToken } from '../types/query';
+import { getQueryCompletion, parseQuery } from '../utils/queryUtils';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  options: FilterOptions;
+  darkMode?: boolean;
+}
+
+interface Segment {
+  text: string;
+  className: string;
+  error: boolean;
+}
+
+// Only colours, a change of weight would shift the text under the caret
+const getTokenClasses = (darkMode: boolean) => ({
+  field: darkMode ? 'text-blue-300' : 'text-blue-700',
+  operator: darkMode ? 'text-gray-400' : 'text-gray-500',
+  value: darkMode ? 'text-emerald-300' : 'text-emerald-700',
+  keyword: darkMode ? 'text-purple-300' : 'text-purple-700',
+  plain: darkMode ? 'text-white' : 'text-gray-900'
+});
+
+const buildSegments = (
+  value: string,
+  tokens: QueryToken[],
+  errors: QueryError[],
+  darkMode: boolean
+): Segment[] => {
+  const classes = getTokenClasses(darkMode);
+  const charClasses = new Array<string>(value.length).fill(classes.plain);
+  const charErrors = new Array<boolean>(value.length).fill(false);
+  const paint = (start: number, end: number, className: string) => {
+    for (let index = start; index < end; index++) charClasses[index] = className;
+  };
+
+  tokens.forEach(token => {
+    if (token.type === 'term') {
+      const operatorStart = token.start + token.field.length;
+      paint(token.start, operatorStart, classes.field);
+      paint(operatorStart, token.valueStart, classes.operator);
+      paint(token.valueStart, token.end, classes.value);
+    } else if (token.type !== 'text') {
+      paint(token.start, token.end, classes.keyword);
+    }
+  });
+  errors.forEach(error => {
+    for (let index = error.start; index < Math.max(error.end, error.start + 1); index++) {
+      charErrors[index] = true;
+    }
+  });
+
+  const segments: Segment[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const last = segments[segments.length - 1];
+    if (last && last.className === charClasses[index] && last.error === charErrors[index]) {
+      last.text += value[index];
+    } else {
+      segments.push({ text: value[index], className: charClasses[index], error: charErrors[index] });
+    }
+  }
+  return segments;
+};
+
+export const QueryInput: React.FC<QueryInputProps> = ({
+  value,
+  onChange,
+  options,
+  darkMode = false
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const [completion, setCompletion] = useState<QueryCompletion | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const parsed = useMemo(() => parseQuery(value), [value]);
+  const segments = useMemo(
+    () => buildSegments(value, parsed.tokens, parsed.errors, darkMode),
+    [value, parsed, darkMode]
+  );
+
+  // Keeps the highlighted copy aligned when the input scrolls horizontally
+  const syncScroll = () => {
+    if (inputRef.current && backdropRef.current) {
+      backdropRef.current.scrollLeft = inputRef.current.scrollLeft;
+    }
+  };
+
+  const updateCompletion = (text: string, caret: number | null) => {
+    setCompletion(caret === null ? null : getQueryCompletion(text, caret, options));
+    setActiveIndex(0);
+  };
+
+  const applySuggestion = (index: number) => {
+    if (!completion) return;
+    const suggestion = completion.suggestions[index];
+    const next = value.slice(0, completion.start) + suggestion.insertText + value.slice(completion.end);
+    const caret = completion.start + suggestion.insertText.length;
+    onChange(next);
+    setCompletion(null);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+      syncScroll();
+      updateCompletion(next, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!completion) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % completion.suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + completion.suggestions.length) % completion.suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(activeIndex);
+    } else if (e.key === 'Escape') {
+      setCompletion(null);
+    }
+  };
+
+  const hasErrors = parsed.errors.length > 0;
+
+  return (
+    <div className="relative">
+      <Search className={`absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 z-10 ${
+        darkMode ? 'text-gray-400' : 'text-gray-400'
+      }`} />
+      <div className={`relative rounded-lg border transition-all duration-200 focus-within:ring-2 ${
+        hasErrors
+          ? 'border-red-400 focus-within:ring-red-400'
+          : darkMode
+            ? 'border-gray-600 focus-within:ring-blue-500'
+            : 'border-gray-300 focus-within:ring-blue-500'
+      } ${darkMode ? 'bg-gray-700' : 'bg-white'}`}>
+        <div
+          ref={backdropRef}
+          aria-hidden="true"
+          className="absolute inset-0 pl-10 pr-4 py-3 overflow-hidden whitespace-pre pointer-events-none"
+        >
+          {segments.map((segment, index) => (
+            <span
+              key={index}
+              className={`${segment.className} ${
+                segment.error ? 'underline decoration-wavy decoration-red-500' : ''
+              }`}
+            >
+              {segment.text}
+            </span>
+          ))}
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          placeholder='Search by location, or e.g. mag>=5 depth<70 net:us age<6h'
+          value={value}
+          spellCheck={false}
+          autoComplete="off"
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCompletion(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onScroll={syncScroll}
+          onSelect={syncScroll}
+          onBlur={() => setCompletion(null)}
+          className={`relative w-full pl-10 pr-4 py-3 rounded-lg bg-transparent text-transparent focus:outline-none ${
+            darkMode
+              ? 'caret-white placeholder-gray-400'
+              : 'caret-gray-900 placeholder-gray-500'
+          }`}
+        />
+      </div>
+
+      {/* Field and value completion */}
+      <AnimatePresence>
+        {completion && (
+          <motion.ul
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            className={`absolute left-0 right-0 mt-1 z-[1000] rounded-lg border shadow-lg overflow-hidden ${
+              darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'
+            }`}
+          >
+            {completion.suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.insertText}
+                // Keeps focus in the input so blur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(index);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center justify-between gap-3 px-4 py-2 text-sm cursor-pointer ${
+                  index === activeIndex
+                    ? darkMode ? 'bg-gray-700' : 'bg-blue-50'
+                    : ''
+                }`}
+              >
+                <span className={`font-mono ${darkMode ? 'text-blue-300' : 'text-blue-700'}`}>
+                  {suggestion.label}
+                </span>
+                {suggestion.description && (
+                  <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {suggestion.description}
+                  </span>
+                )}
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+
+      {hasErrors && (
+        <div className="flex items-start gap-2 mt-2 text-xs text-red-600">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            {parsed.errors.map(error => error.message).join('; ')}. The query is not applied until fixed.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { Navigation, LocateFixed, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ReferencePoint, SortOrder } from '../types/reference';
+import { formatCoordinates } from '../utils/earthquakeUtils';
+
+interface ReferencePointPanelProps {
+  referencePoint: ReferencePoint | null;
+  locating: boolean;
+  error: string | null;
+  onLocate: () => void;
+  onSetManualPoint: (latitude: number, longitude: number, label: string) => void;
+  onClear: () => void;
+  maxDistanceKm: number | null;
+  onMaxDistanceChange: (distanceKm: number | null) => void;
+  sortOrder: SortOrder;
+  onSortOrderChange: (order: SortOrder) => void;
+  darkMode?: boolean;
+}
+
+const RADIUS_OPTIONS = [50, 100, 250, 500, 1000, 2500];
+
+export const ReferencePointPanel: React.FC<ReferencePointPanelProps> = ({
+  referencePoint,
+  locating,
+  error,
+  onLocate,
+  onSetManualPoint,
+  onClear,
+  maxDistanceKm,
+  onMaxDistanceChange,
+  sortOrder,
+  onSortOrderChange,
+  darkMode = false
+}) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [label, setLabel] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const lat = Number(latitude);
+    const lon = Number(longitude);
+    if (latitude.trim() === '' || longitude.trim() === '' || !Number.isFinite(lat) || !Number.isFinite(lon)
+      || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      setFormError('Enter a latitude between -90 and 90 and a longitude between -180 and 180');
+      return;
+    }
+    setFormError(null);
+    onSetManualPoint(lat, lon, label);
+  };
+
+  const inputClassName = `w-full px-3 py-2 text-sm rounded-lg border transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 ${
+    darkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    darkMode ? 'text-gray-300' : 'text-gray-600'
+  }`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`rounded-xl shadow-lg p-6 border transition-all duration-300 ${
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-100'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <Navigation className={`w-4 h-4 flex-shrink-0 ${
+            darkMode ? 'text-gray-400' : 'text-gray-500'
+          }`} />
+          <h3 className={`font-semibold ${
+            darkMode ? 'text-white' : 'text-gray-800'
+          }`}>
+            Near Me
+          </h3>
+          {referencePoint && (
+            <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700 font-medium truncate">
+              {formatCoordinates(referencePoint.longitude, referencePoint.latitude)}
+            </span>
+          )}
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => setShowPanel(!showPanel)}
+          className={`px-4 py-2 text-sm rounded-lg border transition-all duration-200 ${
+            showPanel
+              ? 'bg-blue-100 border-blue-300 text-blue-700'
+              : darkMode
+                ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {showPanel ? 'Hide' : referencePoint ? 'Change' : 'Set location'}
+        </motion.button>
+      </div>
+
+      <AnimatePresence>
+        {showPanel && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3, ease: "easeInOut" }}
+            className={`mt-4 border-t pt-4 space-y-4 ${
+              darkMode ? 'border-gray-700' : 'border-gray-200'
+            }`}
+          >
+            <div className="flex flex-wrap items-center gap-3">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                type="button"
+                onClick={onLocate}
+                disabled={locating}
+                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg"
+              >
+                <LocateFixed className={`w-4 h-4 ${locating ? 'animate-pulse' : ''}`} />
+                {locating ? 'Locating...' : 'Use my location'}
+              </motion.button>
+              {referencePoint && (
+                <button
+                  type="button"
+                  onClick={onClear}
+                  className={`flex items-center gap-1 px-3 py-2 text-sm rounded-lg border ${
+                    darkMode
+                      ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                      : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <X className="w-4 h-4" />
+                  Clear
+                </button>
+              )}
+            </div>
+
+            <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label htmlFor="reference-latitude" className={labelClassName}>Latitude</label>
+                <input
+                  id="reference-latitude"
+                  type="number"
+                  step="any"
+                  value={latitude}
+                  placeholder={referencePoint?.latitude.toFixed(4)}
+                  onChange={(e) => setLatitude(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="reference-longitude" className={labelClassName}>Longitude</label>
+                <input
+                  id="reference-longitude"
+                  type="number"
+                  step="any"
+                  value={longitude}
+                  placeholder={referencePoint?.longitude.toFixed(4)}
+                  onChange={(e) => setLongitude(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="reference-label" className={labelClassName}>Name</label>
+                <input
+                  id="reference-label"
+                  type="text"
+                  value={label}
+                  placeholder="e.g. Bandung office"
+                  onChange={(e) => setLabel(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                className={`px-3 py-2 text-sm rounded-lg border ${
+                  darkMode
+                    ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                    : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Set point
+              </button>
+            </form>
+
+            {(formError || error) && (
+              <p className="text-sm text-red-600">{formError ?? error}</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="reference-radius" className={labelClassName}>Within</label>
+                <select
+                  id="reference-radius"
+                  value={maxDistanceKm ?? ''}
+                  disabled={!referencePoint}
+                  onChange={(e) => onMaxDistanceChange(e.target.value === '' ? null : Number(e.target.value))}
+                  className={inputClassName}
+                >
+                  <option value="">Any distance</option>
+                  {RADIUS_OPTIONS.map(radius => (
+                    <option key={radius} value={radius}>{radius.toLocaleString()} km</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="reference-sort" className={labelClassName}>Order</label>
+                <select
+                  id="reference-sort"
+                  value={sortOrder}
+                  disabled={!referencePoint}
+                  onChange={(e) => onSortOrderChange(e.target.value as SortOrder)}
+                  className={inputClassName}
+                >
+                  <option value="newest">Newest first</option>
+                  <option value="closest">Closest first</option>
+                </select>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Circle, CircleMarker, Marker, Polygon, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import { DivIcon, DomEvent, LatLng, LeafletMouseEvent } from 'leaflet';
+import { LngLat, RegionDrawMode, RegionShape, WatchRegion } from '../types/region';
+import { getDistanceKm } from '../utils/geoUtils';
+
+const DRAW_COLOR = '#2563eb';
+
+const toLatLng = ([longitude, latitude]: LngLat): [number, number] => [latitude, longitude];
+
+const toLngLat = (latlng: LatLng): LngLat => [latlng.lng, latlng.lat];
+
+const handleIcon = new DivIcon({
+  html: '<div class="region-handle"></div>',
+  className: '',
+  iconSize: [14, 14],
+  iconAnchor: [7, 7]
+});
+
+// Point due east of the center at the circle's radius
+const getRadiusHandle = (center: LngLat, radiusKm: number): LngLat => {
+  const kmPerDegree = 111.32 * Math.cos((center[1] * Math.PI) / 180);
+  return [center[0] + radiusKm / Math.max(kmPerDegree, 0.01), center[1]];
+};
+
+const getRadiusKm = (center: LngLat, point: LngLat): number => {
+  return getDistanceKm(center[1], center[0], point[1], point[0]);
+};
+
+export const RegionShapes: React.FC<{
+  regions: WatchRegion[];
+  activeRegionIds: string[];
+  hiddenRegionId?: string | null;
+}> = ({ regions, activeRegionIds, hiddenRegionId }) => {
+  return (
+    <>
+      {regions.filter(region => region.id !== hiddenRegionId).map(region => {
+        const pathOptions = {
+          color: region.color,
+          weight: activeRegionIds.includes(region.id) ? 3 : 2,
+          fillOpacity: activeRegionIds.includes(region.id) ? 0.15 : 0.05,
+          dashArray: activeRegionIds.includes(region.id) ? undefined : '6 4'
+        };
+        const tooltip = <Tooltip sticky>{region.name}</Tooltip>;
+
+        return region.shape.type === 'circle' ? (
+          <Circle
+            key={region.id}
+            center={toLatLng(region.shape.center)}
+            radius={region.shape.radiusKm * 1000}
+            pathOptions={pathOptions}
+            interactive={false}
+          >
+            {tooltip}
+          </Circle>
+        ) : (
+          <Polygon
+            key={region.id}
+            positions={region.shape.coordinates.map(toLatLng)}
+            pathOptions={pathOptions}
+            interactive={false}
+          >
+            {tooltip}
+          </Polygon>
+        );
+      })}
+    </>
+  );
+};
+
+/**
+ * Click-to-draw for new regions. Polygons take a click per vertex and
+ * finish on double click, Enter or a click on the first vertex. Circles
+ * take a click for the center and another for the radius.
+ */
+export const RegionDrawer: React.FC<{
+  mode: RegionDrawMode;
+  onComplete: (shape: RegionShape) => void;
+  onCancel: () => void;
+}> = ({ mode, onComplete, onCancel }) => {
+  const map = useMap();
+  const [points, setPoints] = useState<LngLat[]>([]);
+  const [cursor, setCursor] = useState<LngLat | null>(null);
+
+  const finishPolygon = useCallback((vertices: LngLat[]) => {
+    if (vertices.length >= 3) {
+      onComplete({ type: 'polygon', coordinates: vertices });
+    }
+  }, [onComplete]);
+
+  useMapEvents({
+    click: (e: LeafletMouseEvent) => {
+      const point = toLngLat(e.latlng);
+      if (mode === 'circle') {
+        if (points.length === 0) {
+          setPoints([point]);
+        } else if (getRadiusKm(points[0], point) > 0) {
+          onComplete({ type: 'circle', center: points[0], radiusKm: getRadiusKm(points[0], point) });
+        }
+        return;
+      }
+      // The clicks of a double click land on the same spot, keep one vertex
+      const last = points[points.length - 1];
+      if (!last || last[0] !== point[0] || last[1] !== point[1]) {
+        setPoints([...points, point]);
+      }
+    },
+    dblclick: () => {
+      if (mode === 'polygon') finishPolygon(points);
+    },
+    mousemove: (e: LeafletMouseEvent) => setCursor(toLngLat(e.latlng))
+  });
+
+  useEffect(() => {
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+      if (e.key === 'Enter' && mode === 'polygon') finishPolygon(points);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [map, mode, points, onCancel, finishPolygon]);
+
+  if (mode === 'circle') {
+    if (points.length === 0) return null;
+    const radiusKm = cursor ? getRadiusKm(points[0], cursor) : 0;
+    return (
+      <>
+        <CircleMarker center={toLatLng(points[0])} radius={4} pathOptions={{ color: DRAW_COLOR }} />
+        {radiusKm > 0 && (
+          <Circle
+            center={toLatLng(points[0])}
+            radius={radiusKm * 1000}
+            pathOptions={{ color: DRAW_COLOR, dashArray: '6 4', fillOpacity: 0.1 }}
+          >
+            <Tooltip permanent direction="right">{radiusKm.toFixed(0)} km</Tooltip>
+          </Circle>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {points.length > 0 && (
+        <Polyline
+          positions={[...points, ...(cursor ? [cursor] : [])].map(toLatLng)}
+          pathOptions={{ color: DRAW_COLOR, dashArray: '6 4' }}
+        />
+      )}
+      {points.map((point, index) => (
+        <CircleMarker
+          key={index}
+          center={toLatLng(point)}
+          radius={index === 0 ? 6 : 4}
+          pathOptions={{ color: DRAW_COLOR, fillOpacity: 1 }}
+          eventHandlers={index === 0 ? {
+            click: (e) => {
+              // Keep the map's click handler from adding another vertex
+              DomEvent.stopPropagation(e);
+              finishPolygon(points);
+            }
+          } : undefined}
+        />
+      ))}
+    </>
+  );
+};
+
+/**
+ * Draggable handles for reshaping an existing region: one per polygon
+ * vertex (click a vertex to remove it), or a center and a radius handle.
+ */
+export const RegionEditor: React.FC<{
+  region: WatchRegion;
+  onChange: (shape: RegionShape) => void;
+}> = ({ region, onChange }) => {
+  const { shape } = region;
+  const pathOptions = { color: region.color, weight: 3, fillOpacity: 0.15 };
+
+  if (shape.type === 'circle') {
+    return (
+      <>
+        <Circle center={toLatLng(shape.center)} radius={shape.radiusKm * 1000} pathOptions={pathOptions} interactive={false} />
+        <Marker
+          position={toLatLng(shape.center)}
+          icon={handleIcon}
+          draggable
+          eventHandlers={{
+            dragend: (e) => onChange({ ...shape, center: toLngLat(e.target.getLatLng()) })
+          }}
+        />
+        <Marker
+          position={toLatLng(getRadiusHandle(shape.center, shape.radiusKm))}
+          icon={handleIcon}
+          draggable
+          eventHandlers={{
+            dragend: (e) => onChange({ ...shape, radiusKm: getRadiusKm(shape.center, toLngLat(e.target.getLatLng())) })
+          }}
+        />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Polygon positions={shape.coordinates.map(toLatLng)} pathOptions={pathOptions} interactive={false} />
+      {shape.coordinates.map((vertex, index) => (
+        <Marker
+          key={`${index}-${vertex[0]}-${vertex[1]}`}
+          position={toLatLng(vertex)}
+          icon={handleIcon}
+          draggable
+          eventHandlers={{
+            dragend: (e) => onChange({
+              ...shape,
+              coordinates: shape.coordinates.map((existing, i) => (i === index ? toLngLat(e.target.getLatLng()) : existing))
+            }),
+            click: () => {
+              if (shape.coordinates.length > 3) {
+                onChange({ ...shape, coordinates: shape.coordinates.filter((_, i) => i !== index) });
+              }
+            }
+          }}
+        />
+      ))}
+    </>
+  );
+};
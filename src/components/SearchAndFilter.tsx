@@ -1,50 +1,150 @@
 import React, { useState } from 'react';
-import { Search, Filter, SlidersHorizontal } from 'lucide-react';
+import { SlidersHorizontal, X, RotateCcw } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { EarthquakeFilters, FilterOptions, TimeRange } from '../types/filters';
+import { PagerLevel } from '../types/alert';
+import { PAGER_LEVELS } from '../utils/alertUtils';
+import { clearFilter, DEFAULT_FILTERS, getFilterChips, RELATIVE_TIME_OPTIONS } from '../utils/filterUtils';
+import { QueryInput } from './QueryInput';
 
 interface SearchAndFilterProps {
-  searchTerm: string;
-  onSearchChange: (term: string) => void;
-  minMagnitude: number;
-  onMinMagnitudeChange: (magnitude: number) => void;
+  filters: EarthquakeFilters;
+  onFiltersChange: (filters: EarthquakeFilters) => void;
+  options: FilterOptions;
   darkMode?: boolean;
 }
 
+type NumberFilterKey = 'minMagnitude' | 'maxMagnitude' | 'minDepth' | 'maxDepth' | 'minSignificance';
+type ListFilterKey = 'alertLevels' | 'statuses' | 'networks' | 'eventTypes' | 'magTypes';
+
+const PAGER_COLORS: Record<PagerLevel, string> = {
+  green: 'bg-green-100 text-green-700 border-green-300',
+  yellow: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  orange: 'bg-orange-100 text-orange-700 border-orange-300',
+  red: 'bg-red-100 text-red-700 border-red-300'
+};
+
 export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
-  searchTerm,
-  onSearchChange,
-  minMagnitude,
-  onMinMagnitudeChange,
+  filters,
+  onFiltersChange,
+  options,
   darkMode = false
 }) => {
   const [showFilters, setShowFilters] = useState(false);
+  const chips = getFilterChips(filters);
+
+  const update = (changes: Partial<EarthquakeFilters>) => {
+    onFiltersChange({ ...filters, ...changes });
+  };
+
+  const toggleValue = (key: ListFilterKey, value: string) => {
+    const current: string[] = filters[key];
+    const next = current.includes(value)
+      ? current.filter(item => item !== value)
+      : [...current, value];
+    update({ [key]: next });
+  };
+
+  const setTimeRange = (timeRange: TimeRange | undefined) => update({ timeRange });
+
+  const handleTimeModeChange = (value: string) => {
+    if (value === '') {
+      setTimeRange(undefined);
+    } else if (value === 'absolute') {
+      setTimeRange({ type: 'absolute' });
+    } else {
+      setTimeRange({ type: 'relative', hours: Number(value) });
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 text-sm rounded-lg border transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    darkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  const labelClassName = `block text-xs font-medium mb-1 ${
+    darkMode ? 'text-gray-300' : 'text-gray-600'
+  }`;
+
+  const renderNumberInput = (key: NumberFilterKey, label: string, placeholder: string, step = 'any') => (
+    <div>
+      <label htmlFor={`filter-${key}`} className={labelClassName}>
+        {label}
+      </label>
+      <input
+        id={`filter-${key}`}
+        type="number"
+        step={step}
+        placeholder={placeholder}
+        value={filters[key] ?? ''}
+        onChange={(e) => update({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  const renderToggleGroup = (
+    key: ListFilterKey,
+    label: string,
+    values: string[],
+    getClassName?: (value: string) => string
+  ) => (
+    <div>
+      <span className={labelClassName}>{label}</span>
+      {values.length === 0 ? (
+        <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+          None in the current catalog
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {values.map(value => {
+            const selected = (filters[key] as string[]).includes(value);
+            return (
+              <button
+                key={value}
+                type="button"
+                onClick={() => toggleValue(key, value)}
+                className={`px-3 py-1 text-xs rounded-full border capitalize transition-all duration-200 ${
+                  selected
+                    ? getClassName?.(value) ?? 'bg-blue-100 border-blue-300 text-blue-700'
+                    : darkMode
+                      ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                      : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+                } ${selected ? 'font-semibold' : ''}`}
+              >
+                {value}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  const absoluteRange = filters.timeRange?.type === 'absolute' ? filters.timeRange : null;
+  const timeMode = filters.timeRange
+    ? filters.timeRange.type === 'relative' ? String(filters.timeRange.hours) : 'absolute'
+    : '';
 
   return (
-    <motion.div 
+    <motion.div
       initial={{ opacity: 0, y: -10 }}
       animate={{ opacity: 1, y: 0 }}
       className={`rounded-xl shadow-lg p-6 border transition-all duration-300 ${
-        darkMode 
-          ? 'bg-gray-800 border-gray-700' 
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
           : 'bg-white border-gray-100'
       }`}
     >
       {/* Search Bar */}
-      <div className="flex gap-3 mb-4">
-        <div className="flex-1 relative">
-          <Search className={`absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 ${
-            darkMode ? 'text-gray-400' : 'text-gray-400'
-          }`} />
-          <input
-            type="text"
-            placeholder="Search by location..."
-            value={searchTerm}
-            onChange={(e) => onSearchChange(e.target.value)}
-            className={`w-full pl-10 pr-4 py-3 rounded-lg border transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-              darkMode 
-                ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' 
-                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
-            }`}
+      <div className="flex items-start gap-3 mb-4">
+        <div className="flex-1">
+          <QueryInput
+            value={filters.search}
+            onChange={(search) => update({ search })}
+            options={options}
+            darkMode={darkMode}
           />
         </div>
         <motion.button
@@ -52,8 +152,8 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
           whileTap={{ scale: 0.98 }}
           onClick={() => setShowFilters(!showFilters)}
           className={`px-6 py-3 rounded-lg border transition-all duration-200 flex items-center gap-2 ${
-            showFilters 
-              ? 'bg-blue-100 border-blue-300 text-blue-700' 
+            showFilters
+              ? 'bg-blue-100 border-blue-300 text-blue-700'
               : darkMode
                 ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
                 : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
@@ -61,9 +161,56 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
         >
           <SlidersHorizontal className="w-4 h-4" />
           Filters
+          {chips.length > 0 && (
+            <span className="bg-blue-600 text-white text-xs font-bold px-2 py-0.5 rounded-full">
+              {chips.length}
+            </span>
+          )}
         </motion.button>
       </div>
 
+      {/* Active filter chips */}
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <AnimatePresence initial={false}>
+            {chips.map(chip => (
+              <motion.span
+                key={chip.key}
+                layout
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.8 }}
+                className={`flex items-center gap-1 pl-3 pr-1 py-1 text-xs rounded-full ${
+                  darkMode ? 'bg-blue-900/40 text-blue-200' : 'bg-blue-50 text-blue-700'
+                }`}
+              >
+                {chip.label}
+                <button
+                  type="button"
+                  onClick={() => onFiltersChange(clearFilter(filters, chip.key))}
+                  className="p-0.5 rounded-full hover:bg-blue-200/50"
+                  title="Remove filter"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </motion.span>
+            ))}
+          </AnimatePresence>
+          <button
+            type="button"
+            onClick={() => onFiltersChange(DEFAULT_FILTERS)}
+            className={`flex items-center gap-1 px-3 py-1 text-xs rounded-full border transition-all duration-200 ${
+              darkMode
+                ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+                : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            <RotateCcw className="w-3 h-3" />
+            Reset all
+          </button>
+        </div>
+      )}
+
       {/* Animated Filters */}
       <AnimatePresence>
         {showFilters && (
@@ -72,44 +219,79 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
             animate={{ opacity: 1, height: 'auto' }}
             exit={{ opacity: 0, height: 0 }}
             transition={{ duration: 0.3, ease: "easeInOut" }}
-            className={`border-t pt-4 ${
+            className={`border-t pt-4 space-y-4 ${
               darkMode ? 'border-gray-700' : 'border-gray-200'
             }`}
           >
-            <div className="flex items-center gap-4">
-              <Filter className={`w-4 h-4 ${
-                darkMode ? 'text-gray-400' : 'text-gray-500'
-              }`} />
-              <div className="flex items-center gap-3 flex-1">
-                <label htmlFor="minMagnitude" className={`text-sm whitespace-nowrap ${
-                  darkMode ? 'text-gray-300' : 'text-gray-600'
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {renderNumberInput('minMagnitude', 'Min magnitude', 'Any', '0.1')}
+              {renderNumberInput('maxMagnitude', 'Max magnitude', 'Any', '0.1')}
+              {renderNumberInput('minDepth', 'Min depth (km)', 'Any')}
+              {renderNumberInput('maxDepth', 'Max depth (km)', 'Any')}
+              {renderNumberInput('minSignificance', 'Min significance', 'Any', '1')}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="filter-time" className={labelClassName}>Time</label>
+                <select
+                  id="filter-time"
+                  value={timeMode}
+                  onChange={(e) => handleTimeModeChange(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Whole catalog</option>
+                  {RELATIVE_TIME_OPTIONS.map(option => (
+                    <option key={option.hours} value={option.hours}>{option.label}</option>
+                  ))}
+                  <option value="absolute">Between dates...</option>
+                </select>
+              </div>
+              {absoluteRange && (
+                <>
+                  <div>
+                    <label htmlFor="filter-start" className={labelClassName}>From</label>
+                    <input
+                      id="filter-start"
+                      type="datetime-local"
+                      value={absoluteRange.start ?? ''}
+                      onChange={(e) => setTimeRange({ ...absoluteRange, start: e.target.value || undefined })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="filter-end" className={labelClassName}>To</label>
+                    <input
+                      id="filter-end"
+                      type="datetime-local"
+                      value={absoluteRange.end ?? ''}
+                      onChange={(e) => setTimeRange({ ...absoluteRange, end: e.target.value || undefined })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderToggleGroup('alertLevels', 'PAGER alert level', PAGER_LEVELS, value => PAGER_COLORS[value as PagerLevel])}
+              {renderToggleGroup('statuses', 'Review status', options.statuses)}
+              {renderToggleGroup('eventTypes', 'Event type', options.eventTypes)}
+              {renderToggleGroup('magTypes', 'Magnitude type', options.magTypes)}
+              {renderToggleGroup('networks', 'Contributing network', options.networks)}
+              <div>
+                <span className={labelClassName}>Tsunami</span>
+                <label className={`flex items-center gap-2 text-sm ${
+                  darkMode ? 'text-gray-300' : 'text-gray-700'
                 }`}>
-                  Min Magnitude:
+                  <input
+                    type="checkbox"
+                    checked={filters.tsunamiOnly}
+                    onChange={(e) => update({ tsunamiOnly: e.target.checked })}
+                    className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+                  />
+                  Only events with the tsunami flag
                 </label>
-                <input
-                  id="minMagnitude"
-                  type="range"
-                  min="0"
-                  max="9"
-                  step="0.5"
-                  value={minMagnitude}
-                  onChange={(e) => onMinMagnitudeChange(parseFloat(e.target.value))}
-                  className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
-                />
-                <motion.span 
-                  key={minMagnitude}
-                  initial={{ scale: 1.2 }}
-                  animate={{ scale: 1 }}
-                  className={`text-sm font-bold min-w-8 px-2 py-1 rounded ${
-                    minMagnitude >= 5 
-                      ? 'bg-red-100 text-red-700' 
-                      : minMagnitude >= 3 
-                        ? 'bg-orange-100 text-orange-700'
-                        : 'bg-blue-100 text-blue-700'
-                  }`}
-                >
-                  {minMagnitude.toFixed(1)}
-                </motion.span>
               </div>
             </div>
           </motion.div>
@@ -117,4 +299,4 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
       </AnimatePresence>
     </motion.div>
   );
-};
\ No newline at end of file
+};
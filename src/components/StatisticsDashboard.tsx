@@ -0,0 +1,286 @@
+import React, { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { Earthquake } from '../types/earthquake';
+import { EarthquakeFilters, FilterKey } from '../types/filters';
+import { BrushSelection, NumericRange } from '../types/dashboard';
+import { createFilterMatcher, DEFAULT_FILTERS } from '../utils/filterUtils';
+import { formatDepth, formatMagnitude, getMaxMagnitude } from '../utils/earthquakeUtils';
+import {
+  applyDepthBrush,
+  applyMagnitudeBrush,
+  applyTimeBrush,
+  countCategories,
+  formatTimeTick,
+  getDepthHistogram,
+  getDepthSelection,
+  getEventRateSeries,
+  getMagnitudeHistogram,
+  getMagnitudeSelection,
+  getTimeSelection,
+  toggleFilterValue,
+  withoutFilters
+} from '../utils/dashboardUtils';
+import { AxisOptions, BreakdownChart, HistogramChart, ScatterChart } from './DashboardCharts';
+
+interface StatisticsDashboardProps {
+  // Events in the selected regions and radius, before the filters; each
+  // chart applies every filter except its own so its brush stays in context
+  earthquakes: Earthquake[];
+  filters: EarthquakeFilters;
+  onFiltersChange: (filters: EarthquakeFilters) => void;
+  darkMode?: boolean;
+}
+
+const MAGNITUDE_COLOR = '#f97316';
+const DEPTH_COLOR = '#8b5cf6';
+const RATE_COLOR = '#2563eb';
+const NETWORK_COLOR = '#10b981';
+const MAG_TYPE_COLOR = '#0ea5e9';
+
+const MAGNITUDE_AXIS: AxisOptions = { label: 'Magnitude', format: value => value.toFixed(1) };
+const DEPTH_AXIS: AxisOptions = { label: 'Depth (km)', format: value => String(Math.round(value)) };
+const TIME_AXIS: AxisOptions = { label: 'Origin time', format: formatTimeTick, time: true };
+
+// Criteria each brush controls, left out of the events that chart shows
+const MAGNITUDE_KEYS: FilterKey[] = ['minMagnitude'];
+const DEPTH_KEYS: FilterKey[] = ['minDepth'];
+const TIME_KEYS: FilterKey[] = ['timeRange'];
+
+const ChartCard: React.FC<{
+  title: string;
+  hint: string;
+  onClear?: () => void;
+  darkMode: boolean;
+  children: React.ReactNode;
+}> = ({ title, hint, onClear, darkMode, children }) => (
+  <div className={`rounded-xl shadow-lg p-4 border ${
+    darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+  }`}>
+    <div className="flex items-start justify-between gap-2 mb-2">
+      <div>
+        <h3 className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}>{title}</h3>
+        <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{hint}</p>
+      </div>
+      {onClear && (
+        <button
+          onClick={onClear}
+          className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors duration-200 ${
+            darkMode ? 'text-blue-300 hover:bg-gray-700' : 'text-blue-700 hover:bg-blue-50'
+          }`}
+        >
+          <X className="w-3 h-3" />
+          Clear
+        </button>
+      )}
+    </div>
+    {children}
+  </div>
+);
+
+/**
+ * Linked charts of the catalog. Brushing a range on a chart, or clicking a
+ * bar of a breakdown, sets the matching filter, so the map, list and table
+ * follow, and the other charts redraw with the narrowed events.
+ */
+export const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({
+  earthquakes,
+  filters,
+  onFiltersChange,
+  darkMode = false
+}) => {
+  const charts = useMemo(() => {
+    const now = Date.now();
+    const matching = (keys: FilterKey[]) => earthquakes.filter(createFilterMatcher(withoutFilters(filters, keys), now));
+    const toPoints = (events: Earthquake[], getY: (earthquake: Earthquake) => number | null) => events
+      .map(earthquake => ({ x: earthquake.properties.time, y: getY(earthquake) }))
+      .filter((point): point is { x: number; y: number } => point.y !== null);
+
+    const shown = matching([]);
+    const depths = shown.map(earthquake => earthquake.geometry.coordinates[2]).sort((a, b) => a - b);
+    return {
+      shown,
+      medianDepth: depths.length > 0 ? depths[Math.floor(depths.length / 2)] : null,
+      magnitudeBins: getMagnitudeHistogram(matching(MAGNITUDE_KEYS)),
+      depthBins: getDepthHistogram(matching(DEPTH_KEYS)),
+      rate: getEventRateSeries(matching(TIME_KEYS)),
+      magnitudePoints: toPoints(matching([...MAGNITUDE_KEYS, ...TIME_KEYS]), earthquake => earthquake.properties.mag),
+      depthPoints: toPoints(matching([...DEPTH_KEYS, ...TIME_KEYS]), earthquake => earthquake.geometry.coordinates[2]),
+      networks: countCategories(matching(['networks']).map(earthquake => earthquake.properties.net)),
+      magTypes: countCategories(matching(['magTypes']).map(earthquake => earthquake.properties.magType)),
+      now
+    };
+  }, [earthquakes, filters]);
+
+  const magnitudeSelection = getMagnitudeSelection(filters);
+  const depthSelection = getDepthSelection(filters);
+  const timeSelection = getTimeSelection(filters, charts.now);
+
+  const brushTimeAnd = (
+    apply: (filters: EarthquakeFilters, range: NumericRange | null) => EarthquakeFilters
+  ) => (selection: BrushSelection | null) => {
+    onFiltersChange(applyTimeBrush(apply(filters, selection?.y ?? null), selection?.x ?? null));
+  };
+
+  const brushedCount = [magnitudeSelection, depthSelection, timeSelection].filter(Boolean).length
+    + (filters.networks.length > 0 ? 1 : 0)
+    + (filters.magTypes.length > 0 ? 1 : 0);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const statValueClassName = `text-2xl font-bold tabular-nums ${darkMode ? 'text-white' : 'text-gray-900'}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className={`rounded-xl shadow-lg p-4 border flex flex-wrap items-center justify-between gap-4 ${
+        darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+      }`}>
+        <div className="flex flex-wrap gap-8">
+          <div>
+            <div className={statValueClassName}>{charts.shown.length.toLocaleString()}</div>
+            <div className={`text-xs ${mutedText}`}>of {earthquakes.length.toLocaleString()} events selected</div>
+          </div>
+          <div>
+            <div className={statValueClassName}>{formatMagnitude(getMaxMagnitude(charts.shown))}</div>
+            <div className={`text-xs ${mutedText}`}>Highest magnitude</div>
+          </div>
+          <div>
+            <div className={statValueClassName}>{charts.medianDepth === null ? '—' : formatDepth(charts.medianDepth)}</div>
+            <div className={`text-xs ${mutedText}`}>Median depth</div>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className={`text-xs ${mutedText}`}>Drag on a chart to filter, click to clear</span>
+          {brushedCount > 0 && (
+            <button
+              onClick={() => onFiltersChange({
+                ...withoutFilters(filters, [...MAGNITUDE_KEYS, ...DEPTH_KEYS, ...TIME_KEYS]),
+                networks: DEFAULT_FILTERS.networks,
+                magTypes: DEFAULT_FILTERS.magTypes
+              })}
+              className="px-3 py-1.5 text-sm rounded-lg bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-md"
+            >
+              Clear all selections
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartCard
+          title="Magnitude"
+          hint="Events per magnitude bin"
+          onClear={magnitudeSelection ? () => onFiltersChange(applyMagnitudeBrush(filters, null)) : undefined}
+          darkMode={darkMode}
+        >
+          <HistogramChart
+            bins={charts.magnitudeBins}
+            selection={magnitudeSelection}
+            onBrush={(range) => onFiltersChange(applyMagnitudeBrush(filters, range))}
+            x={MAGNITUDE_AXIS}
+            yLabel="Events"
+            color={MAGNITUDE_COLOR}
+            darkMode={darkMode}
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="Depth"
+          hint="Events per depth bin"
+          onClear={depthSelection ? () => onFiltersChange(applyDepthBrush(filters, null)) : undefined}
+          darkMode={darkMode}
+        >
+          <HistogramChart
+            bins={charts.depthBins}
+            selection={depthSelection}
+            onBrush={(range) => onFiltersChange(applyDepthBrush(filters, range))}
+            x={DEPTH_AXIS}
+            yLabel="Events"
+            color={DEPTH_COLOR}
+            darkMode={darkMode}
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="Event Rate"
+          hint={`Events per ${charts.rate.intervalLabel}`}
+          onClear={timeSelection ? () => onFiltersChange(applyTimeBrush(filters, null)) : undefined}
+          darkMode={darkMode}
+        >
+          <HistogramChart
+            bins={charts.rate.bins}
+            selection={timeSelection}
+            onBrush={(range) => onFiltersChange(applyTimeBrush(filters, range))}
+            x={TIME_AXIS}
+            yLabel={`Events per ${charts.rate.intervalLabel}`}
+            color={RATE_COLOR}
+            darkMode={darkMode}
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="Magnitude over Time"
+          hint="Drag a box to filter by time and magnitude"
+          onClear={magnitudeSelection || timeSelection ? () => brushTimeAnd(applyMagnitudeBrush)(null) : undefined}
+          darkMode={darkMode}
+        >
+          <ScatterChart
+            points={charts.magnitudePoints}
+            selection={{ x: timeSelection, y: magnitudeSelection }}
+            onBrush={brushTimeAnd(applyMagnitudeBrush)}
+            x={TIME_AXIS}
+            y={MAGNITUDE_AXIS}
+            color={MAGNITUDE_COLOR}
+            darkMode={darkMode}
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="Depth over Time"
+          hint="Drag a box to filter by time and depth"
+          onClear={depthSelection || timeSelection ? () => brushTimeAnd(applyDepthBrush)(null) : undefined}
+          darkMode={darkMode}
+        >
+          <ScatterChart
+            points={charts.depthPoints}
+            selection={{ x: timeSelection, y: depthSelection }}
+            onBrush={brushTimeAnd(applyDepthBrush)}
+            x={TIME_AXIS}
+            y={{ ...DEPTH_AXIS, inverted: true }}
+            color={DEPTH_COLOR}
+            darkMode={darkMode}
+          />
+        </ChartCard>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <ChartCard
+            title="Network"
+            hint="Click to filter"
+            onClear={filters.networks.length > 0 ? () => onFiltersChange({ ...filters, networks: [] }) : undefined}
+            darkMode={darkMode}
+          >
+            <BreakdownChart
+              categories={charts.networks}
+              selected={filters.networks}
+              onToggle={(value) => onFiltersChange(toggleFilterValue(filters, 'networks', value))}
+              color={NETWORK_COLOR}
+              darkMode={darkMode}
+            />
+          </ChartCard>
+          <ChartCard
+            title="Magnitude Type"
+            hint="Click to filter"
+            onClear={filters.magTypes.length > 0 ? () => onFiltersChange({ ...filters, magTypes: [] }) : undefined}
+            darkMode={darkMode}
+          >
+            <BreakdownChart
+              categories={charts.magTypes}
+              selected={filters.magTypes}
+              onToggle={(value) => onFiltersChange(toggleFilterValue(filters, 'magTypes', value))}
+              color={MAG_TYPE_COLOR}
+              darkMode={darkMode}
+            />
+          </ChartCard>
+        </div>
+      </div>
+    </div>
+  );
+};
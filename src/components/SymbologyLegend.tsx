@@ -0,0 +1,86 @@
+import React from 'react';
+import { ColorEncoding, SizeEncoding, SymbologySettings } from '../types/symbology';
+import { COLOR_ENCODINGS, COLOR_SCALES, SIZE_ENCODINGS, SIZE_SCALES } from '../utils/symbologyUtils';
+
+interface SymbologyLegendProps {
+  settings: SymbologySettings;
+  onChange?: (settings: SymbologySettings) => void;
+}
+
+// Legend circles are drawn at half the marker size
+const LEGEND_SCALE = 0.5;
+
+/**
+ * Map legend for the marker encodings, with the selectors that change
+ * them. Classes and sizes are read from the same scales the markers use.
+ */
+export const SymbologyLegend: React.FC<SymbologyLegendProps> = ({ settings, onChange }) => {
+  const colorScale = COLOR_SCALES[settings.color];
+  const sizeScale = SIZE_SCALES[settings.size];
+  const selectClassName = 'px-1 py-0.5 rounded border border-gray-300 bg-white';
+
+  return (
+    <div className="px-3 py-2 rounded-lg bg-white bg-opacity-90 shadow-lg text-xs text-gray-700 space-y-2">
+      <div>
+        <label className="flex items-center justify-between gap-2 mb-1 font-semibold text-gray-900">
+          Color by
+          {onChange ? (
+            <select
+              value={settings.color}
+              onChange={(e) => onChange({ ...settings, color: e.target.value as ColorEncoding })}
+              className={`${selectClassName} font-normal`}
+            >
+              {COLOR_ENCODINGS.map(encoding => (
+                <option key={encoding} value={encoding}>{COLOR_SCALES[encoding].label}</option>
+              ))}
+            </select>
+          ) : (
+            <span className="font-normal">{colorScale.label}</span>
+          )}
+        </label>
+        <ul className="space-y-0.5">
+          {colorScale.classes.map(symbolClass => (
+            <li key={symbolClass.key} className="flex items-center gap-2">
+              <span
+                className="w-3 h-3 rounded-full flex-shrink-0"
+                style={{ background: symbolClass.colors.bg, border: `2px solid ${symbolClass.colors.border}` }}
+              />
+              <span className="text-gray-900">{symbolClass.label}</span>
+              <span className="ml-auto pl-2 text-gray-500">{symbolClass.range}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <label className="flex items-center justify-between gap-2 mb-1 font-semibold text-gray-900">
+          Size by
+          {onChange ? (
+            <select
+              value={settings.size}
+              onChange={(e) => onChange({ ...settings, size: e.target.value as SizeEncoding })}
+              className={`${selectClassName} font-normal`}
+            >
+              {SIZE_ENCODINGS.map(encoding => (
+                <option key={encoding} value={encoding}>{SIZE_SCALES[encoding].label}</option>
+              ))}
+            </select>
+          ) : (
+            <span className="font-normal">{sizeScale.label}</span>
+          )}
+        </label>
+        <div className="flex items-end gap-3">
+          {sizeScale.legend.map(({ label, size }) => (
+            <div key={label} className="flex flex-col items-center gap-0.5">
+              <span
+                className="rounded-full border-2 border-gray-500 bg-gray-300"
+                style={{ width: size * LEGEND_SCALE, height: size * LEGEND_SCALE }}
+              />
+              <span className="text-gray-500">{label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw, X } from 'lucide-react';
+import { PlaybackRange, TimelapseSettings } from '../types/timelapse';
+import { formatDateTime } from '../utils/dateUtils';
+import { PLAYBACK_SPEEDS, PLAYBACK_WINDOWS } from '../utils/timelapseUtils';
+
+interface TimelapseControlProps {
+  range: PlaybackRange;
+  // Playback time, or null while the map shows every event
+  time: number | null;
+  onTimeChange: (time: number | null) => void;
+  settings: TimelapseSettings;
+  onSettingsChange?: (settings: TimelapseSettings) => void;
+  // Events on the map at the playback time
+  visibleCount: number;
+}
+
+// Positions along the scrubber, however long the range is
+const SCRUBBER_STEPS = 1000;
+
+/**
+ * Timeline under the map that replays the loaded events in origin-time
+ * order. Playback advances by the chosen simulated time per second and
+ * stops at the last event; dragging the scrubber moves it by hand.
+ */
+export const TimelapseControl: React.FC<TimelapseControlProps> = ({
+  range,
+  time,
+  onTimeChange,
+  settings,
+  onSettingsChange,
+  visibleCount
+}) => {
+  const [playing, setPlaying] = useState(false);
+  const span = range.end - range.start;
+  // Read by the animation loop, which runs across renders
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  useEffect(() => {
+    if (time === null) setPlaying(false);
+  }, [time]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame: number;
+    let last = performance.now();
+
+    const step = (now: number) => {
+      const next = Math.min(range.end, (timeRef.current ?? range.start) + Math.max(0, now - last) * settings.speed);
+      last = now;
+      onTimeChange(next);
+      if (next >= range.end) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, range.start, range.end, settings.speed, onTimeChange]);
+
+  const togglePlaying = () => {
+    if (!playing && (time === null || time >= range.end)) {
+      onTimeChange(range.start);
+    }
+    setPlaying(!playing);
+  };
+
+  const position = time === null || span === 0
+    ? SCRUBBER_STEPS
+    : Math.round(((time - range.start) / span) * SCRUBBER_STEPS);
+  const selectClassName = 'px-1 py-0.5 rounded border border-gray-300 bg-white';
+
+  return (
+    <div className="px-4 py-3 bg-white border-t border-gray-200 text-xs text-gray-700">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlaying}
+          disabled={span === 0}
+          className="flex items-center justify-center w-8 h-8 rounded-full bg-blue-600 text-white hover:bg-blue-700 transition-colors duration-200 disabled:opacity-40 flex-shrink-0"
+          aria-label={playing ? 'Pause playback' : 'Play back events in time order'}
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={SCRUBBER_STEPS}
+          value={position}
+          disabled={span === 0}
+          onChange={(e) => onTimeChange(range.start + (Number(e.target.value) / SCRUBBER_STEPS) * span)}
+          className="flex-1 accent-blue-600"
+          aria-label="Playback time"
+          aria-valuetext={time === null ? 'All events' : formatDateTime(time)}
+        />
+        {time !== null && (
+          <>
+            <button
+              onClick={() => {
+                setPlaying(false);
+                onTimeChange(range.start);
+              }}
+              className="p-1 rounded text-gray-500 hover:bg-gray-100 transition-colors duration-200"
+              aria-label="Back to the first event"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onTimeChange(null)}
+              className="p-1 rounded text-gray-500 hover:bg-gray-100 transition-colors duration-200"
+              aria-label="Stop playback and show all events"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-x-4 gap-y-2 mt-2">
+        <div className="tabular-nums">
+          {time === null ? (
+            <span className="text-gray-500">
+              {formatDateTime(range.start)} – {formatDateTime(range.end)} · press play to replay
+            </span>
+          ) : (
+            <>
+              <span className="font-semibold text-gray-900">{formatDateTime(time)}</span>
+              <span className="text-gray-500"> · {visibleCount} events in window</span>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1">
+            Speed
+            <select
+              value={settings.speed}
+              onChange={(e) => onSettingsChange?.({ ...settings, speed: Number(e.target.value) })}
+              disabled={!onSettingsChange}
+              className={selectClassName}
+            >
+              {PLAYBACK_SPEEDS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1" title="How long events stay on the map after they occur">
+            Show last
+            <select
+              value={settings.windowMs}
+              onChange={(e) => onSettingsChange?.({ ...settings, windowMs: Number(e.target.value) })}
+              disabled={!onSettingsChange}
+              className={selectClassName}
+            >
+              {PLAYBACK_WINDOWS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Earthquake, EarthquakeHighlight } from '../types/earthquake';
+import { ReferencePoint } from '../types/reference';
+import { SymbologySettings } from '../types/symbology';
+import { findRowAt, getColumnCount, getRowOffsets, GRID_GAP } from '../utils/virtualGridUtils';
+import { formatMagnitude } from '../utils/earthquakeUtils';
+import { EarthquakeCard } from './EarthquakeCard';
+
+interface VirtualCardGridProps {
+  earthquakes: Earthquake[];
+  onSelect: (earthquake: Earthquake) => void;
+  darkMode?: boolean;
+  highlights?: Map<string, EarthquakeHighlight>;
+  referencePoint?: ReferencePoint | null;
+  symbology?: SymbologySettings;
+}
+
+const ESTIMATED_ROW_HEIGHT = 250;
+// Rendered beyond the viewport so fast scrolling doesn't show blank space
+const OVERSCAN_PX = 800;
+// Room left above or below a card scrolled into view by the keyboard
+const SCROLL_MARGIN = 16;
+
+interface Viewport {
+  top: number; // window scroll position relative to the top of the grid
+  height: number;
+}
+
+/**
+ * Card grid that renders only the rows near the viewport, positioned inside
+ * a container as tall as the whole list so the page scrollbar stays true.
+ * Rows are measured after rendering, as cards differ in height.
+ */
+export const VirtualCardGrid: React.FC<VirtualCardGridProps> = ({
+  earthquakes,
+  onSelect,
+  darkMode = false,
+  highlights,
+  referencePoint = null,
+  symbology
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef(new Map<number, HTMLDivElement>());
+  const cardRefs = useRef(new Map<number, HTMLDivElement>());
+  const [columns, setColumns] = useState(() => getColumnCount(window.innerWidth));
+  const [viewport, setViewport] = useState<Viewport>({ top: 0, height: window.innerHeight });
+  // Measured heights, which only hold for the column count they were taken at
+  const [measurements, setMeasurements] = useState(() => ({ columns, heights: new Map<number, number>() }));
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // First visible event and its distance from the top of the window
+  const anchorRef = useRef<{ id: string; offset: number } | null>(null);
+  const focusPendingRef = useRef(false);
+  // Layout as of the latest render, for the anchor effect below, which only
+  // a change of events should run
+  const layoutRef = useRef({ offsets: [] as number[], columns, viewportTop: 0 });
+
+  const rowCount = Math.ceil(earthquakes.length / columns);
+  const rowHeights = useMemo(
+    () => (measurements.columns === columns ? measurements.heights : new Map<number, number>()),
+    [measurements, columns]
+  );
+  const offsets = useMemo(
+    () => getRowOffsets(rowCount, rowHeights, ESTIMATED_ROW_HEIGHT),
+    [rowCount, rowHeights]
+  );
+  const firstRow = findRowAt(offsets, viewport.top - OVERSCAN_PX);
+  const lastRow = Math.min(rowCount - 1, findRowAt(offsets, viewport.top + viewport.height + OVERSCAN_PX));
+
+  // Follows the event rather than the position, so refreshes keep it
+  const activeIndex = useMemo(() => {
+    const index = activeId ? earthquakes.findIndex(earthquake => earthquake.id === activeId) : -1;
+    return Math.max(0, index);
+  }, [earthquakes, activeId]);
+  const activeRendered = activeIndex >= firstRow * columns && activeIndex < (lastRow + 1) * columns;
+  const tabbableIndex = activeRendered ? activeIndex : firstRow * columns;
+
+  useEffect(() => {
+    let frame: number | null = null;
+    const update = () => {
+      frame = null;
+      if (!containerRef.current) return;
+      const top = -containerRef.current.getBoundingClientRect().top;
+      const height = window.innerHeight;
+      setViewport(current => (current.top === top && current.height === height ? current : { top, height }));
+      setColumns(getColumnCount(window.innerWidth));
+    };
+    const scheduleUpdate = () => {
+      if (frame === null) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+    };
+  }, []);
+
+  useLayoutEffect(() => {
+    layoutRef.current = { offsets, columns, viewportTop: viewport.top };
+  }, [offsets, columns, viewport.top]);
+
+  // Keeps the first visible event in place when a refresh adds events
+  // above it. Left alone at the top of the list, so new events show.
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    const layout = layoutRef.current;
+    if (!anchor || layout.viewportTop <= 0) return;
+    const index = earthquakes.findIndex(earthquake => earthquake.id === anchor.id);
+    if (index < 0) return;
+    const shift = layout.offsets[Math.floor(index / layout.columns)] - layout.viewportTop - anchor.offset;
+    if (shift !== 0) window.scrollBy(0, shift);
+  }, [earthquakes]);
+
+  // Measures the rendered rows and records the anchor for the next refresh
+  useLayoutEffect(() => {
+    let changed = false;
+    const measured = new Map(rowHeights);
+    rowRefs.current.forEach((element, row) => {
+      const height = element.offsetHeight;
+      if (height > 0 && measured.get(row) !== height) {
+        measured.set(row, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasurements({ columns, heights: measured });
+
+    const visibleRow = findRowAt(offsets, Math.max(0, viewport.top));
+    const anchor = earthquakes[visibleRow * columns];
+    anchorRef.current = anchor ? { id: anchor.id, offset: offsets[visibleRow] - viewport.top } : null;
+  }, [earthquakes, columns, rowHeights, offsets, viewport.top, highlights, referencePoint, symbology]);
+
+  useEffect(() => {
+    if (!focusPendingRef.current) return;
+    const card = cardRefs.current.get(activeIndex);
+    if (card) {
+      card.focus({ preventScroll: true });
+      focusPendingRef.current = false;
+    }
+  });
+
+  const focusCard = (index: number) => {
+    const row = Math.floor(index / columns);
+    const container = containerRef.current;
+    if (container) {
+      const gridTop = container.getBoundingClientRect().top + window.scrollY;
+      const rowBottom = offsets[row + 1] - (row < rowCount - 1 ? GRID_GAP : 0);
+      if (offsets[row] < viewport.top + SCROLL_MARGIN) {
+        window.scrollTo({ top: gridTop + offsets[row] - SCROLL_MARGIN });
+      } else if (rowBottom > viewport.top + viewport.height - SCROLL_MARGIN) {
+        window.scrollTo({ top: gridTop + rowBottom - viewport.height + SCROLL_MARGIN });
+      }
+    }
+    focusPendingRef.current = true;
+    setActiveId(earthquakes[index].id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const rowsPerPage = Math.max(1, Math.floor(viewport.height / (ESTIMATED_ROW_HEIGHT + GRID_GAP)));
+    const steps: Record<string, number> = {
+      ArrowRight: 1,
+      ArrowLeft: -1,
+      ArrowDown: columns,
+      ArrowUp: -columns,
+      PageDown: columns * rowsPerPage,
+      PageUp: -columns * rowsPerPage
+    };
+    let next: number | null = null;
+
+    if (e.key in steps) {
+      next = Math.min(earthquakes.length - 1, Math.max(0, tabbableIndex + steps[e.key]));
+    } else if (e.key === 'Home') {
+      next = 0;
+    } else if (e.key === 'End') {
+      next = earthquakes.length - 1;
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onSelect(earthquakes[tabbableIndex]);
+      return;
+    }
+
+    if (next !== null) {
+      e.preventDefault();
+      focusCard(next);
+    }
+  };
+
+  const rows: number[] = [];
+  for (let row = firstRow; row <= lastRow; row++) rows.push(row);
+
+  return (
+    <div
+      ref={containerRef}
+      role="grid"
+      aria-label="Earthquakes"
+      aria-rowcount={rowCount}
+      aria-colcount={columns}
+      onKeyDown={handleKeyDown}
+      className="relative"
+      style={{ height: offsets[rowCount] }}
+    >
+      {rows.map(row => (
+        <div
+          key={row}
+          ref={(element) => {
+            if (element) {
+              rowRefs.current.set(row, element);
+            } else {
+              rowRefs.current.delete(row);
+            }
+          }}
+          role="row"
+          aria-rowindex={row + 1}
+          className="absolute left-0 right-0 grid gap-6"
+          style={{ top: offsets[row], gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+        >
+          {earthquakes.slice(row * columns, (row + 1) * columns).map((earthquake, column) => {
+            const index = row * columns + column;
+            return (
+              <div
+                key={earthquake.id}
+                ref={(element) => {
+                  if (element) {
+                    cardRefs.current.set(index, element);
+                  } else {
+                    cardRefs.current.delete(index);
+                  }
+                }}
+                role="gridcell"
+                tabIndex={index === tabbableIndex ? 0 : -1}
+                aria-label={`M ${formatMagnitude(earthquake.properties.mag)}, ${earthquake.properties.place || 'Unknown Location'}`}
+                onFocus={() => setActiveId(earthquake.id)}
+                className={`rounded-xl focus:outline-none focus-visible:ring-4 ${
+                  darkMode ? 'focus-visible:ring-blue-400' : 'focus-visible:ring-blue-500'
+                }`}
+              >
+                <EarthquakeCard
+                  earthquake={earthquake}
+                  onClick={() => onSelect(earthquake)}
+                  darkMode={darkMode}
+                  highlight={highlights?.get(earthquake.id)}
+                  referencePoint={referencePoint}
+                  symbology={symbology}
+                />
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
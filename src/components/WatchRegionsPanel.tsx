@@ -0,0 +1,284 @@
+import React, { useRef, useState } from 'react';
+import { MapPinned, Hexagon, Circle, Download, Upload, Pencil, Trash2, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Earthquake } from '../types/earthquake';
+import { RegionDrawMode, RegionStats, WatchRegion } from '../types/region';
+import { parseRegionsGeoJSON, regionsToGeoJSON } from '../utils/regionUtils';
+import { formatMagnitude } from '../utils/earthquakeUtils';
+import { getTimeAgo } from '../utils/dateUtils';
+
+interface WatchRegionsPanelProps {
+  regions: WatchRegion[];
+  stats: Map<string, RegionStats>;
+  activeRegionIds: string[];
+  onToggleFilter: (id: string) => void;
+  drawMode: RegionDrawMode | null;
+  onDrawModeChange: (mode: RegionDrawMode | null) => void;
+  editingRegionId: string | null;
+  onEditRegion: (id: string | null) => void;
+  onRenameRegion: (id: string, name: string) => void;
+  onRemoveRegion: (id: string) => void;
+  onImportRegions: (regions: WatchRegion[]) => void;
+  onSelectEarthquake: (earthquake: Earthquake) => void;
+  darkMode?: boolean;
+}
+
+// Renames are applied on blur/Enter rather than every keystroke
+const RegionNameInput: React.FC<{
+  value: string;
+  onCommit: (name: string) => void;
+  darkMode: boolean;
+}> = ({ value, onCommit, darkMode }) => {
+  const [draft, setDraft] = useState(value);
+  const commit = () => {
+    const name = draft.trim();
+    if (name && name !== value) onCommit(name);
+    else setDraft(value);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      aria-label="Region name"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      className={`w-full px-2 py-1 text-sm font-medium rounded border border-transparent bg-transparent hover:border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+        darkMode ? 'text-white' : 'text-gray-800'
+      }`}
+    />
+  );
+};
+
+export const WatchRegionsPanel: React.FC<WatchRegionsPanelProps> = ({
+  regions,
+  stats,
+  activeRegionIds,
+  onToggleFilter,
+  drawMode,
+  onDrawModeChange,
+  editingRegionId,
+  onEditRegion,
+  onRenameRegion,
+  onRemoveRegion,
+  onImportRegions,
+  onSelectEarthquake,
+  darkMode = false
+}) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onImportRegions(parseRegionsGeoJSON(JSON.parse(await file.text()), regions));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import regions');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(regionsToGeoJSON(regions), null, 2)], { type: 'application/geo+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'watch-regions.geojson';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClassName = `flex items-center gap-1 px-3 py-2 text-sm rounded-lg border disabled:opacity-50 ${
+    darkMode
+      ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+      : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+  }`;
+
+  const drawButtonClassName = (mode: RegionDrawMode) => `flex items-center gap-1 px-3 py-2 text-sm rounded-lg border ${
+    drawMode === mode
+      ? 'bg-blue-100 border-blue-300 text-blue-700'
+      : darkMode
+        ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+        : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+  }`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`rounded-xl shadow-lg p-6 border transition-all duration-300 ${
+        darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-100'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <MapPinned className={`w-4 h-4 ${
+            darkMode ? 'text-gray-400' : 'text-gray-500'
+          }`} />
+          <h3 className={`font-semibold ${
+            darkMode ? 'text-white' : 'text-gray-800'
+          }`}>
+            Watch Regions
+          </h3>
+          {activeRegionIds.length > 0 && (
+            <span className="text-xs px-2 py-1 rounded-full bg-purple-100 text-purple-700 font-medium">
+              Filtering by {activeRegionIds.length}
+            </span>
+          )}
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => setShowPanel(!showPanel)}
+          className={`px-4 py-2 text-sm rounded-lg border transition-all duration-200 ${
+            showPanel
+              ? 'bg-blue-100 border-blue-300 text-blue-700'
+              : darkMode
+                ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-50 border-gray-300 text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {showPanel ? 'Hide' : `${regions.length} regions`}
+        </motion.button>
+      </div>
+
+      <AnimatePresence>
+        {showPanel && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3, ease: "easeInOut" }}
+            className={`mt-4 border-t pt-4 space-y-4 ${
+              darkMode ? 'border-gray-700' : 'border-gray-200'
+            }`}
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() => onDrawModeChange(drawMode === 'polygon' ? null : 'polygon')}
+                className={drawButtonClassName('polygon')}
+              >
+                <Hexagon className="w-4 h-4" />
+                Draw polygon
+              </button>
+              <button
+                type="button"
+                onClick={() => onDrawModeChange(drawMode === 'circle' ? null : 'circle')}
+                className={drawButtonClassName('circle')}
+              >
+                <Circle className="w-4 h-4" />
+                Draw circle
+              </button>
+              <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+                <Upload className="w-4 h-4" />
+                Import
+              </button>
+              <button type="button" onClick={handleExport} disabled={regions.length === 0} className={buttonClassName}>
+                <Download className="w-4 h-4" />
+                Export
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".geojson,.json,application/geo+json,application/json"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+
+            {importError && (
+              <p className="text-sm text-red-600">{importError}</p>
+            )}
+
+            {regions.length === 0 && (
+              <p className={`text-sm ${
+                darkMode ? 'text-gray-400' : 'text-gray-500'
+              }`}>
+                Draw a region on the map or import a GeoJSON file of polygons. Circles are exported as points with a radiusKm property.
+              </p>
+            )}
+
+            {regions.map(region => {
+              const regionStats = stats.get(region.id);
+              const latest = regionStats?.latest;
+              const isEditing = editingRegionId === region.id;
+
+              return (
+                <div
+                  key={region.id}
+                  className={`rounded-lg p-3 border-l-4 ${
+                    darkMode ? 'bg-gray-700' : 'bg-gray-50'
+                  }`}
+                  style={{ borderLeftColor: region.color }}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={activeRegionIds.includes(region.id)}
+                      onChange={() => onToggleFilter(region.id)}
+                      title="Only show events in this region"
+                      className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <RegionNameInput
+                        value={region.name}
+                        onCommit={(name) => onRenameRegion(region.id, name)}
+                        darkMode={darkMode}
+                      />
+                    </div>
+                    <span className={`text-xs px-2 py-1 rounded-full ${
+                      darkMode ? 'bg-gray-800 text-gray-300' : 'bg-white text-gray-600'
+                    }`}>
+                      {regionStats?.count ?? 0} events
+                    </span>
+                    <button
+                      type="button"
+                      aria-label={isEditing ? 'Finish editing' : 'Edit shape'}
+                      onClick={() => onEditRegion(isEditing ? null : region.id)}
+                      className={`p-2 rounded-lg ${
+                        isEditing
+                          ? 'bg-blue-100 text-blue-700'
+                          : darkMode ? 'text-gray-300 hover:bg-gray-600' : 'text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {isEditing ? <X className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                    </button>
+                    <button
+                      type="button"
+                      aria-label="Delete region"
+                      onClick={() => onRemoveRegion(region.id)}
+                      className="p-2 rounded-lg text-red-600 hover:bg-red-100"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {latest && (
+                    <button
+                      type="button"
+                      onClick={() => onSelectEarthquake(latest)}
+                      className={`mt-1 ml-6 text-left text-xs hover:underline ${
+                        darkMode ? 'text-gray-400' : 'text-gray-500'
+                      }`}
+                    >
+                      Latest: M {formatMagnitude(latest.properties.mag)} {latest.properties.place ?? 'Unknown location'} · {getTimeAgo(latest.properties.time)}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
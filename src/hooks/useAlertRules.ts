@@ -0,0 +1,33 @@
+import { useCallback } from 'react';
+import { AlertRule } from '../types/alert';
+import { createAlertRule } from '../utils/alertUtils';
+import { usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:alert-rules';
+
+const normalizeAlertRules = (stored: unknown): AlertRule[] => (Array.isArray(stored) ? stored : []);
+
+export const useAlertRules = () => {
+  const [rules, setRules] = usePersistentState<AlertRule[]>(STORAGE_KEY, [], normalizeAlertRules);
+
+  const addRule = useCallback((): AlertRule => {
+    const rule = createAlertRule();
+    setRules(current => [...current, rule]);
+    return rule;
+  }, [setRules]);
+
+  const updateRule = useCallback((rule: AlertRule) => {
+    setRules(current => current.map(existing => (existing.id === rule.id ? rule : existing)));
+  }, [setRules]);
+
+  const removeRule = useCallback((id: string) => {
+    setRules(current => current.filter(rule => rule.id !== id));
+  }, [setRules]);
+
+  return {
+    rules,
+    addRule,
+    updateRule,
+    removeRule
+  };
+};
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AlertNotification, AlertRule, AlertState } from '../types/alert';
+import { Earthquake, EarthquakeDiff } from '../types/earthquake';
+import { EMPTY_ALERT_STATE, evaluateAlertRules, formatAlertTitle } from '../utils/alertUtils';
+import { usePersistentState } from './usePersistentState';
+
+const STATE_STORAGE_KEY = 'earthquake-monitor:alert-state';
+const MAX_TOASTS = 5;
+
+type NotificationSupport = NotificationPermission | 'unsupported';
+
+const getNotificationSupport = (): NotificationSupport => {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+};
+
+export const useAlerts = (
+  rules: AlertRule[],
+  earthquakes: Earthquake[],
+  diff: EarthquakeDiff,
+  // Called when a browser notification is clicked
+  onSelect?: (earthquake: Earthquake) => void
+) => {
+  const [toasts, setToasts] = useState<AlertNotification[]>([]);
+  const [permission, setPermission] = useState<NotificationSupport>(getNotificationSupport);
+  const [alertState, setAlertState] = usePersistentState<AlertState>(STATE_STORAGE_KEY, EMPTY_ALERT_STATE);
+  // Read and replaced synchronously per diff, the persisted copy follows
+  const alertStateRef = useRef(alertState);
+  const onSelectRef = useRef(onSelect);
+  // Only a new diff means new events, rules and catalog are read as of then
+  const rulesRef = useRef(rules);
+  const earthquakesRef = useRef(earthquakes);
+
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  }, [onSelect]);
+
+  // Declared before the diff effect, so it sees the catalog of the same render
+  useEffect(() => {
+    rulesRef.current = rules;
+    earthquakesRef.current = earthquakes;
+  }, [rules, earthquakes]);
+
+  const showBrowserNotification = useCallback((notification: AlertNotification) => {
+    if (getNotificationSupport() !== 'granted') return;
+
+    const { earthquake, rule } = notification;
+    const title = formatAlertTitle(notification);
+    const options: NotificationOptions = {
+      body: `Matched rule "${rule.name}"`,
+      icon: `${import.meta.env.BASE_URL}icon.svg`,
+      // Replaces rather than stacks a notification for the same event
+      tag: earthquake.id
+    };
+
+    try {
+      const browserNotification = new Notification(title, options);
+      browserNotification.onclick = () => {
+        window.focus();
+        onSelectRef.current?.(earthquake);
+        browserNotification.close();
+      };
+    } catch {
+      // Mobile browsers only allow notifications through the service worker
+      navigator.serviceWorker?.ready
+        .then(registration => registration.showNotification(title, options))
+        .catch(err => console.warn('Failed to show notification:', err));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (diff.timestamp === 0) return;
+
+    const arrivedIds = new Set([...diff.added, ...diff.updated]);
+    if (arrivedIds.size === 0) return;
+
+    const { notifications, state } = evaluateAlertRules(
+      earthquakesRef.current.filter(earthquake => arrivedIds.has(earthquake.id)),
+      rulesRef.current,
+      alertStateRef.current
+    );
+    alertStateRef.current = state;
+    setAlertState(state);
+
+    if (notifications.length === 0) return;
+    notifications.forEach(showBrowserNotification);
+    setToasts(current => [...notifications, ...current].slice(0, MAX_TOASTS));
+  }, [diff, showBrowserNotification, setAlertState]);
+
+  const requestPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(current => current.filter(toast => toast.id !== id));
+  }, []);
+
+  return {
+    toasts,
+    dismissToast,
+    permission,
+    requestPermission
+  };
+};
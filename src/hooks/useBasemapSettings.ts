@@ -0,0 +1,11 @@
+import { BasemapSettings } from '../types/tiles';
+import { DEFAULT_BASEMAP_SETTINGS } from '../utils/tileUtils';
+import { usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:basemap';
+
+export const useBasemapSettings = () => {
+  const [settings, setSettings] = usePersistentState<BasemapSettings>(STORAGE_KEY, DEFAULT_BASEMAP_SETTINGS);
+
+  return { settings, setSettings };
+};
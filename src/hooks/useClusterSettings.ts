@@ -0,0 +1,11 @@
+import { ClusterSettings } from '../types/cluster';
+import { DEFAULT_CLUSTER_SETTINGS } from '../utils/clusterUtils';
+import { usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:cluster-settings';
+
+export const useClusterSettings = () => {
+  const [settings, setSettings] = usePersistentState<ClusterSettings>(STORAGE_KEY, DEFAULT_CLUSTER_SETTINGS);
+
+  return { settings, setSettings };
+};
@@ -0,0 +1,66 @@
+import { useCallback } from 'react';
+import { AssociationSettings, DataSourceConfig, DataSourceId } from '../types/dataSource';
+import { DEFAULT_DATA_SOURCES } from '../sources';
+import { CacheSettings } from '../types/cache';
+import { DEFAULT_ASSOCIATION_SETTINGS } from '../utils/associationUtils';
+import { DEFAULT_CACHE_SETTINGS } from '../utils/cacheUtils';
+import { usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:data-sources';
+const ASSOCIATION_STORAGE_KEY = 'earthquake-monitor:association';
+const CACHE_STORAGE_KEY = 'earthquake-monitor:cache';
+
+// Keep the adapter order and pick up adapters added since the last save
+const normalizeDataSources = (stored: unknown): DataSourceConfig[] => {
+  const saved: DataSourceConfig[] = Array.isArray(stored) ? stored : [];
+  return DEFAULT_DATA_SOURCES.map(defaults => ({
+    ...defaults,
+    ...saved.find(config => config?.id === defaults.id)
+  }));
+};
+
+const withEnabled = (configs: DataSourceConfig[], ids: DataSourceId[]): DataSourceConfig[] => {
+  return configs.map(config => ({ ...config, enabled: ids.includes(config.id) }));
+};
+
+// `linkedSources`, from a shared link, replaces the stored choice on load
+export const useDataSources = (linkedSources: DataSourceId[] | null = null) => {
+  const [dataSources, setDataSources] = usePersistentState(
+    STORAGE_KEY,
+    linkedSources ? withEnabled(DEFAULT_DATA_SOURCES, linkedSources) : DEFAULT_DATA_SOURCES,
+    stored => (linkedSources ? withEnabled(normalizeDataSources(stored), linkedSources) : normalizeDataSources(stored))
+  );
+  const [association, setAssociation] = usePersistentState<AssociationSettings>(
+    ASSOCIATION_STORAGE_KEY,
+    DEFAULT_ASSOCIATION_SETTINGS
+  );
+  const [cacheSettings, setCacheSettings] = usePersistentState<CacheSettings>(CACHE_STORAGE_KEY, DEFAULT_CACHE_SETTINGS);
+
+  const updateDataSource = useCallback((id: DataSourceId, changes: Partial<Omit<DataSourceConfig, 'id'>>) => {
+    setDataSources(current => current.map(config => (
+      config.id === id ? { ...config, ...changes } : config
+    )));
+  }, [setDataSources]);
+
+  const setEnabledDataSources = useCallback((ids: DataSourceId[]) => {
+    setDataSources(current => withEnabled(current, ids));
+  }, [setDataSources]);
+
+  const updateAssociation = useCallback((changes: Partial<AssociationSettings>) => {
+    setAssociation(current => ({ ...current, ...changes }));
+  }, [setAssociation]);
+
+  const updateCacheSettings = useCallback((changes: Partial<CacheSettings>) => {
+    setCacheSettings(current => ({ ...current, ...changes }));
+  }, [setCacheSettings]);
+
+  return {
+    dataSources,
+    updateDataSource,
+    setEnabledDataSources,
+    association,
+    updateAssociation,
+    cacheSettings,
+    updateCacheSettings
+  };
+};
@@ -1,51 +1,288 @@
-import { useState, useEffect } from 'react';
-import { EarthquakeResponse, Earthquake } from '../types/earthquake';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Earthquake, EarthquakeDiff } from '../types/earthquake';
+import { FeedDescriptor } from '../types/feed';
+import {
+  AssociationSettings,
+  DataSourceConfig,
+  SourceCounts,
+  SourceErrors,
+  SourceResults,
+  SourceSyncTimes,
+  SourceValidation
+} from '../types/dataSource';
+import { DEFAULT_FEED, DEFAULT_POLL_INTERVAL } from '../utils/feedUtils';
+import { EMPTY_DIFF, mergeEarthquakes, sortByTimeDesc } from '../utils/diffUtils';
+import { DEFAULT_DATA_SOURCES, fetchSourceEarthquakes } from '../sources';
+import { associateEarthquakes, DEFAULT_ASSOCIATION_SETTINGS } from '../utils/associationUtils';
+import { CacheSettings } from '../types/cache';
+import {
+  clearEarthquakeCache,
+  countCachedEarthquakes,
+  DEFAULT_CACHE_SETTINGS,
+  evictEarthquakes,
+  readCachedCatalog,
+  storeEarthquakes
+} from '../utils/cacheUtils';
 
-const USGS_API_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_day.geojson';
+interface UseEarthquakesOptions {
+  // Milliseconds between background refreshes, 0 disables polling
+  pollInterval?: number;
+  sources?: DataSourceConfig[];
+  association?: AssociationSettings;
+  cache?: CacheSettings;
+}
 
-export const useEarthquakes = () => {
+export const useEarthquakes = (
+  feed: FeedDescriptor = DEFAULT_FEED,
+  {
+    pollInterval = DEFAULT_POLL_INTERVAL,
+    sources = DEFAULT_DATA_SOURCES,
+    association = DEFAULT_ASSOCIATION_SETTINGS,
+    cache = DEFAULT_CACHE_SETTINGS
+  }: UseEarthquakesOptions = {}
+) => {
   const [earthquakes, setEarthquakes] = useState<Earthquake[]>([]);
+  const [diff, setDiff] = useState<EarthquakeDiff>(EMPTY_DIFF);
   const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sourceErrors, setSourceErrors] = useState<SourceErrors>({});
+  const [sourceCounts, setSourceCounts] = useState<SourceCounts>({});
+  const [sourceValidation, setSourceValidation] = useState<SourceValidation>({});
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  // Set while showing the offline cache, to when it was last in sync
+  const [staleSince, setStaleSince] = useState<Date | null>(null);
+  // Failed sources whose previous events are still shown, to when they loaded
+  const [sourceStaleSince, setSourceStaleSince] = useState<SourceSyncTimes>({});
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const earthquakesRef = useRef<Earthquake[]>([]);
+  // Latest successful result per source, kept so a source failing a poll
+  // doesn't drop its events, and so changed association settings can be
+  // re-applied without refetching
+  const sourceResultsRef = useRef<SourceResults>({});
+  const sourceSyncedAtRef = useRef<SourceSyncTimes>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Dataset the current catalog was loaded from, used to tell a refresh of
+  // the same feed and sources (diffed) apart from a switch (replaced)
+  const loadedDatasetRef = useRef<string | null>(null);
+
+  // Serialized so the fetch callback only changes when the request does
+  const datasetKey = JSON.stringify({
+    feed,
+    sources: sources.filter(config => config.enabled)
+  });
+  const associationKey = JSON.stringify(association);
+  const cacheKey = JSON.stringify(cache);
+  const cacheKeyRef = useRef(cacheKey);
+
+  const combineSourceResults = useCallback((sourceResults: SourceResults): Earthquake[] => {
+    const catalogs = Object.values(sourceResults).filter((results): results is Earthquake[] => results !== undefined);
+    const features = catalogs.flat();
+    // Association only matters when more than one catalog contributed
+    return catalogs.length > 1
+      ? associateEarthquakes(features, JSON.parse(associationKey))
+      : features;
+  }, [associationKey]);
+
+  const fetchEarthquakes = useCallback(async () => {
+    // Cancel any in-flight request so a slow response for a previous feed
+    // cannot overwrite the currently selected one
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const { feed: requestedFeed, sources: enabledSources }: {
+      feed: FeedDescriptor;
+      sources: DataSourceConfig[];
+    } = JSON.parse(datasetKey);
+    // A refresh or a cache hit already has a catalog to diff against
+    let hasCatalog = loadedDatasetRef.current === datasetKey;
 
-  const fetchEarthquakes = async () => {
     try {
-      setLoading(true);
+      if (hasCatalog) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+        earthquakesRef.current = [];
+        setEarthquakes([]);
+        setDiff(EMPTY_DIFF);
+        setSourceCounts({});
+        setSourceValidation({});
+        setStaleSince(null);
+        setSourceStaleSince({});
+        sourceResultsRef.current = {};
+        sourceSyncedAtRef.current = {};
+      }
       setError(null);
-      
-      const response = await fetch(USGS_API_URL);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+
+      if (enabledSources.length === 0) {
+        throw new Error('No data sources are enabled');
       }
-      
-      const data: EarthquakeResponse = await response.json();
-      
-      // Sort earthquakes by time (most recent first)
-      const sortedEarthquakes = data.features.sort(
-        (a, b) => b.properties.time - a.properties.time
+
+      if (!hasCatalog) {
+        const cached = await readCachedCatalog(enabledSources, requestedFeed).catch(err => {
+          console.warn('Earthquake cache unavailable:', err);
+          return null;
+        });
+        if (controller.signal.aborted) return;
+
+        if (cached && Object.keys(cached.sourceResults).length > 0) {
+          sourceResultsRef.current = cached.sourceResults;
+          sourceSyncedAtRef.current = cached.sourceSyncedAt;
+          earthquakesRef.current = sortByTimeDesc(combineSourceResults(cached.sourceResults));
+          setEarthquakes(earthquakesRef.current);
+          setStaleSince(cached.syncedAt !== null ? new Date(cached.syncedAt) : null);
+          setLoading(false);
+          setRefreshing(true);
+          // Later polls diff against the cache even if this fetch fails
+          loadedDatasetRef.current = datasetKey;
+          hasCatalog = true;
+        }
+      }
+
+      const results = await Promise.allSettled(
+        enabledSources.map(config => fetchSourceEarthquakes(config, requestedFeed, controller.signal))
       );
-      
-      setEarthquakes(sortedEarthquakes);
+      if (controller.signal.aborted) return;
+
+      const errors: SourceErrors = {};
+      const counts: SourceCounts = {};
+      const validation: SourceValidation = {};
+      const sourceResults: SourceResults = {};
+      const stale: SourceSyncTimes = {};
+      const cacheWrites: Promise<void>[] = [];
+      const fetchedAt = Date.now();
+
+      results.forEach((result, index) => {
+        const { id } = enabledSources[index];
+        if (result.status === 'fulfilled') {
+          counts[id] = result.value.earthquakes.length;
+          validation[id] = result.value.report;
+          sourceResults[id] = result.value.earthquakes;
+          sourceSyncedAtRef.current[id] = fetchedAt;
+          cacheWrites.push(storeEarthquakes(id, result.value.earthquakes));
+        } else {
+          errors[id] = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          console.error(`Error fetching earthquakes from ${id}:`, result.reason);
+          // Keep its last result so its events aren't reported removed and
+          // then new again once it recovers
+          const previous = sourceResultsRef.current[id];
+          const syncedAt = sourceSyncedAtRef.current[id];
+          if (previous) {
+            sourceResults[id] = previous;
+            counts[id] = previous.length;
+            if (syncedAt !== undefined) stale[id] = syncedAt;
+          }
+        }
+      });
+
+      setSourceErrors(errors);
+      setSourceStaleSince(stale);
+
+      if (Object.keys(errors).length === enabledSources.length) {
+        throw new Error(Object.values(errors)[0] ?? 'Failed to fetch earthquake data');
+      }
+
+      sourceResultsRef.current = sourceResults;
+      const features = combineSourceResults(sourceResults);
+
+      if (hasCatalog) {
+        const merged = mergeEarthquakes(earthquakesRef.current, features);
+        earthquakesRef.current = merged.earthquakes;
+        setEarthquakes(merged.earthquakes);
+        setDiff(merged.diff);
+      } else {
+        // Sort earthquakes by time (most recent first)
+        earthquakesRef.current = sortByTimeDesc(features);
+        setEarthquakes(earthquakesRef.current);
+      }
+      loadedDatasetRef.current = datasetKey;
+      setSourceCounts(counts);
+      setSourceValidation(validation);
       setLastUpdated(new Date());
+      setStaleSince(null);
+
+      // Persisting is best effort, the fresh catalog is already shown
+      Promise.all(cacheWrites)
+        .then(() => evictEarthquakes(JSON.parse(cacheKeyRef.current)))
+        .then(setCachedCount)
+        .catch(err => console.warn('Failed to update earthquake cache:', err));
     } catch (err) {
+      if (controller.signal.aborted) return;
       setError(err instanceof Error ? err.message : 'Failed to fetch earthquake data');
       console.error('Error fetching earthquakes:', err);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
-  };
+  }, [datasetKey, combineSourceResults]);
+
+  // Association changes are applied locally below, not refetched, so the
+  // fetch effect reads the callback through a ref and runs per dataset
+  const fetchEarthquakesRef = useRef(fetchEarthquakes);
+
+  useEffect(() => {
+    fetchEarthquakesRef.current = fetchEarthquakes;
+  });
+
+  useEffect(() => {
+    fetchEarthquakesRef.current();
+    return () => abortControllerRef.current?.abort();
+  }, [datasetKey]);
+
+  useEffect(() => {
+    if (Object.keys(sourceResultsRef.current).length === 0) return;
+    earthquakesRef.current = sortByTimeDesc(combineSourceResults(sourceResultsRef.current));
+    setEarthquakes(earthquakesRef.current);
+    setDiff(EMPTY_DIFF);
+  }, [combineSourceResults]);
 
   useEffect(() => {
-    fetchEarthquakes();
+    cacheKeyRef.current = cacheKey;
+    // Apply a shortened retention window right away
+    evictEarthquakes(JSON.parse(cacheKey))
+      .then(setCachedCount)
+      .catch(err => console.warn('Earthquake cache unavailable:', err));
+  }, [cacheKey]);
+
+  const clearCache = useCallback(async () => {
+    try {
+      await clearEarthquakeCache();
+      setCachedCount(await countCachedEarthquakes());
+    } catch (err) {
+      console.warn('Failed to clear earthquake cache:', err);
+    }
   }, []);
 
+  useEffect(() => {
+    if (pollInterval <= 0) return;
+
+    const intervalId = window.setInterval(() => {
+      // Skip polling while the tab is in the background
+      if (document.visibilityState === 'visible') {
+        fetchEarthquakes();
+      }
+    }, pollInterval);
+
+    return () => window.clearInterval(intervalId);
+  }, [fetchEarthquakes, pollInterval]);
+
   return {
     earthquakes,
+    diff,
     loading,
+    refreshing,
     error,
+    sourceErrors,
+    sourceCounts,
+    sourceValidation,
     lastUpdated,
+    staleSince,
+    sourceStaleSince,
+    cachedCount,
+    clearCache,
     refetch: fetchEarthquakes
   };
-};
\ No newline at end of file
+};
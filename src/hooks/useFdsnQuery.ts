@@ -0,0 +1,73 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Earthquake, ValidationReport } from '../types/earthquake';
+import { FdsnQuery } from '../types/fdsn';
+import { fetchFdsnEvents } from '../utils/fdsnClient';
+
+export const useFdsnQuery = () => {
+  const [results, setResults] = useState<Earthquake[] | null>(null);
+  const [activeQuery, setActiveQuery] = useState<FdsnQuery | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [validation, setValidation] = useState<ValidationReport | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const runQuery = useCallback(async (query: FdsnQuery) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setProgress(0);
+
+      const data = await fetchFdsnEvents(query, {
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+
+      setResults(data.features);
+      setValidation(data.validation ?? null);
+      setActiveQuery(query);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Failed to run FDSN query');
+      console.error('Error running FDSN query:', err);
+    } finally {
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setLoading(false);
+  }, []);
+
+  const clear = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setResults(null);
+    setActiveQuery(null);
+    setValidation(null);
+    setError(null);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  return {
+    results,
+    activeQuery,
+    loading,
+    error,
+    progress,
+    validation,
+    runQuery,
+    cancel,
+    clear
+  };
+};
@@ -0,0 +1,11 @@
+import { HeatmapSettings } from '../types/heatmap';
+import { DEFAULT_HEATMAP_SETTINGS } from '../utils/heatmapUtils';
+import { usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:heatmap-settings';
+
+export const useHeatmapSettings = () => {
+  const [settings, setSettings] = usePersistentState<HeatmapSettings>(STORAGE_KEY, DEFAULT_HEATMAP_SETTINGS);
+
+  return { settings, setSettings };
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef } from 'react';
+import { Earthquake } from '../types/earthquake';
+import { fetchEarthquakeById } from '../sources';
+import { findEarthquake } from '../utils/earthquakeUtils';
+
+/**
+ * Resolves an event id from a shared link once the catalog has loaded.
+ * Events that aren't in the catalog are loaded from their agency's detail
+ * endpoint instead.
+ */
+export const useLinkedEvent = (
+  eventId: string | null,
+  earthquakes: Earthquake[],
+  ready: boolean,
+  onResolved: (earthquake: Earthquake) => void
+) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const earthquakesRef = useRef(earthquakes);
+  const onResolvedRef = useRef(onResolved);
+
+  useEffect(() => {
+    earthquakesRef.current = earthquakes;
+    onResolvedRef.current = onResolved;
+  });
+
+  useEffect(() => {
+    setError(null);
+    if (!eventId || !ready) return;
+
+    const match = findEarthquake(earthquakesRef.current, eventId);
+    if (match) {
+      onResolvedRef.current(match);
+      return;
+    }
+
+    // Aborted only when the id changes, not when a poll updates the catalog
+    const controller = new AbortController();
+    setLoading(true);
+    fetchEarthquakeById(eventId, controller.signal)
+      .then(earthquake => onResolvedRef.current(earthquake))
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load the linked event');
+        console.error(`Error loading event ${eventId}:`, err);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+      setLoading(false);
+    };
+  }, [eventId, ready]);
+
+  return { loading, error };
+};
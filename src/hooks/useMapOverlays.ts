@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from 'react';
+import { OverlayId, OverlaySources } from '../types/overlay';
+import { loadOverlaySources, OVERLAY_IDS } from '../utils/overlayUtils';
+import { usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:map-overlays';
+
+const normalizeMapOverlays = (stored: unknown): OverlayId[] => {
+  return Array.isArray(stored) ? OVERLAY_IDS.filter(id => stored.includes(id)) : [];
+};
+
+export const useMapOverlays = () => {
+  const [storedOverlays, setOverlays] = usePersistentState<OverlayId[]>(STORAGE_KEY, [], normalizeMapOverlays);
+  const [sources, setSources] = useState<OverlaySources>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOverlaySources()
+      .then(loaded => {
+        if (!cancelled) setSources(loaded);
+      })
+      .catch(error => console.error('Failed to load the overlay sources:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Only overlays whose data has been generated are shown
+  const overlays = useMemo(
+    () => storedOverlays.filter(id => sources[id]),
+    [storedOverlays, sources]
+  );
+
+  return { overlays, sources, setOverlays };
+};
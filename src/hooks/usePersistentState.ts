@@ -0,0 +1,42 @@
+import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+
+// Stored fields over the defaults, so settings added since the last save
+// get their default value
+export const mergeWithDefaults = <T extends object>(defaults: T, stored: unknown): T => {
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return defaults;
+  return { ...defaults, ...stored };
+};
+
+/**
+ * useState kept in localStorage under `key`. The stored JSON is passed
+ * through `normalize`, which by default merges it over settings-object
+ * defaults; lists and nullable values pass their own. Anything missing or
+ * unreadable falls back to the defaults.
+ */
+export const usePersistentState = <T>(
+  key: string,
+  defaults: T,
+  normalize: (stored: unknown) => T = stored => (
+    typeof defaults === 'object' && defaults !== null ? mergeWithDefaults(defaults, stored) : defaults
+  )
+): [T, Dispatch<SetStateAction<T>>] => {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored === null ? defaults : normalize(JSON.parse(stored));
+    } catch {
+      return defaults;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+      // Full or disabled storage only costs the value on the next visit
+      console.warn(`Failed to save ${key}:`, err);
+    }
+  }, [key, value]);
+
+  return [value, setValue];
+};
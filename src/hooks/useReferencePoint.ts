@@ -0,0 +1,74 @@
+import { useState, useCallback } from 'react';
+import { ReferencePoint } from '../types/reference';
+import { usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:reference-point';
+
+const normalizeReferencePoint = (stored: unknown): ReferencePoint | null => {
+  if (typeof stored !== 'object' || stored === null || !('latitude' in stored) || !('longitude' in stored)) return null;
+  const { latitude, longitude } = stored;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+  return {
+    latitude,
+    longitude,
+    label: 'label' in stored && typeof stored.label === 'string' ? stored.label : 'reference point',
+    source: 'source' in stored && stored.source === 'geolocation' ? 'geolocation' : 'manual'
+  };
+};
+
+const GEOLOCATION_ERRORS: Record<number, string> = {
+  1: 'Location permission was denied',
+  2: 'Your location is unavailable',
+  3: 'Timed out while getting your location'
+};
+
+export const useReferencePoint = () => {
+  const [referencePoint, setReferencePoint] = usePersistentState(STORAGE_KEY, null, normalizeReferencePoint);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const locate = useCallback(() => {
+    if (!('geolocation' in navigator)) {
+      setError('This browser cannot share its location');
+      return;
+    }
+
+    setLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setReferencePoint({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          label: 'you',
+          source: 'geolocation'
+        });
+        setLocating(false);
+      },
+      (err) => {
+        setError(GEOLOCATION_ERRORS[err.code] ?? err.message);
+        setLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 15000, maximumAge: 300000 }
+    );
+  }, [setReferencePoint]);
+
+  const setManualPoint = useCallback((latitude: number, longitude: number, label: string) => {
+    setReferencePoint({ latitude, longitude, label: label.trim() || 'reference point', source: 'manual' });
+    setError(null);
+  }, [setReferencePoint]);
+
+  const clear = useCallback(() => {
+    setReferencePoint(null);
+    setError(null);
+  }, [setReferencePoint]);
+
+  return {
+    referencePoint,
+    locating,
+    error,
+    locate,
+    setManualPoint,
+    clear
+  };
+};
@@ -0,0 +1,20 @@
+import { SymbologySettings } from '../types/symbology';
+import { COLOR_ENCODINGS, DEFAULT_SYMBOLOGY, SIZE_ENCODINGS } from '../utils/symbologyUtils';
+import { mergeWithDefaults, usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:symbology';
+
+// Encodings from another version fall back to the defaults
+const normalizeSymbologySettings = (stored: unknown): SymbologySettings => {
+  const settings = mergeWithDefaults(DEFAULT_SYMBOLOGY, stored);
+  return {
+    color: COLOR_ENCODINGS.includes(settings.color) ? settings.color : DEFAULT_SYMBOLOGY.color,
+    size: SIZE_ENCODINGS.includes(settings.size) ? settings.size : DEFAULT_SYMBOLOGY.size
+  };
+};
+
+export const useSymbologySettings = () => {
+  const [settings, setSettings] = usePersistentState(STORAGE_KEY, DEFAULT_SYMBOLOGY, normalizeSymbologySettings);
+
+  return { settings, setSettings };
+};
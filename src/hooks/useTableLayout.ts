@@ -0,0 +1,14 @@
+import { DEFAULT_TABLE_LAYOUT, normalizeTableLayout } from '../utils/tableUtils';
+import { mergeWithDefaults, usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:table-layout';
+
+export const useTableLayout = () => {
+  const [layout, setLayout] = usePersistentState(
+    STORAGE_KEY,
+    DEFAULT_TABLE_LAYOUT,
+    stored => normalizeTableLayout(mergeWithDefaults(DEFAULT_TABLE_LAYOUT, stored))
+  );
+
+  return { layout, setLayout };
+};
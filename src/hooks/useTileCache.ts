@@ -0,0 +1,85 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { TileArea, TilePrecacheProgress } from '../types/tiles';
+import { clearTileCache, countCachedTiles, getTileUrls, precacheTiles } from '../utils/tileUtils';
+
+const isCacheSupported = typeof caches !== 'undefined';
+
+export const useTileCache = () => {
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const [progress, setProgress] = useState<TilePrecacheProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const refreshCount = useCallback(async () => {
+    if (!isCacheSupported) return;
+    try {
+      setCachedCount(await countCachedTiles());
+    } catch (err) {
+      console.warn('Tile cache unavailable:', err);
+    }
+  }, []);
+
+  const precache = useCallback(async (template: string, area: TileArea) => {
+    if (!isCacheSupported) {
+      setError('This browser cannot store map tiles offline');
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setRunning(true);
+      setError(null);
+      const urls = getTileUrls(template, area);
+      setProgress({ done: 0, total: urls.length, failed: 0 });
+
+      const result = await precacheTiles(urls, {
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      if (result.failed > 0 && !controller.signal.aborted) {
+        setError(`${result.failed} tiles could not be downloaded`);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Failed to download map tiles');
+      console.error('Error pre-caching tiles:', err);
+    } finally {
+      setRunning(false);
+      refreshCount();
+    }
+  }, [refreshCount]);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const clear = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    try {
+      await clearTileCache();
+      setProgress(null);
+    } catch (err) {
+      console.warn('Failed to clear tile cache:', err);
+    }
+    refreshCount();
+  }, [refreshCount]);
+
+  useEffect(() => {
+    refreshCount();
+    return () => abortControllerRef.current?.abort();
+  }, [refreshCount]);
+
+  return {
+    cachedCount,
+    progress,
+    running,
+    error,
+    precache,
+    cancel,
+    clear
+  };
+};
@@ -0,0 +1,20 @@
+import { TimelapseSettings } from '../types/timelapse';
+import { DEFAULT_TIMELAPSE_SETTINGS, PLAYBACK_SPEEDS, PLAYBACK_WINDOWS } from '../utils/timelapseUtils';
+import { mergeWithDefaults, usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:timelapse';
+
+// Only the listed options can be shown in the selectors
+const normalizeTimelapseSettings = (stored: unknown): TimelapseSettings => {
+  const settings = mergeWithDefaults(DEFAULT_TIMELAPSE_SETTINGS, stored);
+  return {
+    speed: PLAYBACK_SPEEDS.some(({ value }) => value === settings.speed) ? settings.speed : DEFAULT_TIMELAPSE_SETTINGS.speed,
+    windowMs: PLAYBACK_WINDOWS.some(({ value }) => value === settings.windowMs) ? settings.windowMs : DEFAULT_TIMELAPSE_SETTINGS.windowMs
+  };
+};
+
+export const useTimelapseSettings = () => {
+  const [settings, setSettings] = usePersistentState(STORAGE_KEY, DEFAULT_TIMELAPSE_SETTINGS, normalizeTimelapseSettings);
+
+  return { settings, setSettings };
+};
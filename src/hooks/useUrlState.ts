@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { UrlState } from '../types/urlState';
+import { parseUrlState, serializeUrlState } from '../utils/urlStateUtils';
+
+/**
+ * Mirrors app state into the query string. Switching view or opening and
+ * closing an event adds a history entry so Back undoes it, other changes
+ * (filters, panning) replace the current one. `onNavigate` receives the
+ * state of the entry Back or Forward lands on.
+ */
+export const useUrlState = (state: UrlState, onNavigate: (state: UrlState) => void) => {
+  const search = serializeUrlState(state);
+  const navigationKey = `${state.view}|${state.eventId ?? ''}`;
+  const navigationKeyRef = useRef(navigationKey);
+  const onNavigateRef = useRef(onNavigate);
+
+  useEffect(() => {
+    onNavigateRef.current = onNavigate;
+  });
+
+  useEffect(() => {
+    const navigated = navigationKey !== navigationKeyRef.current;
+    navigationKeyRef.current = navigationKey;
+    if (search === window.location.search.replace(/^\?/, '')) return;
+
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    if (navigated) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [search, navigationKey]);
+
+  useEffect(() => {
+    const handlePopState = () => onNavigateRef.current(parseUrlState(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+};
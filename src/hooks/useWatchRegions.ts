@@ -0,0 +1,38 @@
+import { useCallback } from 'react';
+import { RegionShape, WatchRegion } from '../types/region';
+import { createRegion } from '../utils/regionUtils';
+import { usePersistentState } from './usePersistentState';
+
+const STORAGE_KEY = 'earthquake-monitor:watch-regions';
+
+const normalizeRegions = (stored: unknown): WatchRegion[] => (Array.isArray(stored) ? stored : []);
+
+export const useWatchRegions = () => {
+  const [regions, setRegions] = usePersistentState<WatchRegion[]>(STORAGE_KEY, [], normalizeRegions);
+
+  const addRegion = useCallback((shape: RegionShape) => {
+    setRegions(current => [...current, createRegion(shape, current)]);
+  }, [setRegions]);
+
+  const importRegions = useCallback((imported: WatchRegion[]) => {
+    setRegions(current => [...current, ...imported]);
+  }, [setRegions]);
+
+  const updateRegion = useCallback((id: string, changes: Partial<Omit<WatchRegion, 'id'>>) => {
+    setRegions(current => current.map(region => (
+      region.id === id ? { ...region, ...changes } : region
+    )));
+  }, [setRegions]);
+
+  const removeRegion = useCallback((id: string) => {
+    setRegions(current => current.filter(region => region.id !== id));
+  }, [setRegions]);
+
+  return {
+    regions,
+    addRegion,
+    importRegions,
+    updateRegion,
+    removeRegion
+  };
+};
@@ -0,0 +1,105 @@
+import { DataSourceAdapter } from '../types/dataSource';
+import { Earthquake } from '../types/earthquake';
+import { createEarthquake, parseTimestamp } from './sourceUtils';
+
+// Shared shape of a <gempa> entry in BMKG's XML and JSON feeds
+interface BmkgRecord {
+  DateTime?: string;
+  Coordinates?: string;
+  Lintang?: string;
+  Bujur?: string;
+  Magnitude?: string;
+  Kedalaman?: string;
+  Wilayah?: string;
+  Potensi?: string;
+}
+
+const BMKG_FIELDS: (keyof BmkgRecord)[] = [
+  'DateTime', 'Coordinates', 'Lintang', 'Bujur', 'Magnitude', 'Kedalaman', 'Wilayah', 'Potensi'
+];
+
+// "7.12 LS" (south) / "3.20 LU" (north), "106.34 BT" (east) / "120.5 BB" (west)
+const parseHemisphereValue = (value: string | undefined, negativeSuffix: string): number => {
+  if (!value) return NaN;
+  const number = parseFloat(value);
+  return value.trim().toUpperCase().endsWith(negativeSuffix) ? -Math.abs(number) : number;
+};
+
+const parsePosition = (record: BmkgRecord): [number, number] => {
+  const latitude = parseHemisphereValue(record.Lintang, 'LS');
+  const longitude = parseHemisphereValue(record.Bujur, 'BB');
+  if (!Number.isNaN(latitude) && !Number.isNaN(longitude)) {
+    return [longitude, latitude];
+  }
+
+  // JSON feeds also carry "lat,lon" in Coordinates
+  const [lat, lon] = (record.Coordinates ?? '').split(',').map(parseFloat);
+  return [lon, lat];
+};
+
+const toEarthquake = (record: BmkgRecord): Earthquake | null => {
+  const time = parseTimestamp(record.DateTime);
+  const [longitude, latitude] = parsePosition(record);
+  const mag = parseFloat(record.Magnitude ?? '');
+  if ([time, longitude, latitude, mag].some(Number.isNaN)) {
+    return null;
+  }
+
+  // BMKG has no event ids, the origin time is unique within its catalog
+  const code = new Date(time).toISOString().replace(/\D/g, '').slice(0, 14);
+  const potensi = record.Potensi?.toLowerCase() ?? '';
+
+  return createEarthquake({
+    id: `bmkg_${code}`,
+    net: 'bmkg',
+    code,
+    time,
+    longitude,
+    latitude,
+    depth: parseFloat(record.Kedalaman ?? '') || 0,
+    mag,
+    magType: 'm',
+    place: record.Wilayah ?? '',
+    url: 'https://www.bmkg.go.id/gempabumi/gempabumi-terkini.bmkg',
+    status: 'reviewed',
+    tsunami: potensi.includes('berpotensi tsunami') && !potensi.includes('tidak berpotensi')
+  });
+};
+
+const parseXml = (body: string): BmkgRecord[] => {
+  const document = new DOMParser().parseFromString(body, 'application/xml');
+  if (document.querySelector('parsererror')) {
+    throw new Error('BMKG feed is not valid XML');
+  }
+
+  return Array.from(document.getElementsByTagName('gempa')).map(element => {
+    const record: BmkgRecord = {};
+    BMKG_FIELDS.forEach(field => {
+      const value = element.getElementsByTagName(field)[0]?.textContent;
+      if (value) record[field] = value.trim();
+    });
+    return record;
+  });
+};
+
+const parseJson = (body: string): BmkgRecord[] => {
+  const data: { Infogempa?: { gempa?: BmkgRecord | BmkgRecord[] } } = JSON.parse(body);
+  const gempa = data.Infogempa?.gempa ?? [];
+  // autogempa.json holds a single event, gempaterkini.json a list
+  return Array.isArray(gempa) ? gempa : [gempa];
+};
+
+export const bmkgAdapter: DataSourceAdapter = {
+  id: 'bmkg',
+  name: 'BMKG',
+  agency: 'Badan Meteorologi, Klimatologi, dan Geofisika',
+  coverage: 'Indonesia',
+  getDefaultUrl: () => 'https://data.bmkg.go.id/DataMKG/TEWS/gempaterkini.json',
+  serverFiltered: false,
+  parse: (body) => {
+    const records = body.trimStart().startsWith('<') ? parseXml(body) : parseJson(body);
+    return records
+      .map(toEarthquake)
+      .filter((earthquake): earthquake is Earthquake => earthquake !== null);
+  }
+};
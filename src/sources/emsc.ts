@@ -0,0 +1,99 @@
+import { DataSourceAdapter } from '../types/dataSource';
+import { Earthquake } from '../types/earthquake';
+import { getFeedMinMagnitude, getFeedWindowMs } from '../utils/feedUtils';
+import { createEarthquake, parseTimestamp } from './sourceUtils';
+
+const EMSC_FDSN_URL = 'https://www.seismicportal.eu/fdsnws/event/1/query';
+
+interface EmscProperties {
+  unid: string;
+  time: string;
+  lastupdate?: string;
+  lat: number;
+  lon: number;
+  depth: number;
+  mag: number | null;
+  magtype?: string;
+  flynn_region?: string;
+  auth?: string;
+  evtype?: string;
+}
+
+interface EmscFeature {
+  id?: string;
+  properties: EmscProperties;
+}
+
+// EMSC event type codes (QuakeML-style abbreviations)
+const EMSC_EVENT_TYPES: Record<string, string> = {
+  ke: 'earthquake',
+  se: 'earthquake',
+  kr: 'rock burst',
+  sr: 'rock burst',
+  ki: 'induced or triggered event',
+  si: 'induced or triggered event',
+  km: 'mining explosion',
+  sm: 'mining explosion',
+  kx: 'explosion',
+  sx: 'explosion',
+  kn: 'nuclear explosion',
+  sn: 'nuclear explosion',
+  ls: 'landslide'
+};
+
+const getEmscDetailUrl = (unid: string): string => `${EMSC_FDSN_URL}?format=json&eventid=${unid}`;
+
+const toEarthquake = ({ id, properties }: EmscFeature): Earthquake | null => {
+  const unid = properties.unid ?? id;
+  const time = parseTimestamp(properties.time);
+  if (!unid || Number.isNaN(time)) return null;
+
+  const eventId = `emsc_${unid}`;
+  const updated = parseTimestamp(properties.lastupdate);
+
+  return createEarthquake({
+    id: eventId,
+    net: 'emsc',
+    code: unid,
+    time,
+    updated: Number.isNaN(updated) ? time : updated,
+    longitude: properties.lon,
+    latitude: properties.lat,
+    depth: properties.depth,
+    mag: properties.mag,
+    magType: properties.magtype?.toLowerCase(),
+    place: properties.flynn_region ?? '',
+    url: `https://www.seismicportal.eu/eventdetails.html?unid=${unid}`,
+    detail: getEmscDetailUrl(unid),
+    // EMSC only publishes solutions after a duty seismologist has checked them
+    status: 'reviewed',
+    type: EMSC_EVENT_TYPES[properties.evtype?.toLowerCase() ?? ''] ?? 'earthquake'
+  });
+};
+
+export const emscAdapter: DataSourceAdapter = {
+  id: 'emsc',
+  name: 'EMSC',
+  agency: 'European-Mediterranean Seismological Centre',
+  coverage: 'Euro-Mediterranean, worldwide M4+',
+  getDefaultUrl: (feed) => {
+    const params = new URLSearchParams({
+      format: 'json',
+      limit: '2000',
+      starttime: new Date(Date.now() - getFeedWindowMs(feed.window)).toISOString().slice(0, 19)
+    });
+    const minMagnitude = getFeedMinMagnitude(feed.magnitude);
+    if (minMagnitude > 0) {
+      params.set('minmag', String(minMagnitude));
+    }
+    return `${EMSC_FDSN_URL}?${params.toString()}`;
+  },
+  serverFiltered: false,
+  parse: (body) => {
+    const data: { features?: EmscFeature[] } = JSON.parse(body);
+    return (data.features ?? [])
+      .map(toEarthquake)
+      .filter((earthquake): earthquake is Earthquake => earthquake !== null);
+  },
+  getDetailUrl: getEmscDetailUrl
+};
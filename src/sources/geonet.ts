@@ -0,0 +1,60 @@
+import { DataSourceAdapter } from '../types/dataSource';
+import { Earthquake } from '../types/earthquake';
+import { createEarthquake, parseTimestamp } from './sourceUtils';
+
+interface GeoNetFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    publicID: string;
+    time: string;
+    depth: number;
+    magnitude: number;
+    mmi?: number;
+    locality?: string;
+    quality?: 'best' | 'preliminary' | 'automatic' | 'deleted';
+  };
+}
+
+const getGeoNetDetailUrl = (publicID: string): string => `https://api.geonet.org.nz/quake/${publicID}`;
+
+const toEarthquake = ({ geometry, properties }: GeoNetFeature): Earthquake | null => {
+  const time = parseTimestamp(properties.time);
+  if (!properties.publicID || Number.isNaN(time) || properties.quality === 'deleted') {
+    return null;
+  }
+
+  const [longitude, latitude] = geometry.coordinates;
+
+  return createEarthquake({
+    id: `geonet_${properties.publicID}`,
+    net: 'geonet',
+    code: properties.publicID,
+    time,
+    longitude,
+    latitude,
+    depth: properties.depth,
+    mag: properties.magnitude,
+    place: properties.locality ?? '',
+    url: `https://www.geonet.org.nz/earthquake/${properties.publicID}`,
+    detail: getGeoNetDetailUrl(properties.publicID),
+    status: properties.quality === 'automatic' ? 'automatic' : 'reviewed',
+    // GeoNet reports -1 when MMI hasn't been computed
+    mmi: properties.mmi !== undefined && properties.mmi >= 0 ? properties.mmi : null
+  });
+};
+
+export const geonetAdapter: DataSourceAdapter = {
+  id: 'geonet',
+  name: 'GeoNet',
+  agency: 'GeoNet (GNS Science)',
+  coverage: 'New Zealand',
+  getDefaultUrl: () => 'https://api.geonet.org.nz/quake?MMI=-1',
+  serverFiltered: false,
+  parse: (body) => {
+    const data: { features?: GeoNetFeature[] } = JSON.parse(body);
+    return (data.features ?? [])
+      .map(toEarthquake)
+      .filter((earthquake): earthquake is Earthquake => earthquake !== null);
+  },
+  getDetailUrl: getGeoNetDetailUrl
+};
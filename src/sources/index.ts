@@ -0,0 +1,97 @@
+import { DataSourceAdapter, DataSourceConfig, DataSourceId } from '../types/dataSource';
+import { Earthquake, ValidationReport } from '../types/earthquake';
+import { FeedDescriptor } from '../types/feed';
+import { matchesFeed } from '../utils/feedUtils';
+import { validateEarthquakes } from '../utils/validationUtils';
+import { usgsAdapter } from './usgs';
+import { emscAdapter } from './emsc';
+import { bmkgAdapter } from './bmkg';
+import { geonetAdapter } from './geonet';
+
+export const DATA_SOURCE_ADAPTERS: Record<DataSourceId, DataSourceAdapter> = {
+  usgs: usgsAdapter,
+  emsc: emscAdapter,
+  bmkg: bmkgAdapter,
+  geonet: geonetAdapter
+};
+
+export const DATA_SOURCE_IDS = Object.keys(DATA_SOURCE_ADAPTERS) as DataSourceId[];
+
+export const DEFAULT_DATA_SOURCES: DataSourceConfig[] = DATA_SOURCE_IDS.map(id => ({
+  id,
+  enabled: id === 'usgs',
+  url: ''
+}));
+
+export const getSourceUrl = (config: DataSourceConfig, feed: FeedDescriptor): string => {
+  return config.url.trim() || DATA_SOURCE_ADAPTERS[config.id].getDefaultUrl(feed);
+};
+
+/**
+ * Fetches one agency's catalog, converts it to validated `Earthquake`s and
+ * reports rejected records. A custom URL (e.g. a recorded fixture file) is
+ * returned as-is, default URLs are narrowed to the selected feed when the
+ * agency can't do that server-side.
+ */
+export const fetchSourceEarthquakes = async (
+  config: DataSourceConfig,
+  feed: FeedDescriptor,
+  signal?: AbortSignal
+): Promise<{ earthquakes: Earthquake[]; report: ValidationReport }> => {
+  const adapter = DATA_SOURCE_ADAPTERS[config.id];
+  const isCustomUrl = config.url.trim() !== '';
+  const response = await fetch(getSourceUrl(config, feed), { signal });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const { earthquakes, report } = validateEarthquakes(adapter.parse(await response.text()));
+
+  if (isCustomUrl || adapter.serverFiltered) {
+    return { earthquakes, report };
+  }
+
+  const now = Date.now();
+  return {
+    earthquakes: earthquakes.filter(earthquake => matchesFeed(earthquake, feed, now)),
+    report
+  };
+};
+
+/**
+ * Loads one event that isn't in the current catalog from its agency's
+ * detail endpoint, the URL its `properties.detail` points at. Non-USGS ids
+ * carry their source id as a prefix (e.g. `emsc_20240101_0000001`).
+ */
+export const fetchEarthquakeById = async (id: string, signal?: AbortSignal): Promise<Earthquake> => {
+  const source = DATA_SOURCE_IDS.find(sourceId => sourceId !== 'usgs' && id.startsWith(`${sourceId}_`));
+  const adapter = DATA_SOURCE_ADAPTERS[source ?? 'usgs'];
+  const code = source ? id.slice(source.length + 1) : id;
+
+  if (!adapter.getDetailUrl) {
+    throw new Error(`${adapter.name} events can't be loaded individually`);
+  }
+
+  const response = await fetch(adapter.getDetailUrl(code), { signal });
+  if (response.status === 404) {
+    throw new Error(`Event ${id} was not found`);
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const { earthquakes } = validateEarthquakes(adapter.parse(await response.text()));
+  // A superseded id resolves to the event's current preferred id
+  const earthquake = earthquakes.find(candidate => candidate.id === id) ?? earthquakes[0];
+  if (!earthquake) {
+    throw new Error(`Event ${id} was not found`);
+  }
+  return earthquake;
+};
+
+// Non-USGS adapters set `net` to their source id, USGS uses network codes
+export const getEarthquakeSource = (earthquake: Earthquake): DataSourceId => {
+  const { net } = earthquake.properties;
+  return DATA_SOURCE_IDS.includes(net as DataSourceId) ? net as DataSourceId : 'usgs';
+};
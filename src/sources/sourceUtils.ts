@@ -0,0 +1,79 @@
+import { Earthquake } from '../types/earthquake';
+
+interface EarthquakeFields {
+  id: string;
+  net: string;
+  code: string;
+  time: number;
+  updated?: number;
+  longitude: number;
+  latitude: number;
+  depth: number;
+  mag: number | null;
+  magType?: string;
+  place: string;
+  url?: string;
+  detail?: string;
+  status?: string;
+  type?: string;
+  tsunami?: boolean;
+  mmi?: number | null;
+}
+
+// USGS computes `sig` from magnitude when no felt or PAGER data exists
+export const estimateSignificance = (magnitude: number): number => {
+  const mag = Math.max(0, magnitude);
+  return Math.round(mag * 100 * (mag / 6.5));
+};
+
+export const parseTimestamp = (value: string | undefined | null): number => {
+  if (!value) return NaN;
+  // Timestamps without a zone designator are UTC in agency feeds
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value.trim());
+  return Date.parse(hasZone ? value : `${value}Z`);
+};
+
+/**
+ * Builds a USGS-shaped event from another agency's fields, filling in the
+ * properties that agency doesn't provide.
+ */
+export const createEarthquake = (fields: EarthquakeFields): Earthquake => {
+  const place = fields.place || 'Unknown Location';
+
+  return {
+    type: 'Feature',
+    id: fields.id,
+    geometry: {
+      type: 'Point',
+      coordinates: [fields.longitude, fields.latitude, fields.depth]
+    },
+    properties: {
+      mag: fields.mag,
+      place,
+      time: fields.time,
+      updated: fields.updated ?? fields.time,
+      tz: null,
+      url: fields.url ?? '',
+      detail: fields.detail ?? '',
+      felt: null,
+      cdi: null,
+      mmi: fields.mmi ?? null,
+      alert: null,
+      status: fields.status ?? 'automatic',
+      tsunami: fields.tsunami ? 1 : 0,
+      sig: estimateSignificance(fields.mag ?? 0),
+      net: fields.net,
+      code: fields.code,
+      ids: `,${fields.id},`,
+      sources: `,${fields.net},`,
+      types: ',origin,',
+      nst: null,
+      dmin: null,
+      rms: null,
+      gap: null,
+      magType: fields.magType ?? null,
+      type: fields.type ?? 'earthquake',
+      title: fields.mag === null ? place : `M ${fields.mag.toFixed(1)} - ${place}`
+    }
+  };
+};
@@ -0,0 +1,20 @@
+import { DataSourceAdapter } from '../types/dataSource';
+import { getFeedUrl } from '../utils/feedUtils';
+import { getFeatureList } from '../utils/validationUtils';
+
+const USGS_DETAIL_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/detail';
+
+export const usgsAdapter: DataSourceAdapter = {
+  id: 'usgs',
+  name: 'USGS',
+  agency: 'U.S. Geological Survey',
+  coverage: 'Worldwide',
+  getDefaultUrl: getFeedUrl,
+  serverFiltered: true,
+  parse: (body) => {
+    const data = JSON.parse(body);
+    // Detail responses are a single Feature rather than a collection
+    return data?.type === 'Feature' ? [data] : getFeatureList(data);
+  },
+  getDetailUrl: (code) => `${USGS_DETAIL_URL}/${code}.geojson`
+};
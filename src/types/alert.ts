@@ -0,0 +1,31 @@
+import { Earthquake } from './earthquake';
+import { FdsnArea } from './fdsn';
+
+export type PagerLevel = 'green' | 'yellow' | 'orange' | 'red';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  minMagnitude?: number;
+  maxDepth?: number; // km
+  // Lowest PAGER level that matches, events without a level never do
+  minAlertLevel?: PagerLevel;
+  tsunamiOnly: boolean;
+  area?: FdsnArea;
+  // Minimum time between two notifications from this rule, 0 disables
+  cooldownMinutes: number;
+}
+
+// Persisted so reloading the page doesn't repeat notifications
+export interface AlertState {
+  lastFiredAt: Record<string, number>;
+  notifiedAt: Record<string, number>;
+}
+
+export interface AlertNotification {
+  id: string;
+  rule: AlertRule;
+  earthquake: Earthquake;
+  firedAt: number;
+}
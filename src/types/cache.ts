@@ -0,0 +1,25 @@
+import { DataSourceId, SourceResults, SourceSyncTimes } from './dataSource';
+import { Earthquake } from './earthquake';
+
+export interface CacheSettings {
+  // Events whose origin time is older than this are evicted
+  retentionDays: number;
+  // Upper bound on stored events, the oldest origin times go first
+  maxEvents: number;
+}
+
+// One stored solution, keyed by event id with its latest revision
+export interface CachedEarthquake {
+  id: string;
+  source: DataSourceId;
+  time: number;
+  updated: number;
+  earthquake: Earthquake;
+}
+
+export interface CachedCatalog {
+  sourceResults: SourceResults;
+  sourceSyncedAt: SourceSyncTimes;
+  // Oldest successful sync among the requested sources
+  syncedAt: number | null;
+}
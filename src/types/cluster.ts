@@ -0,0 +1,23 @@
+import { Earthquake } from './earthquake';
+
+export interface ClusterSettings {
+  enabled: boolean;
+  // Events at or above this magnitude are never folded into a cluster
+  unclusteredMagnitude: number;
+  // Events closer than this on screen are grouped, in pixels
+  radius: number;
+}
+
+export interface EarthquakeCluster {
+  id: string;
+  latitude: number;
+  longitude: number;
+  earthquakes: Earthquake[];
+  maxMagnitude: number | null;
+  bounds: [[number, number], [number, number]]; // [[south, west], [north, east]]
+}
+
+export interface ClusterResult {
+  clusters: EarthquakeCluster[];
+  singles: Earthquake[];
+}
@@ -0,0 +1,30 @@
+// [lower, upper] in the units of a chart axis
+export type NumericRange = [number, number];
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+// Events per interval, hourly unless the catalog is too long for it
+export interface EventRateSeries {
+  bins: HistogramBin[];
+  intervalLabel: string;
+}
+
+export interface ScatterPoint {
+  x: number;
+  y: number;
+}
+
+export interface CategoryCount {
+  value: string;
+  count: number;
+}
+
+// Rectangle selected on a scatter plot
+export interface BrushSelection {
+  x: NumericRange;
+  y: NumericRange;
+}
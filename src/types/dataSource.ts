@@ -0,0 +1,46 @@
+import { Earthquake, ValidationReport } from './earthquake';
+import { FeedDescriptor } from './feed';
+
+export type DataSourceId = 'usgs' | 'emsc' | 'bmkg' | 'geonet';
+
+export type SourceErrors = Partial<Record<DataSourceId, string>>;
+
+export type SourceCounts = Partial<Record<DataSourceId, number>>;
+
+export type SourceValidation = Partial<Record<DataSourceId, ValidationReport>>;
+
+// Latest successful result of each source
+export type SourceResults = Partial<Record<DataSourceId, Earthquake[]>>;
+
+// When each source last loaded successfully
+export type SourceSyncTimes = Partial<Record<DataSourceId, number>>;
+
+export interface DataSourceConfig {
+  id: DataSourceId;
+  enabled: boolean;
+  // Empty string means the adapter's default URL for the selected feed
+  url: string;
+}
+
+export interface DataSourceAdapter {
+  id: DataSourceId;
+  name: string;
+  agency: string;
+  coverage: string;
+  getDefaultUrl: (feed: FeedDescriptor) => string;
+  // Whether the default URL already matches the feed's window and magnitude
+  // class, otherwise results are narrowed to the feed client-side
+  serverFiltered: boolean;
+  // Raw features in the `Earthquake` shape, validated after parsing
+  parse: (body: string) => unknown[];
+  // Endpoint for a single event by agency code, parsed with `parse`
+  getDetailUrl?: (code: string) => string;
+}
+
+export interface AssociationSettings {
+  timeSeconds: number;
+  distanceKm: number;
+  magnitude: number;
+  // Agencies in order of preference when choosing the preferred solution
+  agencyPriority: DataSourceId[];
+}
@@ -1,6 +1,7 @@
+// Validated event properties, nullability matches what feeds actually send
 export interface EarthquakeProperties {
-  mag: number;
-  place: string;
+  mag: number | null;
+  place: string | null;
   time: number;
   updated: number;
   tz: number | null;
@@ -20,9 +21,9 @@ export interface EarthquakeProperties {
   types: string;
   nst: number | null;
   dmin: number | null;
-  rms: number;
+  rms: number | null;
   gap: number | null;
-  magType: string;
+  magType: string | null;
   type: string;
   title: string;
 }
@@ -37,6 +38,9 @@ export interface Earthquake {
   properties: EarthquakeProperties;
   geometry: EarthquakeGeometry;
   id: string;
+  // Per-agency solutions merged into this preferred event, when more than
+  // one catalog reported it
+  solutions?: Earthquake[];
 }
 
 export interface EarthquakeResponse {
@@ -50,4 +54,23 @@ export interface EarthquakeResponse {
     count: number;
   };
   features: Earthquake[];
-}
\ No newline at end of file
+  validation?: ValidationReport;
+}
+
+export interface ValidationReport {
+  total: number;
+  accepted: number;
+  coerced: number;
+  rejected: number;
+  // Rejection counts keyed by reason
+  reasons: Record<string, number>;
+}
+
+export interface EarthquakeDiff {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  timestamp: number;
+}
+
+export type EarthquakeHighlight = 'new' | 'updated';
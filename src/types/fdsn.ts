@@ -0,0 +1,29 @@
+export type FdsnOrderBy = 'time' | 'time-asc' | 'magnitude' | 'magnitude-asc';
+
+export interface FdsnBoundingBox {
+  type: 'box';
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+export interface FdsnRadius {
+  type: 'radius';
+  latitude: number;
+  longitude: number;
+  maxRadiusKm: number;
+}
+
+export type FdsnArea = FdsnBoundingBox | FdsnRadius;
+
+export interface FdsnQuery {
+  startTime?: string; // ISO 8601, UTC
+  endTime?: string;   // ISO 8601, UTC
+  minMagnitude?: number;
+  maxMagnitude?: number;
+  minDepth?: number;  // km
+  maxDepth?: number;  // km
+  area?: FdsnArea;
+  orderBy?: FdsnOrderBy;
+}
@@ -0,0 +1,8 @@
+export type FeedWindow = 'hour' | 'day' | 'week' | 'month';
+
+export type FeedMagnitude = 'significant' | '4.5' | '2.5' | '1.0' | 'all';
+
+export interface FeedDescriptor {
+  window: FeedWindow;
+  magnitude: FeedMagnitude;
+}
@@ -0,0 +1,47 @@
+import { PagerLevel } from './alert';
+
+export interface RelativeTimeRange {
+  type: 'relative';
+  hours: number;
+}
+
+export interface AbsoluteTimeRange {
+  type: 'absolute';
+  start?: string; // datetime-local value, local time
+  end?: string;
+}
+
+export type TimeRange = RelativeTimeRange | AbsoluteTimeRange;
+
+// Every criterion the event list and map can be narrowed by. Unset bounds
+// and empty lists don't filter.
+export interface EarthquakeFilters {
+  search: string;
+  minMagnitude?: number;
+  maxMagnitude?: number;
+  minDepth?: number; // km
+  maxDepth?: number; // km
+  timeRange?: TimeRange;
+  alertLevels: PagerLevel[];
+  tsunamiOnly: boolean;
+  statuses: string[];
+  networks: string[];
+  eventTypes: string[];
+  magTypes: string[];
+  minSignificance?: number;
+}
+
+export type FilterKey = keyof EarthquakeFilters;
+
+export interface FilterChip {
+  key: FilterKey;
+  label: string;
+}
+
+// Values present in the current catalog, offered as choices
+export interface FilterOptions {
+  networks: string[];
+  eventTypes: string[];
+  magTypes: string[];
+  statuses: string[];
+}
@@ -0,0 +1,23 @@
+// What each event contributes to the density
+export type HeatmapWeighting = 'count' | 'magnitude' | 'energy';
+
+export interface HeatmapSettings {
+  enabled: boolean;
+  radius: number; // kernel radius, in screen pixels
+  weighting: HeatmapWeighting;
+}
+
+export interface DensityPoint {
+  x: number; // px
+  y: number;
+  weight: number;
+}
+
+// Density summed on a grid of square cells, row by row
+export interface DensityGrid {
+  columns: number;
+  rows: number;
+  cellSize: number; // px
+  values: Float32Array;
+  max: number;
+}
@@ -0,0 +1,27 @@
+// How the magnitude of completeness is picked
+export type McMethod = 'maxc' | 'maxc-corrected' | 'manual';
+
+export interface MagnitudeBin {
+  magnitude: number; // bin centre
+  count: number; // events in the bin
+  cumulative: number; // events in this bin or above
+}
+
+// Maximum-likelihood Gutenberg-Richter fit, log10 N(≥M) = a - bM, above Mc
+export interface GutenbergRichterFit {
+  mc: number;
+  // Bootstrap standard deviation, null when Mc was entered by hand
+  mcUncertainty: number | null;
+  b: number;
+  bUncertainty: number; // Shi and Bolt (1982) standard error
+  a: number;
+  count: number; // events at or above Mc
+}
+
+export interface MagnitudeFrequency {
+  bins: MagnitudeBin[];
+  binWidth: number;
+  total: number; // events with a magnitude
+  magTypes: string[];
+  fit: GutenbergRichterFit | null;
+}
@@ -0,0 +1,36 @@
+import { Earthquake } from './earthquake';
+
+// 'dom' draws one Leaflet marker per event, kept for benchmark comparisons
+export type MarkerRenderer = 'canvas' | 'dom';
+
+// An event to draw, moved off its epicenter when spread out from a cluster
+export interface PlacedEarthquake {
+  earthquake: Earthquake;
+  position?: [number, number]; // [latitude, longitude]
+}
+
+// Everything needed to paint one marker, shared by all events with the same
+// colour class, size and magnitude label
+export interface MarkerStyle {
+  key: string;
+  radius: number; // px, main disc
+  fill: string;
+  border: string;
+  glow: string;
+  label: string;
+  fontSize: number;
+}
+
+export interface BenchmarkConfig {
+  count: number;
+  renderer: MarkerRenderer;
+}
+
+export interface FrameStats {
+  frames: number;
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+  // Frames over 50 ms, which read as stutter
+  longFrames: number;
+}
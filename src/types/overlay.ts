@@ -0,0 +1,45 @@
+import { FeatureCollection } from 'geojson';
+
+export type OverlayId = 'plates' | 'faults' | 'slabs' | 'volcanoes';
+
+// Property shown when a feature is clicked
+export interface OverlayField {
+  key: string;
+  label: string;
+  unit?: string;
+}
+
+export interface OverlayLegendItem {
+  label: string;
+  color: string;
+}
+
+export interface MapOverlay {
+  id: OverlayId;
+  label: string;
+  description: string;
+  // Relative to the app's base URL, files live in public/data
+  path: string;
+  fields: OverlayField[];
+  legend: OverlayLegendItem[];
+}
+
+export type OverlayData = FeatureCollection;
+
+// Entry of public/data/overlays.json, which scripts/build-overlays.mjs writes
+// for each overlay it generated
+export interface OverlaySource {
+  attribution: string;
+  licence: string;
+  licenceUrl: string | null;
+}
+
+// Overlays without an entry have no data yet and aren't offered
+export type OverlaySources = Partial<Record<OverlayId, OverlaySource>>;
+
+// Clicked feature, shown in a popup where it was clicked
+export interface SelectedOverlayFeature {
+  overlay: OverlayId;
+  properties: Record<string, unknown>;
+  position: [number, number];
+}
@@ -0,0 +1,65 @@
+export type QueryFieldKind = 'number' | 'text' | 'keyword' | 'level' | 'boolean' | 'duration' | 'date';
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryField {
+  name: string;
+  kind: QueryFieldKind;
+  description: string;
+}
+
+// Character span in the query string, end is exclusive
+export interface QuerySpan {
+  start: number;
+  end: number;
+}
+
+export type QueryToken = QuerySpan & (
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { type: 'text'; text: string }
+  | {
+      type: 'term';
+      field: string;
+      operator: QueryOperator;
+      value: string;
+      // Where the value starts, for highlighting and completion
+      valueStart: number;
+    }
+);
+
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; text: string }
+  | {
+      type: 'comparison';
+      field: string;
+      operator: QueryOperator;
+      // Numbers, durations (ms), dates (epoch ms) and PAGER levels (index)
+      // are compared as numbers
+      value: number | string | boolean;
+      // Set for a date without a time, which stands for that whole UTC day
+      span?: number;
+    };
+
+export interface QueryError extends QuerySpan {
+  message: string;
+}
+
+export interface ParsedQuery {
+  tokens: QueryToken[];
+  ast: QueryNode | null;
+  errors: QueryError[];
+  // False for plain text, which keeps the substring match on place
+  structured: boolean;
+}
+
+export interface QuerySuggestion {
+  label: string;
+  insertText: string;
+  description?: string;
+}
+
+export interface QueryCompletion extends QuerySpan {
+  suggestions: QuerySuggestion[];
+}
@@ -0,0 +1,14 @@
+export interface ReferencePoint {
+  latitude: number;
+  longitude: number;
+  label: string;
+  source: 'geolocation' | 'manual';
+}
+
+export interface EventProximity {
+  distanceKm: number;
+  // Degrees clockwise from north, from the reference point to the event
+  bearing: number;
+}
+
+export type SortOrder = 'newest' | 'closest';
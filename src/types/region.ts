@@ -0,0 +1,32 @@
+import { Earthquake } from './earthquake';
+
+// Positions are [longitude, latitude], matching GeoJSON
+export type LngLat = [number, number];
+
+export interface PolygonShape {
+  type: 'polygon';
+  // Outer ring without the closing position
+  coordinates: LngLat[];
+}
+
+export interface CircleShape {
+  type: 'circle';
+  center: LngLat;
+  radiusKm: number;
+}
+
+export type RegionShape = PolygonShape | CircleShape;
+
+export type RegionDrawMode = RegionShape['type'];
+
+export interface WatchRegion {
+  id: string;
+  name: string;
+  color: string;
+  shape: RegionShape;
+}
+
+export interface RegionStats {
+  count: number;
+  latest: Earthquake | null;
+}
@@ -0,0 +1,39 @@
+import { Earthquake } from './earthquake';
+
+export type ColorEncoding = 'magnitude' | 'depth' | 'age' | 'significance' | 'alert';
+
+export type SizeEncoding = 'magnitude' | 'felt';
+
+export interface SymbologySettings {
+  color: ColorEncoding;
+  size: SizeEncoding;
+}
+
+// One class's colours: hex for markers, Tailwind classes for badges
+export interface SymbolColors {
+  bg: string;
+  border: string;
+  glow: string;
+  badge: string;
+}
+
+export interface SymbolClass {
+  key: string;
+  label: string;
+  range: string; // values covered, for the legend
+  colors: SymbolColors;
+}
+
+export interface ColorScale {
+  id: ColorEncoding;
+  label: string;
+  classes: SymbolClass[]; // in legend order
+  classify: (earthquake: Earthquake, now: number) => SymbolClass;
+}
+
+export interface SizeScale {
+  id: SizeEncoding;
+  label: string;
+  getSize: (earthquake: Earthquake) => number; // marker diameter, px
+  legend: { label: string; size: number }[];
+}
@@ -0,0 +1,44 @@
+import { Earthquake } from './earthquake';
+
+export type TableColumnId =
+  | 'time'
+  | 'mag'
+  | 'magType'
+  | 'place'
+  | 'depth'
+  | 'coordinates'
+  | 'sig'
+  | 'felt'
+  | 'alert'
+  | 'status'
+  | 'net'
+  | 'nst'
+  | 'gap'
+  | 'rms'
+  | 'dmin';
+
+export interface TableColumn {
+  id: TableColumnId;
+  label: string;
+  description: string;
+  align: 'left' | 'right';
+  // First click sorts this way: text A-Z, numbers and times largest first
+  defaultDirection: SortDirection;
+  // Sort key, null values always sort last
+  getValue: (earthquake: Earthquake) => number | string | null;
+  format: (earthquake: Earthquake) => string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableSort {
+  column: TableColumnId;
+  direction: SortDirection;
+}
+
+// Saved between visits
+export interface TableLayout {
+  order: TableColumnId[]; // every column, in display order
+  hidden: TableColumnId[];
+  sort: TableSort[]; // by priority
+}
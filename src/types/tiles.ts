@@ -0,0 +1,37 @@
+export interface TileArea {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+  minZoom: number;
+  maxZoom: number;
+}
+
+export interface TileLayerConfig {
+  url: string;
+  attribution: string;
+  // Deepest zoom the server has tiles for, the map enlarges them beyond it
+  maxNativeZoom?: number;
+}
+
+export type BasemapId = 'street' | 'topographic' | 'satellite' | 'ocean' | 'custom';
+
+export interface BasemapOption {
+  id: BasemapId;
+  label: string;
+  description: string;
+}
+
+export interface BasemapSettings {
+  basemap: BasemapId;
+  // URL template with {z}, {x} and {y}, e.g. a lab's own tile server
+  customUrl: string;
+  customAttribution: string;
+  customMaxZoom: number;
+}
+
+export interface TilePrecacheProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
@@ -0,0 +1,23 @@
+import { Earthquake } from './earthquake';
+
+export interface TimelapseSettings {
+  speed: number; // simulated ms per real ms
+  windowMs: number; // how long an event stays on the map after its origin time
+}
+
+export interface TimelapseOption {
+  value: number;
+  label: string;
+}
+
+// Origin times covered by the loaded events, epoch ms
+export interface PlaybackRange {
+  start: number;
+  end: number;
+}
+
+// Events on the map at one playback time, with how faded each one is
+export interface PlaybackFrame {
+  earthquakes: Earthquake[];
+  opacities: Map<string, number>;
+}
@@ -0,0 +1,27 @@
+import { DataSourceId } from './dataSource';
+import { FeedDescriptor } from './feed';
+import { EarthquakeFilters } from './filters';
+import { SortOrder } from './reference';
+
+export type ActiveView = 'map' | 'list' | 'table' | 'dashboard';
+
+export interface MapView {
+  center: [number, number]; // [latitude, longitude]
+  zoom: number;
+}
+
+// Everything a shared link restores
+export interface UrlState {
+  view: ActiveView;
+  feed: FeedDescriptor;
+  // Enabled data sources, null when the link leaves the stored choice
+  dataSources: DataSourceId[] | null;
+  filters: EarthquakeFilters;
+  // Watch region ids, only those saved in the browser apply
+  regionIds: string[];
+  maxDistanceKm: number | null;
+  sortOrder: SortOrder;
+  mapView: MapView | null;
+  darkMode: boolean;
+  eventId: string | null;
+}
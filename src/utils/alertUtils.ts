@@ -0,0 +1,115 @@
+import { AlertNotification, AlertRule, AlertState, PagerLevel } from '../types/alert';
+import { Earthquake } from '../types/earthquake';
+import { FdsnArea } from '../types/fdsn';
+import { getDistanceKm } from './geoUtils';
+import { formatMagnitude } from './earthquakeUtils';
+
+export const PAGER_LEVELS: PagerLevel[] = ['green', 'yellow', 'orange', 'red'];
+
+export const EMPTY_ALERT_STATE: AlertState = {
+  lastFiredAt: {},
+  notifiedAt: {}
+};
+
+// Notified ids are forgotten after this, long after any feed drops the event
+const NOTIFIED_RETENTION_MS = 30 * 24 * 3600000;
+
+export const createAlertRule = (): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: 'New rule',
+  enabled: true,
+  minMagnitude: 5,
+  tsunamiOnly: false,
+  cooldownMinutes: 10
+});
+
+export const isInArea = (earthquake: Earthquake, area: FdsnArea): boolean => {
+  const [longitude, latitude] = earthquake.geometry.coordinates;
+
+  if (area.type === 'radius') {
+    return getDistanceKm(area.latitude, area.longitude, latitude, longitude) <= area.maxRadiusKm;
+  }
+
+  if (latitude < area.minLatitude || latitude > area.maxLatitude) return false;
+  // A box whose west edge is east of its east edge crosses the antimeridian
+  return area.minLongitude <= area.maxLongitude
+    ? longitude >= area.minLongitude && longitude <= area.maxLongitude
+    : longitude >= area.minLongitude || longitude <= area.maxLongitude;
+};
+
+export const matchesAlertRule = (earthquake: Earthquake, rule: AlertRule): boolean => {
+  const { mag, alert, tsunami } = earthquake.properties;
+  const depth = earthquake.geometry.coordinates[2];
+
+  if (rule.minMagnitude !== undefined && (mag === null || mag < rule.minMagnitude)) return false;
+  if (rule.maxDepth !== undefined && depth > rule.maxDepth) return false;
+  if (rule.tsunamiOnly && tsunami !== 1) return false;
+  if (rule.minAlertLevel) {
+    const level = PAGER_LEVELS.indexOf(alert as PagerLevel);
+    if (level < PAGER_LEVELS.indexOf(rule.minAlertLevel)) return false;
+  }
+  if (rule.area && !isInArea(earthquake, rule.area)) return false;
+  return true;
+};
+
+// Every id the event has been published under, across agencies and revisions
+const getEventIds = (earthquake: Earthquake): string[] => {
+  const ids = earthquake.properties.ids.split(',').filter(Boolean);
+  return ids.includes(earthquake.id) ? ids : [earthquake.id, ...ids];
+};
+
+/**
+ * Checks newly arrived events against the rules, oldest first. Each event
+ * notifies at most once under any of its ids, and a rule stays quiet for
+ * its cooldown after firing. Returns the notifications and the next state.
+ */
+export const evaluateAlertRules = (
+  earthquakes: Earthquake[],
+  rules: AlertRule[],
+  state: AlertState,
+  now: number = Date.now()
+): { notifications: AlertNotification[]; state: AlertState } => {
+  const lastFiredAt = { ...state.lastFiredAt };
+  const notifiedAt = Object.fromEntries(
+    Object.entries(state.notifiedAt).filter(([, time]) => now - time < NOTIFIED_RETENTION_MS)
+  );
+  const notifications: AlertNotification[] = [];
+  const enabledRules = rules.filter(rule => rule.enabled);
+
+  [...earthquakes]
+    .sort((a, b) => a.properties.time - b.properties.time)
+    .forEach(earthquake => {
+      const ids = getEventIds(earthquake);
+      if (ids.some(id => notifiedAt[id] !== undefined)) return;
+
+      const rule = enabledRules.find(candidate => (
+        matchesAlertRule(earthquake, candidate)
+        && now - (lastFiredAt[candidate.id] ?? 0) >= candidate.cooldownMinutes * 60000
+      ));
+      if (!rule) return;
+
+      lastFiredAt[rule.id] = now;
+      ids.forEach(id => {
+        notifiedAt[id] = now;
+      });
+      notifications.push({ id: `${rule.id}:${earthquake.id}`, rule, earthquake, firedAt: now });
+    });
+
+  return { notifications, state: { lastFiredAt, notifiedAt } };
+};
+
+export const formatAlertTitle = (notification: AlertNotification): string => {
+  const { mag, place } = notification.earthquake.properties;
+  return `M ${formatMagnitude(mag)} - ${place ?? 'Unknown location'}`;
+};
+
+export const describeAlertRule = (rule: AlertRule): string => {
+  const conditions: string[] = [];
+  if (rule.minMagnitude !== undefined) conditions.push(`M${rule.minMagnitude}+`);
+  if (rule.maxDepth !== undefined) conditions.push(`depth ≤ ${rule.maxDepth} km`);
+  if (rule.minAlertLevel) conditions.push(`PAGER ${rule.minAlertLevel}+`);
+  if (rule.tsunamiOnly) conditions.push('tsunami flag');
+  if (rule.area?.type === 'box') conditions.push('inside box');
+  if (rule.area?.type === 'radius') conditions.push(`within ${rule.area.maxRadiusKm} km`);
+  return conditions.length > 0 ? conditions.join(' · ') : 'Any event';
+};
@@ -0,0 +1,110 @@
+import { AssociationSettings, DataSourceId } from '../types/dataSource';
+import { Earthquake } from '../types/earthquake';
+import { getEarthquakeSource } from '../sources';
+import { getDistanceKm } from './geoUtils';
+
+export const DEFAULT_ASSOCIATION_SETTINGS: AssociationSettings = {
+  timeSeconds: 30,
+  distanceKm: 100,
+  magnitude: 1,
+  agencyPriority: ['usgs', 'emsc', 'bmkg', 'geonet']
+};
+
+interface EventGroup {
+  anchor: Earthquake;
+  members: Earthquake[];
+  agencies: Set<DataSourceId>;
+}
+
+const isWithinTolerances = (
+  a: Earthquake,
+  b: Earthquake,
+  settings: AssociationSettings
+): boolean => {
+  const [lonA, latA] = a.geometry.coordinates;
+  const [lonB, latB] = b.geometry.coordinates;
+  const magA = a.properties.mag;
+  const magB = b.properties.mag;
+  // A solution without a magnitude can still match on time and place
+  const magnitudesMatch = magA === null || magB === null || Math.abs(magA - magB) <= settings.magnitude;
+
+  return Math.abs(a.properties.time - b.properties.time) <= settings.timeSeconds * 1000
+    && magnitudesMatch
+    && getDistanceKm(latA, lonA, latB, lonB) <= settings.distanceKm;
+};
+
+const getPreferenceRank = (earthquake: Earthquake, settings: AssociationSettings): number => {
+  const priority = settings.agencyPriority.indexOf(getEarthquakeSource(earthquake));
+  const agencyRank = priority === -1 ? settings.agencyPriority.length : priority;
+  // Reviewed solutions beat automatic ones regardless of agency
+  return (earthquake.properties.status === 'reviewed' ? 0 : 100) + agencyRank;
+};
+
+const joinIds = (values: string[]): string => {
+  const unique = Array.from(new Set(values.flatMap(value => value.split(',')).filter(Boolean)));
+  return `,${unique.join(',')},`;
+};
+
+const toPreferredEvent = (group: EventGroup, settings: AssociationSettings): Earthquake => {
+  if (group.members.length === 1) {
+    return group.anchor;
+  }
+
+  const solutions = [...group.members].sort(
+    (a, b) => getPreferenceRank(a, settings) - getPreferenceRank(b, settings)
+  );
+  const preferred = solutions[0];
+
+  return {
+    ...preferred,
+    properties: {
+      ...preferred.properties,
+      updated: Math.max(...solutions.map(eq => eq.properties.updated)),
+      ids: joinIds(solutions.map(eq => eq.properties.ids)),
+      sources: joinIds(solutions.map(eq => eq.properties.sources))
+    },
+    solutions
+  };
+};
+
+/**
+ * Groups solutions of the same physical earthquake reported by different
+ * catalogs and returns one preferred event per group. Each catalog
+ * contributes at most one solution to a group.
+ */
+export const associateEarthquakes = (
+  earthquakes: Earthquake[],
+  settings: AssociationSettings = DEFAULT_ASSOCIATION_SETTINGS
+): Earthquake[] => {
+  const sorted = [...earthquakes].sort((a, b) => a.properties.time - b.properties.time);
+  const groups: EventGroup[] = [];
+  const timeWindow = settings.timeSeconds * 1000;
+  let firstOpenGroup = 0;
+
+  sorted.forEach(earthquake => {
+    const agency = getEarthquakeSource(earthquake);
+
+    // Groups are ordered by anchor time, skip those too old to match
+    while (
+      firstOpenGroup < groups.length
+      && earthquake.properties.time - groups[firstOpenGroup].anchor.properties.time > timeWindow
+    ) {
+      firstOpenGroup++;
+    }
+
+    const match = groups.slice(firstOpenGroup).find(group => (
+      !group.agencies.has(agency) && isWithinTolerances(group.anchor, earthquake, settings)
+    ));
+
+    if (match) {
+      match.members.push(earthquake);
+      match.agencies.add(agency);
+    } else {
+      groups.push({ anchor: earthquake, members: [earthquake], agencies: new Set([agency]) });
+    }
+  });
+
+  return groups
+    .map(group => toPreferredEvent(group, settings))
+    .sort((a, b) => b.properties.time - a.properties.time);
+};
@@ -0,0 +1,119 @@
+import { Earthquake } from '../types/earthquake';
+import { BenchmarkConfig, FrameStats } from '../types/markers';
+
+const MAX_BENCHMARK_EVENTS = 50000;
+
+// Busy subduction zones and rifts, so the fixture clusters like real data
+const HOTSPOTS: [number, number, string][] = [
+  [38, 142, 'Honshu, Japan'],
+  [-6, 130, 'Banda Sea'],
+  [-20, -70, 'northern Chile'],
+  [61, -150, 'southern Alaska'],
+  [36, -118, 'central California'],
+  [-38, 176, 'North Island, New Zealand'],
+  [14, 121, 'Luzon, Philippines'],
+  [38, 28, 'western Turkey'],
+  [-18, 168, 'Vanuatu'],
+  [19, -155, 'Island of Hawaii'],
+  [28, 84, 'central Nepal'],
+  [-2, 101, 'southern Sumatra']
+];
+
+// Small seeded generator, so every run draws the same catalog
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// ?benchmark=10000 swaps the live feed for a synthetic catalog of that size,
+// &renderer=dom measures the one-marker-per-event renderer instead
+export const getBenchmarkConfig = (search: string): BenchmarkConfig | null => {
+  const params = new URLSearchParams(search);
+  const count = Number(params.get('benchmark'));
+  if (!Number.isInteger(count) || count <= 0) return null;
+  return {
+    count: Math.min(count, MAX_BENCHMARK_EVENTS),
+    renderer: params.get('renderer') === 'dom' ? 'dom' : 'canvas'
+  };
+};
+
+/**
+ * Deterministic fixture of `count` events spread around a dozen hotspots
+ * over the last week. Magnitudes start at 2.5, like the USGS 2.5+ feeds,
+ * and follow Gutenberg-Richter with b = 1: each unit up is ten times rarer.
+ */
+export const createBenchmarkEarthquakes = (count: number, seed: number = 1): Earthquake[] => {
+  const random = createRandom(seed);
+  const now = Date.now();
+
+  return Array.from({ length: count }, (_, index) => {
+    const [latitude, longitude, region] = HOTSPOTS[Math.floor(random() * HOTSPOTS.length)];
+    const spread = random() < 0.8 ? 3 : 15;
+    const mag = Math.round(Math.min(8.5, 2.5 - Math.log10(1 - random())) * 10) / 10;
+    const time = now - Math.floor(random() * 7 * 24 * 3600000);
+    const depth = Math.round(random() ** 2 * 300 * 10) / 10;
+    const id = `bench${index}`;
+
+    return {
+      type: 'Feature',
+      id,
+      geometry: {
+        type: 'Point',
+        coordinates: [
+          Math.round((((longitude + (random() - 0.5) * spread + 540) % 360) - 180) * 1000) / 1000,
+          Math.round((latitude + (random() - 0.5) * spread) * 1000) / 1000,
+          depth
+        ]
+      },
+      properties: {
+        mag,
+        place: `Benchmark event near ${region}`,
+        time,
+        updated: time,
+        tz: null,
+        url: '',
+        detail: '',
+        felt: null,
+        cdi: null,
+        mmi: null,
+        alert: null,
+        status: 'automatic',
+        tsunami: 0,
+        sig: Math.round(mag * 100),
+        net: 'bench',
+        code: String(index),
+        ids: `,${id},`,
+        sources: ',bench,',
+        types: ',origin,',
+        nst: null,
+        dmin: null,
+        rms: null,
+        gap: null,
+        magType: 'ml',
+        type: 'earthquake',
+        title: `M ${mag.toFixed(1)} - Benchmark event near ${region}`
+      }
+    };
+  });
+};
+
+export const summarizeFrameTimes = (durations: number[]): FrameStats => {
+  if (durations.length === 0) {
+    return { frames: 0, meanMs: 0, p95Ms: 0, maxMs: 0, longFrames: 0 };
+  }
+  const sorted = [...durations].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, duration) => sum + duration, 0);
+  return {
+    frames: sorted.length,
+    meanMs: total / sorted.length,
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    maxMs: sorted[sorted.length - 1],
+    longFrames: sorted.filter(duration => duration > 50).length
+  };
+};
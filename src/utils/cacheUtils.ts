@@ -0,0 +1,197 @@
+import { CacheSettings, CachedCatalog, CachedEarthquake } from '../types/cache';
+import { DataSourceConfig, DataSourceId, SourceResults, SourceSyncTimes } from '../types/dataSource';
+import { Earthquake } from '../types/earthquake';
+import { FeedDescriptor } from '../types/feed';
+import { matchesFeed } from './feedUtils';
+
+const DB_NAME = 'earthquake-monitor';
+const DB_VERSION = 1;
+const EVENTS_STORE = 'events';
+const SYNC_STORE = 'sync';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  retentionDays: 30,
+  maxEvents: 50000
+};
+
+interface SyncRecord {
+  source: DataSourceId;
+  syncedAt: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const events = request.result.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+        events.createIndex('time', 'time');
+        events.createIndex('source', 'source');
+        request.result.createObjectStore(SYNC_STORE, { keyPath: 'source' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call retry instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Upserts one source's solutions by event id, keeping whichever revision
+ * has the latest `updated` time, and records when the source last synced.
+ */
+export const storeEarthquakes = async (source: DataSourceId, earthquakes: Earthquake[]): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction([EVENTS_STORE, SYNC_STORE], 'readwrite');
+  const events = transaction.objectStore(EVENTS_STORE);
+
+  earthquakes.forEach(earthquake => {
+    const request = events.get(earthquake.id);
+    request.onsuccess = () => {
+      const existing: CachedEarthquake | undefined = request.result;
+      if (existing && existing.updated > earthquake.properties.updated) return;
+
+      const record: CachedEarthquake = {
+        id: earthquake.id,
+        source,
+        time: earthquake.properties.time,
+        updated: earthquake.properties.updated,
+        earthquake
+      };
+      events.put(record);
+    };
+  });
+
+  const sync: SyncRecord = { source, syncedAt: Date.now() };
+  transaction.objectStore(SYNC_STORE).put(sync);
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Reads the cached solutions of the given sources. Events from default
+ * feeds are narrowed to the selected feed as of the last sync, so an old
+ * cache still shows what the feed looked like back then.
+ */
+export const readCachedCatalog = async (
+  sources: DataSourceConfig[],
+  feed: FeedDescriptor
+): Promise<CachedCatalog> => {
+  const database = await openDatabase();
+  const transaction = database.transaction([EVENTS_STORE, SYNC_STORE], 'readonly');
+  const sourceIndex = transaction.objectStore(EVENTS_STORE).index('source');
+  const syncStore = transaction.objectStore(SYNC_STORE);
+
+  const entries = await Promise.all(sources.map(async config => {
+    const [records, sync]: [CachedEarthquake[], SyncRecord | undefined] = await Promise.all([
+      requestToPromise(sourceIndex.getAll(config.id)),
+      requestToPromise(syncStore.get(config.id))
+    ]);
+    const syncedAt = sync?.syncedAt ?? Date.now();
+    const earthquakes = records
+      .map(record => record.earthquake)
+      .filter(earthquake => config.url.trim() !== '' || matchesFeed(earthquake, feed, syncedAt));
+
+    return { id: config.id, earthquakes, syncedAt: sync?.syncedAt ?? null };
+  }));
+
+  const sourceResults: SourceResults = {};
+  const sourceSyncedAt: SourceSyncTimes = {};
+  entries
+    .filter(entry => entry.earthquakes.length > 0)
+    .forEach(({ id, earthquakes, syncedAt }) => {
+      sourceResults[id] = earthquakes;
+      if (syncedAt !== null) sourceSyncedAt[id] = syncedAt;
+    });
+  const syncTimes = Object.values(sourceSyncedAt);
+
+  return {
+    sourceResults,
+    sourceSyncedAt,
+    syncedAt: syncTimes.length > 0 ? Math.min(...syncTimes) : null
+  };
+};
+
+/**
+ * Deletes events older than the retention window, then the oldest origin
+ * times until the store fits within `maxEvents`. Returns how many remain.
+ */
+export const evictEarthquakes = async (settings: CacheSettings): Promise<number> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(EVENTS_STORE, 'readwrite');
+  const events = transaction.objectStore(EVENTS_STORE);
+  const timeIndex = events.index('time');
+  const cutoff = Date.now() - settings.retentionDays * DAY_MS;
+  let remaining = 0;
+
+  const expired = timeIndex.openCursor(IDBKeyRange.upperBound(cutoff, true));
+  expired.onsuccess = () => {
+    const cursor = expired.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+      return;
+    }
+
+    // Expired events are gone, trim the oldest if still over capacity
+    const countRequest = events.count();
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - settings.maxEvents;
+      remaining = Math.min(countRequest.result, settings.maxEvents);
+      if (excess <= 0) return;
+
+      const oldest = timeIndex.openCursor();
+      oldest.onsuccess = () => {
+        const oldestCursor = oldest.result;
+        if (oldestCursor && excess > 0) {
+          oldestCursor.delete();
+          excess--;
+          oldestCursor.continue();
+        }
+      };
+    };
+  };
+
+  await transactionDone(transaction);
+  return remaining;
+};
+
+export const countCachedEarthquakes = async (): Promise<number> => {
+  const database = await openDatabase();
+  return requestToPromise(database.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE).count());
+};
+
+export const clearEarthquakeCache = async (): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction([EVENTS_STORE, SYNC_STORE], 'readwrite');
+  transaction.objectStore(EVENTS_STORE).clear();
+  transaction.objectStore(SYNC_STORE).clear();
+  await transactionDone(transaction);
+};
@@ -0,0 +1,152 @@
+import { CRS, LatLng, Point } from 'leaflet';
+import { Earthquake } from '../types/earthquake';
+import { ClusterResult, ClusterSettings, EarthquakeCluster } from '../types/cluster';
+
+export const DEFAULT_CLUSTER_SETTINGS: ClusterSettings = {
+  enabled: true,
+  unclusteredMagnitude: 6,
+  radius: 60
+};
+
+export const UNCLUSTERED_MAGNITUDE_OPTIONS = [4, 5, 6, 7, 8];
+
+interface ProjectedEarthquake {
+  earthquake: Earthquake;
+  point: Point;
+}
+
+// Pixel position at a zoom level, the same projection the map tiles use
+const project = (earthquake: Earthquake, zoom: number): Point => {
+  const [longitude, latitude] = earthquake.geometry.coordinates;
+  return CRS.EPSG3857.latLngToPoint(new LatLng(latitude, longitude), zoom);
+};
+
+const getCellKey = (x: number, y: number): string => `${x}:${y}`;
+
+const createCluster = (members: ProjectedEarthquake[], zoom: number): EarthquakeCluster => {
+  let x = 0;
+  let y = 0;
+  let south = Infinity;
+  let west = Infinity;
+  let north = -Infinity;
+  let east = -Infinity;
+
+  members.forEach(({ earthquake, point }) => {
+    const [longitude, latitude] = earthquake.geometry.coordinates;
+    x += point.x;
+    y += point.y;
+    south = Math.min(south, latitude);
+    north = Math.max(north, latitude);
+    west = Math.min(west, longitude);
+    east = Math.max(east, longitude);
+  });
+
+  const center = CRS.EPSG3857.pointToLatLng(new Point(x / members.length, y / members.length), zoom);
+  const [seed] = members;
+
+  return {
+    // Named after the strongest event, so it is stable while panning
+    id: `cluster-${seed.earthquake.id}`,
+    latitude: center.lat,
+    longitude: center.lng,
+    earthquakes: members.map(member => member.earthquake),
+    maxMagnitude: seed.earthquake.properties.mag,
+    bounds: [[south, west], [north, east]]
+  };
+};
+
+/**
+ * Groups events that would overlap on screen at the given zoom. Events are
+ * taken strongest first and each one that isn't grouped yet gathers the
+ * ungrouped events within `radius` pixels of it, found through a grid of
+ * radius-sized cells. Groups of one, and events at or above the
+ * unclustered magnitude, are returned as singles.
+ */
+export const clusterEarthquakes = (
+  earthquakes: Earthquake[],
+  zoom: number,
+  settings: ClusterSettings
+): ClusterResult => {
+  if (!settings.enabled) {
+    return { clusters: [], singles: earthquakes };
+  }
+
+  const singles: Earthquake[] = [];
+  const candidates: ProjectedEarthquake[] = [];
+
+  earthquakes.forEach(earthquake => {
+    const { mag } = earthquake.properties;
+    if (mag !== null && mag >= settings.unclusteredMagnitude) {
+      singles.push(earthquake);
+    } else {
+      candidates.push({ earthquake, point: project(earthquake, zoom) });
+    }
+  });
+
+  candidates.sort((a, b) => (b.earthquake.properties.mag ?? -Infinity) - (a.earthquake.properties.mag ?? -Infinity));
+
+  const { radius } = settings;
+  const grid = new Map<string, number[]>();
+  candidates.forEach(({ point }, index) => {
+    const key = getCellKey(Math.floor(point.x / radius), Math.floor(point.y / radius));
+    const cell = grid.get(key);
+    if (cell) {
+      cell.push(index);
+    } else {
+      grid.set(key, [index]);
+    }
+  });
+
+  const grouped = new Uint8Array(candidates.length);
+  const clusters: EarthquakeCluster[] = [];
+
+  candidates.forEach((seed, index) => {
+    if (grouped[index]) return;
+    grouped[index] = 1;
+
+    const members = [seed];
+    const cellX = Math.floor(seed.point.x / radius);
+    const cellY = Math.floor(seed.point.y / radius);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        grid.get(getCellKey(cellX + dx, cellY + dy))?.forEach(other => {
+          if (!grouped[other] && candidates[other].point.distanceTo(seed.point) <= radius) {
+            grouped[other] = 1;
+            members.push(candidates[other]);
+          }
+        });
+      }
+    }
+
+    if (members.length === 1) {
+      singles.push(seed.earthquake);
+    } else {
+      clusters.push(createCluster(members, zoom));
+    }
+  });
+
+  return { clusters, singles };
+};
+
+// Pixel offsets around a cluster centre for its spiderfied events: a circle
+// for a few, an outward spiral for more so the legs don't overlap
+export const getSpiderOffsets = (count: number): [number, number][] => {
+  if (count <= 8) {
+    const radius = Math.max(36, count * 10);
+    return Array.from({ length: count }, (_, index) => {
+      const angle = (index / count) * 2 * Math.PI - Math.PI / 2;
+      return [radius * Math.cos(angle), radius * Math.sin(angle)];
+    });
+  }
+
+  const offsets: [number, number][] = [];
+  let legLength = 28;
+  let angle = 0;
+  for (let index = 0; index < count; index++) {
+    angle += 36 / legLength + index * 0.0005;
+    offsets.push([legLength * Math.cos(angle), legLength * Math.sin(angle)]);
+    legLength += (2 * Math.PI * 6) / angle;
+  }
+  return offsets;
+};
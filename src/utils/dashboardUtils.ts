@@ -0,0 +1,184 @@
+import { Earthquake } from '../types/earthquake';
+import { EarthquakeFilters, FilterKey } from '../types/filters';
+import { CategoryCount, EventRateSeries, HistogramBin, NumericRange } from '../types/dashboard';
+import { clearFilter, getTimeBounds } from './filterUtils';
+import { formatTime, toDateTimeLocal } from './dateUtils';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// Longer catalogs are counted per day, so the series stays readable
+const MAX_HOURLY_BINS = 720;
+// Roughly how many bars a histogram is split into
+const HISTOGRAM_BINS = 20;
+
+// 1, 2 or 5 times a power of ten, giving about `count` steps over the span
+export const getNiceStep = (span: number, count: number): number => {
+  if (span <= 0) return 1;
+  const raw = span / count;
+  const power = 10 ** Math.floor(Math.log10(raw));
+  const fraction = raw / power;
+  const nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10;
+  return nice * power;
+};
+
+// Rounds away the floating-point noise of multiplying steps
+const roundValue = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+export const getNiceTicks = (min: number, max: number, count: number = 5): number[] => {
+  const step = getNiceStep(max - min, count);
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-6; tick += step) {
+    ticks.push(roundValue(tick));
+  }
+  return ticks;
+};
+
+// Evenly spaced, as calendar-aligned time ticks aren't worth the code here
+export const getTimeTicks = (start: number, end: number, count: number = 5): number[] => {
+  if (end <= start) return [start];
+  return Array.from({ length: count }, (_, index) => start + ((end - start) * index) / (count - 1));
+};
+
+export const formatTimeTick = (time: number, span: number): string => {
+  if (span <= 2 * DAY_MS) return formatTime(time);
+  return new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Equal-width bins aligned to multiples of the step, empty ones included
+export const binValues = (values: number[], step: number, offset: number = 0): HistogramBin[] => {
+  if (values.length === 0) return [];
+  // The small offset keeps 2.6 in the 2.6–2.8 bin despite 2.6 / 0.2 = 12.999...
+  const indices = values.map(value => Math.floor((value - offset) / step + 1e-9));
+  const first = indices.reduce((min, index) => Math.min(min, index), Infinity);
+  const last = indices.reduce((max, index) => Math.max(max, index), -Infinity);
+  const counts = new Array<number>(last - first + 1).fill(0);
+  indices.forEach(index => counts[index - first]++);
+  return counts.map((count, position) => ({
+    start: roundValue(offset + (first + position) * step),
+    end: roundValue(offset + (first + position + 1) * step),
+    count
+  }));
+};
+
+const getMagnitudes = (earthquakes: Earthquake[]): number[] => earthquakes
+  .map(earthquake => earthquake.properties.mag)
+  .filter((mag): mag is number => mag !== null);
+
+const getDepths = (earthquakes: Earthquake[]): number[] => earthquakes.map(earthquake => earthquake.geometry.coordinates[2]);
+
+const getBinStep = (values: number[], minimum: number): number => {
+  const min = values.reduce((low, value) => Math.min(low, value), Infinity);
+  const max = values.reduce((high, value) => Math.max(high, value), -Infinity);
+  return Math.max(minimum, getNiceStep(max - min, HISTOGRAM_BINS));
+};
+
+export const getMagnitudeHistogram = (earthquakes: Earthquake[]): HistogramBin[] => {
+  const magnitudes = getMagnitudes(earthquakes);
+  return binValues(magnitudes, getBinStep(magnitudes, 0.1));
+};
+
+export const getDepthHistogram = (earthquakes: Earthquake[]): HistogramBin[] => {
+  const depths = getDepths(earthquakes);
+  return binValues(depths, getBinStep(depths, 1));
+};
+
+// Hourly counts, or daily for long catalogs, with bins starting on the local hour
+export const getEventRateSeries = (earthquakes: Earthquake[]): EventRateSeries => {
+  const times = earthquakes.map(earthquake => earthquake.properties.time);
+  const start = times.reduce((min, time) => Math.min(min, time), Infinity);
+  const end = times.reduce((max, time) => Math.max(max, time), -Infinity);
+  const hourly = (end - start) / HOUR_MS <= MAX_HOURLY_BINS;
+  const step = hourly ? HOUR_MS : DAY_MS;
+  const offset = new Date(start).getTimezoneOffset() * MINUTE_MS;
+  return {
+    bins: binValues(times, step, offset),
+    intervalLabel: hourly ? 'hour' : 'day'
+  };
+};
+
+// Largest first; values differing only in case are counted together, as
+// the filters match them that way
+export const countCategories = (values: (string | null)[]): CategoryCount[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    if (!value) return;
+    const key = value.toLowerCase();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// The filters with some criteria reset, so a chart can show what its own
+// brush is selecting from
+export const withoutFilters = (filters: EarthquakeFilters, keys: FilterKey[]): EarthquakeFilters => {
+  return keys.reduce(clearFilter, filters);
+};
+
+const toRange = (min: number | undefined, max: number | undefined): NumericRange | null => {
+  if (min === undefined && max === undefined) return null;
+  return [min ?? -Infinity, max ?? Infinity];
+};
+
+export const getMagnitudeSelection = (filters: EarthquakeFilters): NumericRange | null => {
+  return toRange(filters.minMagnitude, filters.maxMagnitude);
+};
+
+export const getDepthSelection = (filters: EarthquakeFilters): NumericRange | null => {
+  return toRange(filters.minDepth, filters.maxDepth);
+};
+
+export const getTimeSelection = (filters: EarthquakeFilters, now: number = Date.now()): NumericRange | null => {
+  if (!filters.timeRange) return null;
+  const { start, end } = getTimeBounds(filters.timeRange, now);
+  return toRange(start, end);
+};
+
+// Bounds rounded outwards to the precision the filter panel shows
+const roundRange = ([min, max]: NumericRange, step: number): NumericRange => [
+  roundValue(Math.floor(min / step + 1e-9) * step),
+  roundValue(Math.ceil(max / step - 1e-9) * step)
+];
+
+export const applyMagnitudeBrush = (filters: EarthquakeFilters, range: NumericRange | null): EarthquakeFilters => {
+  if (!range) return clearFilter(filters, 'minMagnitude');
+  const [minMagnitude, maxMagnitude] = roundRange(range, 0.1);
+  return { ...filters, minMagnitude, maxMagnitude };
+};
+
+export const applyDepthBrush = (filters: EarthquakeFilters, range: NumericRange | null): EarthquakeFilters => {
+  if (!range) return clearFilter(filters, 'minDepth');
+  const [minDepth, maxDepth] = roundRange(range, 1);
+  return { ...filters, minDepth, maxDepth };
+};
+
+// Whole minutes, as the datetime-local fields of the filter panel
+export const applyTimeBrush = (filters: EarthquakeFilters, range: NumericRange | null): EarthquakeFilters => {
+  if (!range) return clearFilter(filters, 'timeRange');
+  const [start, end] = roundRange(range, MINUTE_MS);
+  return {
+    ...filters,
+    timeRange: {
+      type: 'absolute',
+      start: toDateTimeLocal(new Date(start)),
+      end: toDateTimeLocal(new Date(end))
+    }
+  };
+};
+
+export const toggleFilterValue = (
+  filters: EarthquakeFilters,
+  key: 'networks' | 'magTypes',
+  value: string
+): EarthquakeFilters => {
+  const selected = filters[key];
+  const included = selected.some(item => item.toLowerCase() === value.toLowerCase());
+  return {
+    ...filters,
+    [key]: included
+      ? selected.filter(item => item.toLowerCase() !== value.toLowerCase())
+      : [...selected, value]
+  };
+};
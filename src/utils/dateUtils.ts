@@ -43,4 +43,10 @@ export const getTimeAgo = (timestamp: number): string => {
   } else {
     return `${days} day${days !== 1 ? 's' : ''} ago`;
   }
-};
\ No newline at end of file
+};
+
+// datetime-local inputs work in local time without a zone suffix
+export const toDateTimeLocal = (date: Date): string => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
@@ -0,0 +1,75 @@
+import { Earthquake, EarthquakeDiff, EarthquakeHighlight } from '../types/earthquake';
+
+export const EMPTY_DIFF: EarthquakeDiff = {
+  added: [],
+  updated: [],
+  removed: [],
+  timestamp: 0
+};
+
+export const sortByTimeDesc = (earthquakes: Earthquake[]): Earthquake[] => {
+  return [...earthquakes].sort((a, b) => b.properties.time - a.properties.time);
+};
+
+// An event's own id and those of every solution associated into it
+const getEventIds = (earthquake: Earthquake): string[] => {
+  return [earthquake.id, ...earthquake.properties.ids.split(',').filter(Boolean)];
+};
+
+/**
+ * Merges a fresh feed response into the current catalog by event id.
+ * Unchanged events keep their previous object identity so memoized
+ * components don't re-render, and events missing from the response are
+ * dropped since they have aged out of the feed window. Events are matched
+ * through any of their ids, so an associated event whose preferred
+ * solution, and with it its id, changed counts as updated.
+ */
+export const mergeEarthquakes = (
+  current: Earthquake[],
+  incoming: Earthquake[]
+): { earthquakes: Earthquake[]; diff: EarthquakeDiff } => {
+  const currentById = new Map<string, Earthquake>();
+  current.forEach(eq => getEventIds(eq).forEach(id => currentById.set(id, eq)));
+  const matched = new Set<Earthquake>();
+  const added: string[] = [];
+  const updated: string[] = [];
+
+  const merged = incoming.map(earthquake => {
+    const existing = getEventIds(earthquake)
+      .map(id => currentById.get(id))
+      .find((eq): eq is Earthquake => eq !== undefined);
+
+    if (!existing) {
+      added.push(earthquake.id);
+      return earthquake;
+    }
+
+    matched.add(existing);
+    if (earthquake.id !== existing.id || earthquake.properties.updated > existing.properties.updated) {
+      updated.push(earthquake.id);
+      return earthquake;
+    }
+
+    return existing;
+  });
+
+  const removed = current
+    .filter(eq => !matched.has(eq))
+    .map(eq => eq.id);
+
+  return {
+    earthquakes: sortByTimeDesc(merged),
+    diff: { added, updated, removed, timestamp: Date.now() }
+  };
+};
+
+export const hasChanges = (diff: EarthquakeDiff): boolean => {
+  return diff.added.length > 0 || diff.updated.length > 0 || diff.removed.length > 0;
+};
+
+export const getHighlights = (diff: EarthquakeDiff): Map<string, EarthquakeHighlight> => {
+  const highlights = new Map<string, EarthquakeHighlight>();
+  diff.updated.forEach(id => highlights.set(id, 'updated'));
+  diff.added.forEach(id => highlights.set(id, 'new'));
+  return highlights;
+};
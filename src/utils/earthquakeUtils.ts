@@ -1,17 +1,15 @@
-export const getMagnitudeColor = (magnitude: number): string => {
-  if (magnitude >= 7) return 'text-red-600 bg-red-100';
-  if (magnitude >= 5.5) return 'text-orange-600 bg-orange-100';
-  if (magnitude >= 4) return 'text-yellow-600 bg-yellow-100';
-  if (magnitude >= 2.5) return 'text-blue-600 bg-blue-100';
-  return 'text-green-600 bg-green-100';
+import { Earthquake } from '../types/earthquake';
+
+export const formatMagnitude = (magnitude: number | null): string => {
+  return magnitude === null ? 'N/A' : magnitude.toFixed(1);
 };
 
-export const getMagnitudeLevel = (magnitude: number): string => {
-  if (magnitude >= 7) return 'Major';
-  if (magnitude >= 5.5) return 'Strong';
-  if (magnitude >= 4) return 'Moderate';
-  if (magnitude >= 2.5) return 'Minor';
-  return 'Micro';
+// Avoids Math.max(...array), which overflows the call stack on large catalogs
+export const getMaxMagnitude = (earthquakes: Earthquake[]): number | null => {
+  return earthquakes.reduce<number | null>((max, earthquake) => {
+    const { mag } = earthquake.properties;
+    return mag !== null && (max === null || mag > max) ? mag : max;
+  }, null);
 };
 
 export const formatCoordinates = (longitude: number, latitude: number): string => {
@@ -23,4 +21,14 @@ export const formatCoordinates = (longitude: number, latitude: number): string =
 
 export const formatDepth = (depth: number): string => {
   return `${depth.toFixed(1)} km`;
-};
\ No newline at end of file
+};
+
+// Matches the preferred id, any id the event was published under, or one
+// of its merged agency solutions
+export const findEarthquake = (earthquakes: Earthquake[], id: string): Earthquake | undefined => {
+  return earthquakes.find(earthquake =>
+    earthquake.id === id
+    || earthquake.properties.ids.includes(`,${id},`)
+    || earthquake.solutions?.some(solution => solution.id === id)
+  );
+};
@@ -0,0 +1,150 @@
+import { EarthquakeResponse, ValidationReport } from '../types/earthquake';
+import { FdsnQuery } from '../types/fdsn';
+import { combineValidationReports, getFeatureList, validateEarthquakes } from './validationUtils';
+
+export const DEFAULT_FDSN_BASE_URL = 'https://earthquake.usgs.gov/fdsnws/event/1';
+
+// Point VITE_FDSN_BASE_URL at a local FDSN stand-in for testing
+export const FDSN_BASE_URL = import.meta.env.VITE_FDSN_BASE_URL || DEFAULT_FDSN_BASE_URL;
+
+// USGS rejects pages larger than this, other FDSN servers accept it too
+export const FDSN_PAGE_SIZE = 20000;
+
+// Hard stop so a careless query can't page through the whole catalog
+export const FDSN_MAX_EVENTS = 100000;
+
+interface FetchFdsnOptions {
+  baseUrl?: string;
+  pageSize?: number;
+  maxEvents?: number;
+  signal?: AbortSignal;
+  onProgress?: (fetched: number) => void;
+}
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+export const buildFdsnQueryParams = (query: FdsnQuery): URLSearchParams => {
+  const params = new URLSearchParams({ format: 'geojson' });
+
+  if (query.startTime) params.set('starttime', query.startTime);
+  if (query.endTime) params.set('endtime', query.endTime);
+  if (query.minMagnitude !== undefined) params.set('minmagnitude', String(query.minMagnitude));
+  if (query.maxMagnitude !== undefined) params.set('maxmagnitude', String(query.maxMagnitude));
+  if (query.minDepth !== undefined) params.set('mindepth', String(query.minDepth));
+  if (query.maxDepth !== undefined) params.set('maxdepth', String(query.maxDepth));
+  if (query.orderBy) params.set('orderby', query.orderBy);
+
+  if (query.area?.type === 'box') {
+    params.set('minlatitude', String(query.area.minLatitude));
+    params.set('maxlatitude', String(query.area.maxLatitude));
+    params.set('minlongitude', String(query.area.minLongitude));
+    params.set('maxlongitude', String(query.area.maxLongitude));
+  } else if (query.area?.type === 'radius') {
+    params.set('latitude', String(query.area.latitude));
+    params.set('longitude', String(query.area.longitude));
+    params.set('maxradiuskm', String(query.area.maxRadiusKm));
+  }
+
+  return params;
+};
+
+export const buildFdsnQueryUrl = (
+  query: FdsnQuery,
+  baseUrl: string = FDSN_BASE_URL,
+  page?: { limit: number; offset: number }
+): string => {
+  const params = buildFdsnQueryParams(query);
+  if (page) {
+    params.set('limit', String(page.limit));
+    params.set('offset', String(page.offset));
+  }
+  return `${trimTrailingSlash(baseUrl)}/query?${params.toString()}`;
+};
+
+const emptyResponse = (url: string): EarthquakeResponse => ({
+  type: 'FeatureCollection',
+  metadata: {
+    generated: Date.now(),
+    url,
+    title: 'FDSN Event Query',
+    status: 204,
+    api: '',
+    count: 0
+  },
+  features: []
+});
+
+// Returns the validated page plus its raw feature count, which drives paging
+const fetchFdsnPage = async (
+  url: string,
+  signal?: AbortSignal
+): Promise<{ page: EarthquakeResponse; rawCount: number }> => {
+  const response = await fetch(url, { signal });
+
+  // FDSN services answer 204 No Content when nothing matches
+  if (response.status === 204) {
+    return { page: emptyResponse(url), rawCount: 0 };
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text()).trim().split('\n')[0];
+    throw new Error(`FDSN query failed (status ${response.status})${detail ? `: ${detail}` : ''}`);
+  }
+
+  const data = await response.json();
+  const rawFeatures = getFeatureList(data);
+  const { earthquakes, report } = validateEarthquakes(rawFeatures);
+
+  return {
+    page: { ...data, features: earthquakes, validation: report },
+    rawCount: rawFeatures.length
+  };
+};
+
+/**
+ * Runs an FDSN event query, following limit/offset pages until the server
+ * returns a short page so results aren't truncated at the per-request limit.
+ */
+export const fetchFdsnEvents = async (
+  query: FdsnQuery,
+  {
+    baseUrl = FDSN_BASE_URL,
+    pageSize = FDSN_PAGE_SIZE,
+    maxEvents = FDSN_MAX_EVENTS,
+    signal,
+    onProgress
+  }: FetchFdsnOptions = {}
+): Promise<EarthquakeResponse> => {
+  let offset = 1; // FDSN offsets are 1-based
+  let result: EarthquakeResponse | null = null;
+  const reports: ValidationReport[] = [];
+
+  while (true) {
+    const limit = Math.min(pageSize, maxEvents - (offset - 1));
+    const url = buildFdsnQueryUrl(query, baseUrl, { limit, offset });
+    const { page, rawCount } = await fetchFdsnPage(url, signal);
+
+    if (result) {
+      result.features.push(...page.features);
+    } else {
+      result = { ...page, features: [...page.features] };
+    }
+    if (page.validation) reports.push(page.validation);
+
+    onProgress?.(result.features.length);
+
+    if (rawCount < limit || offset - 1 + rawCount >= maxEvents) {
+      break;
+    }
+    offset += rawCount;
+  }
+
+  result.metadata = {
+    ...result.metadata,
+    url: buildFdsnQueryUrl(query, baseUrl),
+    count: result.features.length
+  };
+  result.validation = combineValidationReports(reports);
+
+  return result;
+};
@@ -0,0 +1,77 @@
+import { Earthquake } from '../types/earthquake';
+import { FeedDescriptor, FeedMagnitude, FeedWindow } from '../types/feed';
+
+const USGS_FEED_BASE_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary';
+
+export const DEFAULT_FEED: FeedDescriptor = {
+  window: 'day',
+  magnitude: 'all'
+};
+
+export const DEFAULT_POLL_INTERVAL = 60000;
+
+export const POLL_INTERVALS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 30000, label: '30s' },
+  { value: 60000, label: '1 min' },
+  { value: 300000, label: '5 min' }
+];
+
+export const FEED_WINDOWS: { value: FeedWindow; label: string; shortLabel: string; description: string; durationMs: number }[] = [
+  { value: 'hour', label: 'Past Hour', shortLabel: '1h', description: 'past hour', durationMs: 3600000 },
+  { value: 'day', label: 'Past Day', shortLabel: '24h', description: 'past 24 hours', durationMs: 24 * 3600000 },
+  { value: 'week', label: 'Past 7 Days', shortLabel: '7d', description: 'past 7 days', durationMs: 7 * 24 * 3600000 },
+  { value: 'month', label: 'Past 30 Days', shortLabel: '30d', description: 'past 30 days', durationMs: 30 * 24 * 3600000 }
+];
+
+export const FEED_MAGNITUDES: { value: FeedMagnitude; label: string; description: string; minMagnitude: number }[] = [
+  { value: 'significant', label: 'Significant', description: 'significant earthquakes', minMagnitude: 0 },
+  { value: '4.5', label: 'M4.5+', description: 'M4.5+ earthquakes', minMagnitude: 4.5 },
+  { value: '2.5', label: 'M2.5+', description: 'M2.5+ earthquakes', minMagnitude: 2.5 },
+  { value: '1.0', label: 'M1.0+', description: 'M1.0+ earthquakes', minMagnitude: 1 },
+  { value: 'all', label: 'All Earthquakes', description: 'earthquakes', minMagnitude: 0 }
+];
+
+// USGS lists events in the significant feed once `sig` reaches 600
+const SIGNIFICANT_THRESHOLD = 600;
+
+export const getFeedUrl = (feed: FeedDescriptor): string => {
+  return `${USGS_FEED_BASE_URL}/${feed.magnitude}_${feed.window}.geojson`;
+};
+
+const getFeedWindowOption = (window: FeedWindow) => {
+  return FEED_WINDOWS.find(option => option.value === window) ?? FEED_WINDOWS[1];
+};
+
+export const getFeedWindowMs = (window: FeedWindow): number => {
+  return getFeedWindowOption(window).durationMs;
+};
+
+export const getFeedWindowShortLabel = (window: FeedWindow): string => {
+  return getFeedWindowOption(window).shortLabel;
+};
+
+export const getFeedWindowDescription = (window: FeedWindow): string => {
+  return getFeedWindowOption(window).description;
+};
+
+export const getFeedMagnitudeDescription = (magnitude: FeedMagnitude): string => {
+  return FEED_MAGNITUDES.find(option => option.value === magnitude)?.description ?? 'earthquakes';
+};
+
+export const getFeedMinMagnitude = (magnitude: FeedMagnitude): number => {
+  return FEED_MAGNITUDES.find(option => option.value === magnitude)?.minMagnitude ?? 0;
+};
+
+// Client-side equivalent of a summary feed, for sources without one
+export const matchesFeed = (
+  earthquake: Earthquake,
+  feed: FeedDescriptor,
+  now: number = Date.now()
+): boolean => {
+  const { time, mag, sig } = earthquake.properties;
+  if (time < now - getFeedWindowMs(feed.window)) return false;
+  if (feed.magnitude === 'significant') return sig >= SIGNIFICANT_THRESHOLD;
+  const minMagnitude = getFeedMinMagnitude(feed.magnitude);
+  return minMagnitude === 0 || (mag !== null && mag >= minMagnitude);
+};
@@ -0,0 +1,184 @@
+import { Earthquake } from '../types/earthquake';
+import { EarthquakeFilters, FilterChip, FilterKey, FilterOptions, TimeRange } from '../types/filters';
+import { PagerLevel } from '../types/alert';
+import { evaluateQuery, parseQuery } from './queryUtils';
+
+export const DEFAULT_FILTERS: EarthquakeFilters = {
+  search: '',
+  alertLevels: [],
+  tsunamiOnly: false,
+  statuses: [],
+  networks: [],
+  eventTypes: [],
+  magTypes: []
+};
+
+export const EVENT_STATUSES = ['automatic', 'reviewed'];
+
+export const RELATIVE_TIME_OPTIONS = [
+  { hours: 1, label: 'Past hour' },
+  { hours: 6, label: 'Past 6 hours' },
+  { hours: 24, label: 'Past day' },
+  { hours: 72, label: 'Past 3 days' },
+  { hours: 168, label: 'Past week' },
+  { hours: 720, label: 'Past 30 days' }
+];
+
+const distinctValues = (values: (string | null)[]): string[] => {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))]
+    .sort((a, b) => a.localeCompare(b));
+};
+
+export const getFilterOptions = (earthquakes: Earthquake[]): FilterOptions => ({
+  networks: distinctValues(earthquakes.map(earthquake => earthquake.properties.net)),
+  eventTypes: distinctValues(earthquakes.map(earthquake => earthquake.properties.type)),
+  magTypes: distinctValues(earthquakes.map(earthquake => earthquake.properties.magType)),
+  // Always offer both review states, plus anything else a feed reports
+  statuses: distinctValues([...EVENT_STATUSES, ...earthquakes.map(earthquake => earthquake.properties.status)])
+});
+
+// Bounds of a time range in epoch milliseconds, open ends are undefined
+export const getTimeBounds = (range: TimeRange, now: number): { start?: number; end?: number } => {
+  if (range.type === 'relative') {
+    return { start: now - range.hours * 3600000 };
+  }
+  const start = range.start ? new Date(range.start).getTime() : NaN;
+  const end = range.end ? new Date(range.end).getTime() : NaN;
+  return {
+    start: Number.isNaN(start) ? undefined : start,
+    end: Number.isNaN(end) ? undefined : end
+  };
+};
+
+// Case-insensitive membership, feeds disagree on casing (e.g. "us" vs "US")
+const includesValue = (selected: string[], value: string | null): boolean => {
+  if (selected.length === 0) return true;
+  if (!value) return false;
+  const lower = value.toLowerCase();
+  return selected.some(item => item.toLowerCase() === lower);
+};
+
+// Returns a predicate for the filters, so the search query is parsed once
+// per pass instead of once per event
+export const createFilterMatcher = (
+  filters: EarthquakeFilters,
+  now: number = Date.now()
+): ((earthquake: Earthquake) => boolean) => {
+  const search = filters.search.trim();
+  const query = search ? parseQuery(search) : null;
+  // A query with errors is highlighted in the search box and not applied
+  const matchesSearch = (earthquake: Earthquake): boolean => {
+    if (!query || query.errors.length > 0) return true;
+    if (!query.structured) {
+      return earthquake.properties.place?.toLowerCase().includes(search.toLowerCase()) ?? false;
+    }
+    return query.ast === null || evaluateQuery(query.ast, earthquake, now);
+  };
+
+  return (earthquake: Earthquake) => matchesSearch(earthquake) && matchesCriteria(earthquake, filters, now);
+};
+
+const matchesCriteria = (
+  earthquake: Earthquake,
+  filters: EarthquakeFilters,
+  now: number
+): boolean => {
+  const { properties, geometry } = earthquake;
+  const depth = geometry.coordinates[2];
+
+  // Events without a magnitude only pass when no bound is set
+  if (filters.minMagnitude !== undefined && (properties.mag === null || properties.mag < filters.minMagnitude)) {
+    return false;
+  }
+  if (filters.maxMagnitude !== undefined && (properties.mag === null || properties.mag > filters.maxMagnitude)) {
+    return false;
+  }
+
+  if (filters.minDepth !== undefined && depth < filters.minDepth) return false;
+  if (filters.maxDepth !== undefined && depth > filters.maxDepth) return false;
+
+  if (filters.timeRange) {
+    const { start, end } = getTimeBounds(filters.timeRange, now);
+    if (start !== undefined && properties.time < start) return false;
+    if (end !== undefined && properties.time > end) return false;
+  }
+
+  if (filters.alertLevels.length > 0 && !filters.alertLevels.includes(properties.alert as PagerLevel)) {
+    return false;
+  }
+  if (filters.tsunamiOnly && properties.tsunami !== 1) return false;
+  if (!includesValue(filters.statuses, properties.status)) return false;
+  if (!includesValue(filters.networks, properties.net)) return false;
+  if (!includesValue(filters.eventTypes, properties.type)) return false;
+  if (!includesValue(filters.magTypes, properties.magType)) return false;
+  if (filters.minSignificance !== undefined && properties.sig < filters.minSignificance) return false;
+
+  return true;
+};
+
+const formatRange = (label: string, min: number | undefined, max: number | undefined, unit = ''): string => {
+  if (min !== undefined && max !== undefined) return `${label} ${min}–${max}${unit}`;
+  if (min !== undefined) return `${label} ≥ ${min}${unit}`;
+  return `${label} ≤ ${max}${unit}`;
+};
+
+const formatTimeRange = (range: TimeRange): string => {
+  if (range.type === 'relative') {
+    return RELATIVE_TIME_OPTIONS.find(option => option.hours === range.hours)?.label
+      ?? `Past ${range.hours} hours`;
+  }
+  const format = (value: string) => value.replace('T', ' ');
+  if (range.start && range.end) return `${format(range.start)} – ${format(range.end)}`;
+  if (range.start) return `After ${format(range.start)}`;
+  return `Before ${format(range.end ?? '')}`;
+};
+
+// One chip per active criterion; a magnitude or depth range is one chip
+// under its minimum key
+export const getFilterChips = (filters: EarthquakeFilters): FilterChip[] => {
+  const chips: FilterChip[] = [];
+
+  if (filters.search) {
+    chips.push({ key: 'search', label: `"${filters.search}"` });
+  }
+  if (filters.minMagnitude !== undefined || filters.maxMagnitude !== undefined) {
+    chips.push({ key: 'minMagnitude', label: formatRange('M', filters.minMagnitude, filters.maxMagnitude) });
+  }
+  if (filters.minDepth !== undefined || filters.maxDepth !== undefined) {
+    chips.push({ key: 'minDepth', label: formatRange('Depth', filters.minDepth, filters.maxDepth, ' km') });
+  }
+  if (filters.timeRange) {
+    chips.push({ key: 'timeRange', label: formatTimeRange(filters.timeRange) });
+  }
+  if (filters.alertLevels.length > 0) {
+    chips.push({ key: 'alertLevels', label: `PAGER ${filters.alertLevels.join(', ')}` });
+  }
+  if (filters.tsunamiOnly) {
+    chips.push({ key: 'tsunamiOnly', label: 'Tsunami flag' });
+  }
+  if (filters.statuses.length > 0) {
+    chips.push({ key: 'statuses', label: filters.statuses.join(', ') });
+  }
+  if (filters.networks.length > 0) {
+    chips.push({ key: 'networks', label: `Network ${filters.networks.join(', ')}` });
+  }
+  if (filters.eventTypes.length > 0) {
+    chips.push({ key: 'eventTypes', label: filters.eventTypes.join(', ') });
+  }
+  if (filters.magTypes.length > 0) {
+    chips.push({ key: 'magTypes', label: `Mag type ${filters.magTypes.join(', ')}` });
+  }
+  if (filters.minSignificance !== undefined) {
+    chips.push({ key: 'minSignificance', label: `Sig ≥ ${filters.minSignificance}` });
+  }
+
+  return chips;
+};
+
+// Resets the criterion behind a chip, including the other end of a range
+export const clearFilter = (filters: EarthquakeFilters, key: FilterKey): EarthquakeFilters => {
+  const next = { ...filters, [key]: DEFAULT_FILTERS[key] };
+  if (key === 'minMagnitude') next.maxMagnitude = undefined;
+  if (key === 'minDepth') next.maxDepth = undefined;
+  return next;
+};
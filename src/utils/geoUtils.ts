@@ -0,0 +1,48 @@
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Great-circle distance using the haversine formula
+export const getDistanceKm = (
+  latitude1: number,
+  longitude1: number,
+  latitude2: number,
+  longitude2: number
+): number => {
+  const dLat = toRadians(latitude2 - latitude1);
+  const dLon = toRadians(longitude2 - longitude1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(latitude1)) * Math.cos(toRadians(latitude2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'
+];
+
+// Initial great-circle bearing in degrees clockwise from north
+export const getBearing = (
+  latitude1: number,
+  longitude1: number,
+  latitude2: number,
+  longitude2: number
+): number => {
+  const phi1 = toRadians(latitude1);
+  const phi2 = toRadians(latitude2);
+  const dLon = toRadians(longitude2 - longitude1);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+export const getCompassDirection = (bearing: number): string => {
+  return COMPASS_POINTS[Math.round(bearing / 22.5) % COMPASS_POINTS.length];
+};
+
+export const formatDistance = (distanceKm: number): string => {
+  if (distanceKm < 10) return `${distanceKm.toFixed(1)} km`;
+  return `${Math.round(distanceKm).toLocaleString()} km`;
+};
@@ -0,0 +1,109 @@
+import { Earthquake } from '../types/earthquake';
+import { DensityGrid, DensityPoint, HeatmapSettings, HeatmapWeighting } from '../types/heatmap';
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  enabled: false,
+  radius: 25,
+  weighting: 'count'
+};
+
+export const HEATMAP_RADIUS_OPTIONS = [10, 15, 25, 40, 60];
+
+export const HEATMAP_WEIGHTINGS: { value: HeatmapWeighting; label: string }[] = [
+  { value: 'count', label: 'Event count' },
+  { value: 'magnitude', label: 'Magnitude' },
+  { value: 'energy', label: 'Seismic energy' }
+];
+
+// Low to high density; transparent at the bottom so sparse areas show the map
+const HEAT_STOPS: [number, [number, number, number, number]][] = [
+  [0, [37, 99, 235, 0]],
+  [0.15, [37, 99, 235, 150]],
+  [0.35, [6, 182, 212, 180]],
+  [0.55, [132, 204, 22, 200]],
+  [0.75, [250, 204, 21, 215]],
+  [1, [220, 38, 38, 230]]
+];
+
+let palette: Uint8ClampedArray | null = null;
+
+// 256 RGBA entries interpolated between the heat stops, built once
+export const getHeatPalette = (): Uint8ClampedArray => {
+  if (palette) return palette;
+  palette = new Uint8ClampedArray(256 * 4);
+  for (let index = 0; index < 256; index++) {
+    const t = index / 255;
+    const upper = HEAT_STOPS.findIndex(([stop]) => stop >= t);
+    const [stopB, colorB] = HEAT_STOPS[Math.max(upper, 0)];
+    const [stopA, colorA] = HEAT_STOPS[Math.max(upper - 1, 0)];
+    const mix = stopB === stopA ? 0 : (t - stopA) / (stopB - stopA);
+    for (let channel = 0; channel < 4; channel++) {
+      palette[index * 4 + channel] = colorA[channel] + (colorB[channel] - colorA[channel]) * mix;
+    }
+  }
+  return palette;
+};
+
+// CSS gradient of the same stops, for the legend
+export const HEAT_LEGEND_GRADIENT = `linear-gradient(to right, ${HEAT_STOPS
+  .map(([stop, [r, g, b, a]]) => `rgba(${r}, ${g}, ${b}, ${(a / 255).toFixed(2)}) ${Math.round(stop * 100)}%`)
+  .join(', ')})`;
+
+/**
+ * Event weight under each scheme. Energy follows the Gutenberg-Richter
+ * energy relation, log10 E = 1.5 M + 4.8 (joules), so one magnitude unit is
+ * about 32 times the energy. Events without a magnitude only count.
+ */
+export const getEventWeight = (earthquake: Earthquake, weighting: HeatmapWeighting): number => {
+  const { mag } = earthquake.properties;
+  if (weighting === 'count') return 1;
+  if (mag === null) return 0;
+  if (weighting === 'magnitude') return Math.max(mag, 0);
+  return 10 ** (1.5 * mag + 4.8);
+};
+
+/**
+ * Sums a quartic kernel, (1 - d²/r²)², around every point onto a grid of
+ * `cellSize` cells. Points just outside the area still reach into it.
+ */
+export const computeDensityGrid = (
+  points: DensityPoint[],
+  width: number,
+  height: number,
+  radius: number,
+  cellSize: number
+): DensityGrid => {
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const values = new Float32Array(columns * rows);
+  const cellRadius = radius / cellSize;
+  const reach = Math.ceil(cellRadius);
+
+  points.forEach(({ x, y, weight }) => {
+    if (weight <= 0) return;
+    const cx = x / cellSize;
+    const cy = y / cellSize;
+    const minColumn = Math.max(0, Math.floor(cx - reach));
+    const maxColumn = Math.min(columns - 1, Math.ceil(cx + reach));
+    const minRow = Math.max(0, Math.floor(cy - reach));
+    const maxRow = Math.min(rows - 1, Math.ceil(cy + reach));
+
+    for (let row = minRow; row <= maxRow; row++) {
+      const dy = (row + 0.5 - cy) / cellRadius;
+      for (let column = minColumn; column <= maxColumn; column++) {
+        const dx = (column + 0.5 - cx) / cellRadius;
+        const distance = dx * dx + dy * dy;
+        if (distance < 1) {
+          values[row * columns + column] += (1 - distance) ** 2 * weight;
+        }
+      }
+    }
+  });
+
+  let max = 0;
+  values.forEach(value => {
+    if (value > max) max = value;
+  });
+
+  return { columns, rows, cellSize, values, max };
+};
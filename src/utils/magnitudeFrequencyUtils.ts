@@ -0,0 +1,145 @@
+import { Earthquake } from '../types/earthquake';
+import { GutenbergRichterFit, MagnitudeBin, MagnitudeFrequency, McMethod } from '../types/magnitudeFrequency';
+import { createRandom } from './benchmarkUtils';
+
+export const MAGNITUDE_BIN_WIDTH = 0.1;
+
+export const MC_METHODS: { value: McMethod; label: string }[] = [
+  { value: 'maxc', label: 'Maximum curvature' },
+  { value: 'maxc-corrected', label: 'Maximum curvature + 0.2' },
+  { value: 'manual', label: 'Manual' }
+];
+
+// Below this many events above Mc the b-value is poorly constrained
+export const MIN_RELIABLE_FIT_EVENTS = 50;
+
+// Woessner and Wiemer (2005): maximum curvature underestimates Mc by about 0.2
+const MAXC_CORRECTION = 0.2;
+const BOOTSTRAP_SAMPLES = 200;
+
+// Bin index of a magnitude; the small offset keeps 2.35 from rounding down
+const toBinIndex = (magnitude: number, binWidth: number): number => Math.round(magnitude / binWidth + 1e-9);
+
+const toMagnitude = (index: number, binWidth: number): number => Math.round(index * binWidth * 100) / 100;
+
+// Position of the most populated bin, the lowest one on a tie
+const getMaxCurvatureOffset = (counts: ArrayLike<number>): number => {
+  let best = 0;
+  for (let offset = 1; offset < counts.length; offset++) {
+    if (counts[offset] > counts[best]) best = offset;
+  }
+  return best;
+};
+
+// Mc in bins above the lowest one
+const estimateMcOffset = (counts: ArrayLike<number>, method: Exclude<McMethod, 'manual'>, binWidth: number): number => {
+  const offset = getMaxCurvatureOffset(counts);
+  return method === 'maxc-corrected' ? offset + Math.round(MAXC_CORRECTION / binWidth) : offset;
+};
+
+// Spread of Mc over resamples of the catalog, seeded so it doesn't jitter
+const bootstrapMcUncertainty = (
+  offsets: number[],
+  binCount: number,
+  method: Exclude<McMethod, 'manual'>,
+  binWidth: number
+): number => {
+  const random = createRandom(offsets.length);
+  const counts = new Uint32Array(binCount);
+  const estimates: number[] = [];
+  for (let sample = 0; sample < BOOTSTRAP_SAMPLES; sample++) {
+    counts.fill(0);
+    for (let i = 0; i < offsets.length; i++) {
+      counts[offsets[Math.floor(random() * offsets.length)]]++;
+    }
+    estimates.push(estimateMcOffset(counts, method, binWidth));
+  }
+  const mean = estimates.reduce((sum, value) => sum + value, 0) / estimates.length;
+  const variance = estimates.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (estimates.length - 1);
+  return Math.sqrt(variance) * binWidth;
+};
+
+/**
+ * Aki (1965) maximum-likelihood b-value with Utsu's correction for binned
+ * magnitudes, b = log10(e) / (mean M - (Mc - ΔM/2)), over the events at or
+ * above Mc, and its Shi and Bolt (1982) standard error.
+ */
+export const fitGutenbergRichter = (
+  magnitudes: number[],
+  mc: number,
+  binWidth: number = MAGNITUDE_BIN_WIDTH
+): Omit<GutenbergRichterFit, 'mcUncertainty'> | null => {
+  const mcIndex = toBinIndex(mc, binWidth);
+  const complete = magnitudes
+    .map(magnitude => toBinIndex(magnitude, binWidth))
+    .filter(index => index >= mcIndex)
+    .map(index => index * binWidth);
+  const count = complete.length;
+  if (count < 2) return null;
+
+  const binnedMc = mcIndex * binWidth;
+  const mean = complete.reduce((sum, magnitude) => sum + magnitude, 0) / count;
+  const spread = mean - (binnedMc - binWidth / 2);
+  if (spread <= 0) return null;
+
+  const b = Math.LOG10E / spread;
+  const sumSquares = complete.reduce((sum, magnitude) => sum + (magnitude - mean) ** 2, 0);
+  const bUncertainty = 2.3 * b * b * Math.sqrt(sumSquares / (count * (count - 1)));
+  return {
+    mc: toMagnitude(mcIndex, binWidth),
+    b,
+    bUncertainty,
+    a: Math.log10(count) + b * binnedMc,
+    count
+  };
+};
+
+/**
+ * Incremental and cumulative magnitude-frequency distribution of the events,
+ * with Mc picked by the chosen method (or given by hand) and the
+ * Gutenberg-Richter fit above it. Events without a magnitude are left out.
+ */
+export const getMagnitudeFrequency = (
+  earthquakes: Earthquake[],
+  method: McMethod,
+  manualMc: number | null = null,
+  binWidth: number = MAGNITUDE_BIN_WIDTH
+): MagnitudeFrequency => {
+  const magnitudes: number[] = [];
+  const magTypes = new Set<string>();
+  earthquakes.forEach(({ properties }) => {
+    if (properties.mag === null || !Number.isFinite(properties.mag)) return;
+    magnitudes.push(properties.mag);
+    if (properties.magType) magTypes.add(properties.magType.toLowerCase());
+  });
+
+  if (magnitudes.length === 0) {
+    return { bins: [], binWidth, total: 0, magTypes: [], fit: null };
+  }
+
+  const indices = magnitudes.map(magnitude => toBinIndex(magnitude, binWidth));
+  const minIndex = indices.reduce((min, index) => Math.min(min, index), Infinity);
+  const maxIndex = indices.reduce((max, index) => Math.max(max, index), -Infinity);
+  const offsets = indices.map(index => index - minIndex);
+  const counts = new Array<number>(maxIndex - minIndex + 1).fill(0);
+  offsets.forEach(offset => counts[offset]++);
+
+  const bins: MagnitudeBin[] = [];
+  let cumulative = 0;
+  for (let offset = counts.length - 1; offset >= 0; offset--) {
+    cumulative += counts[offset];
+    bins.unshift({ magnitude: toMagnitude(minIndex + offset, binWidth), count: counts[offset], cumulative });
+  }
+
+  let fit: GutenbergRichterFit | null = null;
+  if (method === 'manual') {
+    const result = manualMc === null ? null : fitGutenbergRichter(magnitudes, manualMc, binWidth);
+    fit = result && { ...result, mcUncertainty: null };
+  } else {
+    const mc = (minIndex + estimateMcOffset(counts, method, binWidth)) * binWidth;
+    const result = fitGutenbergRichter(magnitudes, mc, binWidth);
+    fit = result && { ...result, mcUncertainty: bootstrapMcUncertainty(offsets, counts.length, method, binWidth) };
+  }
+
+  return { bins, binWidth, total: magnitudes.length, magTypes: [...magTypes].sort(), fit };
+};
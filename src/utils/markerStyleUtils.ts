@@ -0,0 +1,95 @@
+import { Earthquake } from '../types/earthquake';
+import { MarkerStyle } from '../types/markers';
+import { SymbologySettings } from '../types/symbology';
+import { formatMagnitude } from './earthquakeUtils';
+import { DEFAULT_SYMBOLOGY, getColorClass, SIZE_SCALES } from './symbologyUtils';
+
+export const RECENT_WINDOW_MS = 3600000; // 1 hour
+
+const styleCache = new Map<string, MarkerStyle>();
+const spriteCache = new Map<string, HTMLCanvasElement>();
+
+export const isRecentEarthquake = (earthquake: Earthquake, now: number = Date.now()): boolean => {
+  return now - earthquake.properties.time < RECENT_WINDOW_MS;
+};
+
+/**
+ * Colour and size of an event's marker under the chosen encodings. Events
+ * with the same colour class, size and label share one style, and so one
+ * sprite.
+ */
+export const getMarkerStyle = (
+  earthquake: Earthquake,
+  symbology: SymbologySettings = DEFAULT_SYMBOLOGY,
+  now: number = Date.now()
+): MarkerStyle => {
+  const label = formatMagnitude(earthquake.properties.mag);
+  const { key: colorKey, colors } = getColorClass(earthquake, symbology.color, now);
+  const size = SIZE_SCALES[symbology.size].getSize(earthquake);
+  const key = `${symbology.color}:${colorKey}|${size}|${label}`;
+  const cached = styleCache.get(key);
+  if (cached) return cached;
+
+  const style: MarkerStyle = {
+    key,
+    radius: size / 2 - 4,
+    fill: colors.bg,
+    border: colors.border,
+    glow: colors.glow,
+    label,
+    fontSize: Math.max(10, size * 0.25)
+  };
+  styleCache.set(key, style);
+  return style;
+};
+
+// Distance from a marker's center to the edge of its sprite
+export const getSpriteExtent = (style: MarkerStyle): number => style.radius + 6;
+
+/**
+ * Pre-rendered marker image for a style, so drawing an event is a single
+ * drawImage. Sprites are drawn at the device pixel ratio to stay sharp.
+ */
+export const getMarkerSprite = (style: MarkerStyle, pixelRatio: number): HTMLCanvasElement => {
+  const cacheKey = `${style.key}@${pixelRatio}`;
+  const cached = spriteCache.get(cacheKey);
+  if (cached) return cached;
+
+  const extent = getSpriteExtent(style);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(extent * 2 * pixelRatio);
+  canvas.height = canvas.width;
+  const context = canvas.getContext('2d');
+
+  if (context) {
+    context.scale(pixelRatio, pixelRatio);
+
+    // Soft glow ring, as on the DOM marker's middle pulse ring
+    context.beginPath();
+    context.arc(extent, extent, style.radius + 4, 0, Math.PI * 2);
+    context.fillStyle = `${style.glow}99`;
+    context.fill();
+
+    const gradient = context.createLinearGradient(extent - style.radius, extent - style.radius, extent + style.radius, extent + style.radius);
+    gradient.addColorStop(0, style.fill);
+    gradient.addColorStop(1, style.border);
+    context.beginPath();
+    context.arc(extent, extent, style.radius, 0, Math.PI * 2);
+    context.fillStyle = gradient;
+    context.fill();
+    context.lineWidth = 2;
+    context.strokeStyle = style.border;
+    context.stroke();
+
+    context.font = `bold ${style.fontSize}px system-ui, sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    context.shadowBlur = 2;
+    context.fillStyle = '#ffffff';
+    context.fillText(style.label, extent, extent + 0.5);
+  }
+
+  spriteCache.set(cacheKey, canvas);
+  return canvas;
+};
@@ -0,0 +1,166 @@
+import { PathOptions } from 'leaflet';
+import { MapOverlay, OverlayData, OverlayField, OverlayId, OverlaySource, OverlaySources } from '../types/overlay';
+
+const PLATE_BOUNDARY_COLORS: Record<string, string> = {
+  subduction: '#dc2626',
+  convergent: '#ea580c',
+  divergent: '#16a34a',
+  transform: '#7c3aed'
+};
+
+const FAULT_COLORS: Record<string, string> = {
+  'strike-slip': '#b45309',
+  reverse: '#be123c',
+  normal: '#0f766e'
+};
+
+// Shallow contours light, deep ones dark
+const SLAB_DEPTH_COLORS: [number, string][] = [
+  [100, '#38bdf8'],
+  [200, '#3b82f6'],
+  [400, '#6366f1'],
+  [Infinity, '#7e22ce']
+];
+
+export const VOLCANO_COLOR = '#991b1b';
+
+// Lists the generated overlays, public/sw.js caches it and its files on install
+const OVERLAY_SOURCES_PATH = 'data/overlays.json';
+
+export const MAP_OVERLAYS: Record<OverlayId, MapOverlay> = {
+  plates: {
+    id: 'plates',
+    label: 'Plate boundaries',
+    description: 'Major plate boundaries by type',
+    path: 'data/plate-boundaries.geojson',
+    fields: [
+      { key: 'name', label: 'Name' },
+      { key: 'type', label: 'Boundary type' },
+      { key: 'plates', label: 'Plates' }
+    ],
+    legend: [
+      { label: 'Subduction', color: PLATE_BOUNDARY_COLORS.subduction },
+      { label: 'Convergent', color: PLATE_BOUNDARY_COLORS.convergent },
+      { label: 'Divergent', color: PLATE_BOUNDARY_COLORS.divergent },
+      { label: 'Transform', color: PLATE_BOUNDARY_COLORS.transform }
+    ]
+  },
+  faults: {
+    id: 'faults',
+    label: 'Major faults',
+    description: 'Large active crustal faults',
+    path: 'data/faults.geojson',
+    fields: [
+      { key: 'name', label: 'Name' },
+      { key: 'slipType', label: 'Slip type' },
+      { key: 'slipRateMmYr', label: 'Slip rate', unit: 'mm/yr' }
+    ],
+    legend: [
+      { label: 'Strike-slip', color: FAULT_COLORS['strike-slip'] },
+      { label: 'Reverse', color: FAULT_COLORS.reverse },
+      { label: 'Normal', color: FAULT_COLORS.normal }
+    ]
+  },
+  slabs: {
+    id: 'slabs',
+    label: 'Slab depth',
+    description: 'Depth contours of subducting slabs',
+    path: 'data/slab-contours.geojson',
+    fields: [
+      { key: 'slab', label: 'Slab' },
+      { key: 'depthKm', label: 'Depth', unit: 'km' }
+    ],
+    legend: [
+      { label: '≤100 km', color: SLAB_DEPTH_COLORS[0][1] },
+      { label: '200 km', color: SLAB_DEPTH_COLORS[1][1] },
+      { label: '300–400 km', color: SLAB_DEPTH_COLORS[2][1] },
+      { label: '600 km', color: SLAB_DEPTH_COLORS[3][1] }
+    ]
+  },
+  volcanoes: {
+    id: 'volcanoes',
+    label: 'Volcanoes',
+    description: 'Volcanoes and their last eruption',
+    path: 'data/volcanoes.geojson',
+    fields: [
+      { key: 'name', label: 'Name' },
+      { key: 'country', label: 'Country' },
+      { key: 'type', label: 'Type' },
+      { key: 'elevationM', label: 'Elevation', unit: 'm' },
+      { key: 'lastEruption', label: 'Last eruption' }
+    ],
+    legend: [{ label: 'Volcano', color: VOLCANO_COLOR }]
+  }
+};
+
+export const OVERLAY_IDS = Object.keys(MAP_OVERLAYS) as OverlayId[];
+
+export const getSlabDepthColor = (depthKm: number): string => {
+  return SLAB_DEPTH_COLORS.find(([maxDepth]) => depthKm <= maxDepth)?.[1] ?? SLAB_DEPTH_COLORS[0][1];
+};
+
+// Line style of a plate, fault or slab feature
+export const getOverlayStyle = (overlay: OverlayId, properties: Record<string, unknown>): PathOptions => {
+  switch (overlay) {
+    case 'plates':
+      return { color: PLATE_BOUNDARY_COLORS[String(properties.type)] ?? '#6b7280', weight: 3, opacity: 0.8 };
+    case 'faults':
+      return { color: FAULT_COLORS[String(properties.slipType)] ?? '#6b7280', weight: 2, opacity: 0.9 };
+    case 'slabs':
+      return { color: getSlabDepthColor(Number(properties.depthKm)), weight: 1.5, opacity: 0.9, dashArray: '6 4' };
+    default:
+      return {};
+  }
+};
+
+export const formatOverlayValue = (field: OverlayField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'Unknown';
+  if (typeof value === 'number') {
+    return `${value.toLocaleString()}${field.unit ? ` ${field.unit}` : ''}`;
+  }
+  return String(value);
+};
+
+const parseOverlaySource = (entry: unknown): OverlaySource | null => {
+  if (typeof entry !== 'object' || entry === null) return null;
+  const attribution = 'attribution' in entry ? entry.attribution : null;
+  const licence = 'licence' in entry ? entry.licence : null;
+  const licenceUrl = 'licenceUrl' in entry ? entry.licenceUrl : null;
+  if (typeof attribution !== 'string' || typeof licence !== 'string') return null;
+  return { attribution, licence, licenceUrl: typeof licenceUrl === 'string' ? licenceUrl : null };
+};
+
+export const parseOverlaySources = (data: unknown): OverlaySources => {
+  const sources: OverlaySources = {};
+  if (typeof data !== 'object' || data === null) return sources;
+  Object.entries(data).forEach(([key, entry]) => {
+    const id = OVERLAY_IDS.find(overlay => overlay === key);
+    const source = parseOverlaySource(entry);
+    if (id && source) sources[id] = source;
+  });
+  return sources;
+};
+
+// No index until the overlays have been generated, then nothing is offered
+export const loadOverlaySources = async (): Promise<OverlaySources> => {
+  const response = await fetch(`${import.meta.env.BASE_URL}${OVERLAY_SOURCES_PATH}`);
+  if (response.status === 404) return {};
+  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+  return parseOverlaySources(await response.json());
+};
+
+// One request per overlay per session; a failed load is retried next time
+const overlayRequests = new Map<OverlayId, Promise<OverlayData>>();
+
+export const loadOverlay = (id: OverlayId): Promise<OverlayData> => {
+  let request = overlayRequests.get(id);
+  if (!request) {
+    request = fetch(`${import.meta.env.BASE_URL}${MAP_OVERLAYS[id].path}`).then(async response => {
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      return response.json() as Promise<OverlayData>;
+    });
+    request.catch(() => overlayRequests.delete(id));
+    overlayRequests.set(id, request);
+  }
+  return request;
+};
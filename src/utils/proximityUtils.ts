@@ -0,0 +1,24 @@
+import { Earthquake } from '../types/earthquake';
+import { EventProximity, ReferencePoint } from '../types/reference';
+import { formatDistance, getBearing, getCompassDirection, getDistanceKm } from './geoUtils';
+
+export const getProximity = (earthquake: Earthquake, point: ReferencePoint): EventProximity => {
+  const [longitude, latitude] = earthquake.geometry.coordinates;
+  return {
+    distanceKm: getDistanceKm(point.latitude, point.longitude, latitude, longitude),
+    bearing: getBearing(point.latitude, point.longitude, latitude, longitude)
+  };
+};
+
+export const getProximities = (
+  earthquakes: Earthquake[],
+  point: ReferencePoint | null
+): Map<string, EventProximity> => {
+  if (!point) return new Map();
+  return new Map(earthquakes.map(earthquake => [earthquake.id, getProximity(earthquake, point)]));
+};
+
+// e.g. "132 km NE of Bandung"
+export const formatProximity = (proximity: EventProximity, point: ReferencePoint): string => {
+  return `${formatDistance(proximity.distanceKm)} ${getCompassDirection(proximity.bearing)} of ${point.label}`;
+};
@@ -0,0 +1,448 @@
+import { Earthquake } from '../types/earthquake';
+import { FilterOptions } from '../types/filters';
+import {
+  ParsedQuery,
+  QueryCompletion,
+  QueryError,
+  QueryField,
+  QueryFieldKind,
+  QueryNode,
+  QueryOperator,
+  QuerySuggestion,
+  QueryToken
+} from '../types/query';
+import { PagerLevel } from '../types/alert';
+import { PAGER_LEVELS } from './alertUtils';
+
+export const QUERY_FIELDS: QueryField[] = [
+  { name: 'mag', kind: 'number', description: 'Magnitude' },
+  { name: 'depth', kind: 'number', description: 'Depth in km' },
+  { name: 'place', kind: 'text', description: 'Place name contains' },
+  { name: 'net', kind: 'keyword', description: 'Contributing network' },
+  { name: 'status', kind: 'keyword', description: 'automatic or reviewed' },
+  { name: 'type', kind: 'keyword', description: 'Event type' },
+  { name: 'magtype', kind: 'keyword', description: 'Magnitude type' },
+  { name: 'alert', kind: 'level', description: 'PAGER alert level' },
+  { name: 'tsunami', kind: 'boolean', description: 'Tsunami flag' },
+  { name: 'sig', kind: 'number', description: 'Significance' },
+  { name: 'felt', kind: 'number', description: 'Number of felt reports' },
+  { name: 'age', kind: 'duration', description: 'Time since the event, e.g. 6h' },
+  { name: 'time', kind: 'date', description: 'Origin time, e.g. 2024-01-31' }
+];
+
+const EQUALITY_OPERATORS: QueryOperator[] = [':', '=', '!='];
+const EQUALITY_KINDS: QueryFieldKind[] = ['text', 'keyword', 'boolean'];
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60000,
+  h: 3600000,
+  d: 86400000,
+  w: 604800000
+};
+
+const DAY_MS = 86400000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const MAX_SUGGESTIONS = 8;
+
+const findField = (name: string): QueryField | undefined => {
+  const lower = name.toLowerCase();
+  return QUERY_FIELDS.find(field => field.name === lower);
+};
+
+const isBoundary = (char: string | undefined): boolean => {
+  return char === undefined || /[\s()]/.test(char);
+};
+
+// Reads a double-quoted string starting at the opening quote
+const readQuoted = (query: string, start: number): { text: string; end: number; closed: boolean } => {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    return { text: query.slice(start + 1), end: query.length, closed: false };
+  }
+  return { text: query.slice(start + 1, close), end: close + 1, closed: true };
+};
+
+const readWord = (query: string, start: number): number => {
+  let end = start;
+  while (!isBoundary(query[end])) end++;
+  return end;
+};
+
+export const tokenizeQuery = (query: string): { tokens: QueryToken[]; errors: QueryError[] } => {
+  const tokens: QueryToken[] = [];
+  const errors: QueryError[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    const char = query[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: index, end: index + 1 });
+      index++;
+    } else if (char === '"') {
+      const quoted = readQuoted(query, index);
+      if (!quoted.closed) {
+        errors.push({ start: index, end: quoted.end, message: 'Missing closing quote' });
+      }
+      tokens.push({ type: 'text', text: quoted.text, start: index, end: quoted.end });
+      index = quoted.end;
+    } else {
+      const term = /^([A-Za-z_]+)(>=|<=|!=|>|<|=|:)/.exec(query.slice(index));
+      if (term) {
+        const [, field, operator] = term;
+        const valueStart = index + term[0].length;
+        let value: string;
+        let end: number;
+        if (query[valueStart] === '"') {
+          const quoted = readQuoted(query, valueStart);
+          if (!quoted.closed) {
+            errors.push({ start: valueStart, end: quoted.end, message: 'Missing closing quote' });
+          }
+          value = quoted.text;
+          end = quoted.end;
+        } else {
+          end = readWord(query, valueStart);
+          value = query.slice(valueStart, end);
+        }
+        tokens.push({
+          type: 'term',
+          field,
+          operator: operator as QueryOperator,
+          value,
+          valueStart,
+          start: index,
+          end
+        });
+        index = end;
+      } else {
+        const end = readWord(query, index);
+        const word = query.slice(index, end);
+        // Operators must be upper case so ordinary words stay searchable
+        if (word === 'AND' || word === 'OR' || word === 'NOT') {
+          tokens.push({ type: word === 'AND' ? 'and' : word === 'OR' ? 'or' : 'not', start: index, end });
+        } else {
+          tokens.push({ type: 'text', text: word, start: index, end });
+        }
+        index = end;
+      }
+    }
+  }
+
+  return { tokens, errors };
+};
+
+const parseValue = (
+  field: QueryField,
+  value: string
+): { value: number | string | boolean; span?: number } | { error: string } => {
+  const lower = value.toLowerCase();
+
+  switch (field.kind) {
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? { value: number } : { error: `${field.name} expects a number` };
+    }
+    case 'level': {
+      const level = PAGER_LEVELS.indexOf(lower as PagerLevel);
+      return level >= 0 ? { value: level } : { error: `alert expects one of ${PAGER_LEVELS.join(', ')}` };
+    }
+    case 'boolean':
+      if (['true', 'yes', '1'].includes(lower)) return { value: true };
+      if (['false', 'no', '0'].includes(lower)) return { value: false };
+      return { error: `${field.name} expects true or false` };
+    case 'duration': {
+      const match = /^(\d+(?:\.\d+)?)([mhdw])$/.exec(lower);
+      return match
+        ? { value: Number(match[1]) * DURATION_UNITS[match[2]] }
+        : { error: `${field.name} expects a duration such as 30m, 6h or 2d` };
+    }
+    case 'date': {
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) return { error: `${field.name} expects a date such as 2024-01-31` };
+      // Date-only strings parse as UTC midnight
+      return DATE_ONLY.test(value) ? { value: time, span: DAY_MS } : { value: time };
+    }
+    default:
+      return { value: lower };
+  }
+};
+
+const compileTerm = (token: Extract<QueryToken, { type: 'term' }>, errors: QueryError[]): QueryNode | null => {
+  const field = findField(token.field);
+  if (!field) {
+    errors.push({
+      start: token.start,
+      end: token.start + token.field.length,
+      message: `Unknown field "${token.field}"`
+    });
+    return null;
+  }
+  if (EQUALITY_KINDS.includes(field.kind) && !EQUALITY_OPERATORS.includes(token.operator)) {
+    errors.push({
+      start: token.start + token.field.length,
+      end: token.valueStart,
+      message: `${field.name} only supports :, = and !=`
+    });
+    return null;
+  }
+  if (token.value === '') {
+    errors.push({ start: token.start, end: token.end, message: `Missing value for ${field.name}` });
+    return null;
+  }
+
+  const parsed = parseValue(field, token.value);
+  if ('error' in parsed) {
+    errors.push({ start: token.valueStart, end: token.end, message: parsed.error });
+    return null;
+  }
+  return { type: 'comparison', field: field.name, operator: token.operator, ...parsed };
+};
+
+const combine = (type: 'and' | 'or', children: QueryNode[]): QueryNode | null => {
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+};
+
+// Recursive descent over the tokens. Terms next to each other are ANDed,
+// AND binds tighter than OR, NOT applies to the term or group after it.
+export const parseQuery = (query: string): ParsedQuery => {
+  const { tokens, errors } = tokenizeQuery(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+
+    while (peek()?.type === 'or') {
+      const operator = tokens[position++];
+      const next = parseAnd();
+      if (next) {
+        children.push(next);
+      } else {
+        errors.push({ start: operator.start, end: operator.end, message: 'Expected a term after OR' });
+      }
+    }
+    return combine('or', children);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    let token = peek();
+
+    while (token && token.type !== 'rparen' && token.type !== 'or') {
+      if (token.type === 'and') {
+        position++;
+        const next = peek();
+        if (!next || next.type === 'rparen' || next.type === 'or' || next.type === 'and') {
+          errors.push({ start: token.start, end: token.end, message: 'Expected a term after AND' });
+        }
+      } else {
+        const node = parseNot();
+        if (node) children.push(node);
+      }
+      token = peek();
+    }
+    return combine('and', children);
+  };
+
+  const parseNot = (): QueryNode | null => {
+    const token = peek();
+    if (token?.type === 'not') {
+      position++;
+      const next = peek();
+      if (!next || next.type === 'rparen' || next.type === 'or' || next.type === 'and') {
+        errors.push({ start: token.start, end: token.end, message: 'Expected a term after NOT' });
+        return null;
+      }
+      const child = parseNot();
+      return child ? { type: 'not', child } : null;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode | null => {
+    const token = tokens[position++];
+
+    if (token.type === 'lparen') {
+      const inner = parseOr();
+      if (peek()?.type === 'rparen') {
+        position++;
+      } else {
+        errors.push({ start: token.start, end: token.end, message: 'Missing closing parenthesis' });
+      }
+      return inner;
+    }
+    if (token.type === 'text') {
+      return { type: 'text', text: token.text.toLowerCase() };
+    }
+    if (token.type === 'term') {
+      return compileTerm(token, errors);
+    }
+    return null;
+  };
+
+  const roots: QueryNode[] = [];
+  while (position < tokens.length) {
+    const node = parseOr();
+    if (node) roots.push(node);
+    const stray = peek();
+    if (stray?.type === 'rparen') {
+      errors.push({ start: stray.start, end: stray.end, message: 'Unexpected closing parenthesis' });
+      position++;
+    }
+  }
+
+  return {
+    tokens,
+    ast: combine('and', roots),
+    errors: errors.sort((a, b) => a.start - b.start),
+    structured: errors.length > 0 || query.includes('"') || tokens.some(token => token.type !== 'text')
+  };
+};
+
+const compare = (actual: number, operator: QueryOperator, expected: number): boolean => {
+  switch (operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '!=': return actual !== expected;
+    default: return actual === expected;
+  }
+};
+
+// Against a span, such as a whole day: equal means within it, greater
+// means after it
+const compareSpan = (actual: number, operator: QueryOperator, start: number, span: number): boolean => {
+  const end = start + span;
+  switch (operator) {
+    case '>': return actual >= end;
+    case '>=': return actual >= start;
+    case '<': return actual < start;
+    case '<=': return actual < end;
+    case '!=': return actual < start || actual >= end;
+    default: return actual >= start && actual < end;
+  }
+};
+
+const getFieldValue = (earthquake: Earthquake, field: string, now: number): number | string | boolean | null => {
+  const { properties, geometry } = earthquake;
+  switch (field) {
+    case 'mag': return properties.mag;
+    case 'depth': return geometry.coordinates[2];
+    case 'place': return properties.place?.toLowerCase() ?? null;
+    case 'net': return properties.net.toLowerCase();
+    case 'status': return properties.status.toLowerCase();
+    case 'type': return properties.type.toLowerCase();
+    case 'magtype': return properties.magType?.toLowerCase() ?? null;
+    case 'alert': {
+      const level = PAGER_LEVELS.indexOf(properties.alert as PagerLevel);
+      return level >= 0 ? level : null;
+    }
+    case 'tsunami': return properties.tsunami === 1;
+    case 'sig': return properties.sig;
+    case 'felt': return properties.felt;
+    case 'age': return now - properties.time;
+    case 'time': return properties.time;
+    default: return null;
+  }
+};
+
+// Comparisons against a missing value (no magnitude, no PAGER level...)
+// never match, != included
+export const evaluateQuery = (node: QueryNode, earthquake: Earthquake, now: number): boolean => {
+  switch (node.type) {
+    case 'and': return node.children.every(child => evaluateQuery(child, earthquake, now));
+    case 'or': return node.children.some(child => evaluateQuery(child, earthquake, now));
+    case 'not': return !evaluateQuery(node.child, earthquake, now);
+    case 'text': return earthquake.properties.place?.toLowerCase().includes(node.text) ?? false;
+    case 'comparison': {
+      const actual = getFieldValue(earthquake, node.field, now);
+      if (actual === null) return false;
+      if (typeof actual === 'number' && typeof node.value === 'number') {
+        return node.span !== undefined
+          ? compareSpan(actual, node.operator, node.value, node.span)
+          : compare(actual, node.operator, node.value);
+      }
+      const matches = node.field === 'place'
+        ? String(actual).includes(String(node.value))
+        : actual === node.value;
+      return node.operator === '!=' ? !matches : matches;
+    }
+  }
+};
+
+const getFieldValues = (field: QueryField, options: FilterOptions): string[] => {
+  switch (field.name) {
+    case 'net': return options.networks;
+    case 'status': return options.statuses;
+    case 'type': return options.eventTypes;
+    case 'magtype': return options.magTypes;
+    case 'alert': return PAGER_LEVELS;
+    case 'tsunami': return ['true', 'false'];
+    default: return [];
+  }
+};
+
+const DEFAULT_OPERATORS: Record<QueryFieldKind, QueryOperator> = {
+  number: '>=',
+  text: ':',
+  keyword: ':',
+  level: '>=',
+  boolean: ':',
+  duration: '<',
+  date: '>'
+};
+
+// Completes field names, and values of fields with a known set of values,
+// for the word under the caret
+export const getQueryCompletion = (
+  query: string,
+  caret: number,
+  options: FilterOptions
+): QueryCompletion | null => {
+  // No completion inside quoted text
+  if ((query.slice(0, caret).match(/"/g)?.length ?? 0) % 2 === 1) return null;
+
+  let start = caret;
+  while (!isBoundary(query[start - 1])) start--;
+  const end = readWord(query, caret);
+  const word = query.slice(start, caret);
+  if (!word) return null;
+
+  const valueMatch = /^([A-Za-z_]+)(:|=|!=|>=|<=|>|<)(.*)$/.exec(word);
+  let suggestions: QuerySuggestion[];
+
+  if (valueMatch) {
+    const [, name, operator, prefix] = valueMatch;
+    const field = findField(name);
+    if (!field) return null;
+    suggestions = getFieldValues(field, options)
+      .filter(value => value.toLowerCase().startsWith(prefix.toLowerCase()) && value.toLowerCase() !== prefix.toLowerCase())
+      .map(value => ({
+        label: value,
+        insertText: `${name}${operator}${/\s/.test(value) ? `"${value}"` : value}`
+      }));
+  } else if (/^[A-Za-z_]+$/.test(word)) {
+    const lower = word.toLowerCase();
+    suggestions = QUERY_FIELDS
+      .filter(field => field.name.startsWith(lower))
+      .map(field => ({
+        label: field.name,
+        insertText: `${field.name}${DEFAULT_OPERATORS[field.kind]}`,
+        description: field.description
+      }));
+  } else {
+    return null;
+  }
+
+  return suggestions.length > 0
+    ? { start, end, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) }
+    : null;
+};
@@ -0,0 +1,136 @@
+import { Earthquake } from '../types/earthquake';
+import { LngLat, RegionShape, RegionStats, WatchRegion } from '../types/region';
+import { getDistanceKm } from './geoUtils';
+
+export const REGION_COLORS = ['#7c3aed', '#0891b2', '#db2777', '#65a30d', '#ea580c', '#4f46e5'];
+
+export const createRegion = (shape: RegionShape, existing: WatchRegion[]): WatchRegion => ({
+  id: `region-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: `Region ${existing.length + 1}`,
+  color: REGION_COLORS[existing.length % REGION_COLORS.length],
+  shape
+});
+
+// Ray casting, treating longitude/latitude as planar
+export const isPointInPolygon = ([longitude, latitude]: LngLat, ring: LngLat[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = (yi > latitude) !== (yj > latitude)
+      && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+export const isInShape = (position: LngLat, shape: RegionShape): boolean => {
+  if (shape.type === 'circle') {
+    const [longitude, latitude] = position;
+    return getDistanceKm(shape.center[1], shape.center[0], latitude, longitude) <= shape.radiusKm;
+  }
+  return isPointInPolygon(position, shape.coordinates);
+};
+
+export const isInRegion = (earthquake: Earthquake, region: WatchRegion): boolean => {
+  const [longitude, latitude] = earthquake.geometry.coordinates;
+  return isInShape([longitude, latitude], region.shape);
+};
+
+export const getRegionStats = (earthquakes: Earthquake[], regions: WatchRegion[]): Map<string, RegionStats> => {
+  const stats = new Map<string, RegionStats>(
+    regions.map(region => [region.id, { count: 0, latest: null }])
+  );
+
+  earthquakes.forEach(earthquake => {
+    regions.forEach(region => {
+      if (!isInRegion(earthquake, region)) return;
+      const regionStats = stats.get(region.id)!;
+      regionStats.count++;
+      if (!regionStats.latest || earthquake.properties.time > regionStats.latest.properties.time) {
+        regionStats.latest = earthquake;
+      }
+    });
+  });
+
+  return stats;
+};
+
+/**
+ * GeoJSON has no circle geometry, so circles are written as a Point with a
+ * `radiusKm` property, the convention most GIS tools read back.
+ */
+export const regionsToGeoJSON = (regions: WatchRegion[]) => ({
+  type: 'FeatureCollection',
+  features: regions.map(region => ({
+    type: 'Feature',
+    id: region.id,
+    properties: {
+      name: region.name,
+      color: region.color,
+      ...(region.shape.type === 'circle' ? { radiusKm: region.shape.radiusKm } : {})
+    },
+    geometry: region.shape.type === 'circle'
+      ? { type: 'Point', coordinates: region.shape.center }
+      : { type: 'Polygon', coordinates: [[...region.shape.coordinates, region.shape.coordinates[0]]] }
+  }))
+});
+
+const isPosition = (value: unknown): value is LngLat => {
+  return Array.isArray(value)
+    && value.length >= 2
+    && typeof value[0] === 'number'
+    && typeof value[1] === 'number';
+};
+
+const toRing = (ring: unknown): LngLat[] | null => {
+  if (!Array.isArray(ring) || !ring.every(isPosition)) return null;
+  const positions = ring.map(([longitude, latitude]) => [longitude, latitude] as LngLat);
+  // Drop the closing position, rings are stored open
+  const [first, last] = [positions[0], positions[positions.length - 1]];
+  if (positions.length > 1 && first[0] === last[0] && first[1] === last[1]) positions.pop();
+  return positions.length >= 3 ? positions : null;
+};
+
+const readShapes = (geometry: unknown, properties: Record<string, unknown>): RegionShape[] => {
+  if (typeof geometry !== 'object' || geometry === null) return [];
+  const { type, coordinates } = geometry as { type?: unknown; coordinates?: unknown };
+
+  if (type === 'Point' && isPosition(coordinates) && typeof properties.radiusKm === 'number' && properties.radiusKm > 0) {
+    return [{ type: 'circle', center: [coordinates[0], coordinates[1]], radiusKm: properties.radiusKm }];
+  }
+  // Holes are ignored, only the outer ring of each polygon is used
+  const polygons = type === 'Polygon' ? [coordinates] : type === 'MultiPolygon' && Array.isArray(coordinates) ? coordinates : [];
+  return polygons
+    .map(polygon => (Array.isArray(polygon) ? toRing(polygon[0]) : null))
+    .filter((ring): ring is LngLat[] => ring !== null)
+    .map(ring => ({ type: 'polygon', coordinates: ring }));
+};
+
+/**
+ * Reads regions from a GeoJSON Feature or FeatureCollection. Polygons and
+ * MultiPolygons become polygon regions, Points with a `radiusKm` property
+ * become circles. Throws when nothing usable is found.
+ */
+export const parseRegionsGeoJSON = (json: unknown, existing: WatchRegion[]): WatchRegion[] => {
+  const data = json as { type?: unknown; features?: unknown };
+  const features: unknown[] = data?.type === 'FeatureCollection' && Array.isArray(data.features)
+    ? data.features
+    : data?.type === 'Feature' ? [data] : [];
+
+  const regions: WatchRegion[] = [];
+  features.forEach(feature => {
+    const { geometry, properties } = (feature ?? {}) as { geometry?: unknown; properties?: Record<string, unknown> | null };
+    readShapes(geometry, properties ?? {}).forEach(shape => {
+      const region = createRegion(shape, [...existing, ...regions]);
+      if (typeof properties?.name === 'string' && properties.name.trim()) region.name = properties.name.trim();
+      if (typeof properties?.color === 'string' && /^#[0-9a-f]{6}$/i.test(properties.color)) region.color = properties.color;
+      regions.push(region);
+    });
+  });
+
+  if (regions.length === 0) {
+    throw new Error('No polygons or circles found in the GeoJSON file');
+  }
+  return regions;
+};
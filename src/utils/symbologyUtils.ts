@@ -0,0 +1,159 @@
+import { Earthquake } from '../types/earthquake';
+import { ColorEncoding, ColorScale, SizeEncoding, SizeScale, SymbolClass, SymbolColors, SymbologySettings } from '../types/symbology';
+
+export const DEFAULT_SYMBOLOGY: SymbologySettings = {
+  color: 'magnitude',
+  size: 'magnitude'
+};
+
+const TONES: Record<'green' | 'blue' | 'yellow' | 'orange' | 'red' | 'gray', SymbolColors> = {
+  green: { bg: '#16a34a', border: '#15803d', glow: '#86efac', badge: 'text-green-600 bg-green-100' },
+  blue: { bg: '#2563eb', border: '#1d4ed8', glow: '#93c5fd', badge: 'text-blue-600 bg-blue-100' },
+  yellow: { bg: '#ca8a04', border: '#a16207', glow: '#fde047', badge: 'text-yellow-600 bg-yellow-100' },
+  orange: { bg: '#ea580c', border: '#c2410c', glow: '#fed7aa', badge: 'text-orange-600 bg-orange-100' },
+  red: { bg: '#dc2626', border: '#991b1b', glow: '#fca5a5', badge: 'text-red-600 bg-red-100' },
+  gray: { bg: '#6b7280', border: '#4b5563', glow: '#d1d5db', badge: 'text-gray-600 bg-gray-100' }
+};
+
+const UNKNOWN_CLASS: SymbolClass = { key: 'unknown', label: 'Unknown', range: 'No value', colors: TONES.gray };
+
+const MAGNITUDE_CLASSES: SymbolClass[] = [
+  { key: 'micro', label: 'Micro', range: 'M < 2.5', colors: TONES.green },
+  { key: 'minor', label: 'Minor', range: 'M 2.5–4', colors: TONES.blue },
+  { key: 'moderate', label: 'Moderate', range: 'M 4–5.5', colors: TONES.yellow },
+  { key: 'strong', label: 'Strong', range: 'M 5.5–7', colors: TONES.orange },
+  { key: 'major', label: 'Major', range: 'M 7+', colors: TONES.red }
+];
+
+// Conventional seismological depth classes
+const DEPTH_CLASSES: SymbolClass[] = [
+  { key: 'shallow', label: 'Shallow', range: '0–70 km', colors: TONES.red },
+  { key: 'intermediate', label: 'Intermediate', range: '70–300 km', colors: TONES.yellow },
+  { key: 'deep', label: 'Deep', range: '300+ km', colors: TONES.blue }
+];
+
+const AGE_CLASSES: SymbolClass[] = [
+  { key: 'hour', label: 'Past hour', range: '< 1 hour', colors: TONES.red },
+  { key: 'day', label: 'Past day', range: '< 1 day', colors: TONES.orange },
+  { key: 'week', label: 'Past week', range: '< 1 week', colors: TONES.yellow },
+  { key: 'older', label: 'Older', range: '1 week+', colors: TONES.blue }
+];
+
+// USGS treats 600 and above as significant
+const SIGNIFICANCE_CLASSES: SymbolClass[] = [
+  { key: 'low', label: 'Low', range: '< 100', colors: TONES.blue },
+  { key: 'moderate', label: 'Moderate', range: '100–399', colors: TONES.yellow },
+  { key: 'high', label: 'High', range: '400–599', colors: TONES.orange },
+  { key: 'significant', label: 'Significant', range: '600+', colors: TONES.red }
+];
+
+const ALERT_CLASSES: SymbolClass[] = [
+  { key: 'none', label: 'No alert', range: 'Not assessed', colors: TONES.gray },
+  { key: 'green', label: 'Green', range: 'PAGER green', colors: TONES.green },
+  { key: 'yellow', label: 'Yellow', range: 'PAGER yellow', colors: TONES.yellow },
+  { key: 'orange', label: 'Orange', range: 'PAGER orange', colors: TONES.orange },
+  { key: 'red', label: 'Red', range: 'PAGER red', colors: TONES.red }
+];
+
+const HOUR_MS = 3600000;
+
+export const getMagnitudeClass = (magnitude: number | null): SymbolClass => {
+  if (magnitude === null) return UNKNOWN_CLASS;
+  if (magnitude >= 7) return MAGNITUDE_CLASSES[4];
+  if (magnitude >= 5.5) return MAGNITUDE_CLASSES[3];
+  if (magnitude >= 4) return MAGNITUDE_CLASSES[2];
+  if (magnitude >= 2.5) return MAGNITUDE_CLASSES[1];
+  return MAGNITUDE_CLASSES[0];
+};
+
+export const getMagnitudeLevel = (magnitude: number | null): string => getMagnitudeClass(magnitude).label;
+
+export const COLOR_SCALES: Record<ColorEncoding, ColorScale> = {
+  magnitude: {
+    id: 'magnitude',
+    label: 'Magnitude',
+    classes: [...MAGNITUDE_CLASSES, UNKNOWN_CLASS],
+    classify: (earthquake) => getMagnitudeClass(earthquake.properties.mag)
+  },
+  depth: {
+    id: 'depth',
+    label: 'Depth',
+    classes: DEPTH_CLASSES,
+    classify: (earthquake) => {
+      const depth = earthquake.geometry.coordinates[2];
+      if (depth >= 300) return DEPTH_CLASSES[2];
+      if (depth >= 70) return DEPTH_CLASSES[1];
+      return DEPTH_CLASSES[0];
+    }
+  },
+  age: {
+    id: 'age',
+    label: 'Event age',
+    classes: AGE_CLASSES,
+    classify: (earthquake, now) => {
+      const age = now - earthquake.properties.time;
+      if (age < HOUR_MS) return AGE_CLASSES[0];
+      if (age < 24 * HOUR_MS) return AGE_CLASSES[1];
+      if (age < 7 * 24 * HOUR_MS) return AGE_CLASSES[2];
+      return AGE_CLASSES[3];
+    }
+  },
+  significance: {
+    id: 'significance',
+    label: 'Significance',
+    classes: SIGNIFICANCE_CLASSES,
+    classify: (earthquake) => {
+      const { sig } = earthquake.properties;
+      if (sig >= 600) return SIGNIFICANCE_CLASSES[3];
+      if (sig >= 400) return SIGNIFICANCE_CLASSES[2];
+      if (sig >= 100) return SIGNIFICANCE_CLASSES[1];
+      return SIGNIFICANCE_CLASSES[0];
+    }
+  },
+  alert: {
+    id: 'alert',
+    label: 'PAGER alert',
+    classes: ALERT_CLASSES,
+    classify: (earthquake) => ALERT_CLASSES.find(item => item.key === earthquake.properties.alert) ?? ALERT_CLASSES[0]
+  }
+};
+
+export const COLOR_ENCODINGS = Object.keys(COLOR_SCALES) as ColorEncoding[];
+
+const MIN_MARKER_SIZE = 24;
+const MAX_MARKER_SIZE = 60;
+
+const clampSize = (size: number): number => Math.round(Math.max(MIN_MARKER_SIZE, Math.min(MAX_MARKER_SIZE, size)));
+
+// Marker diameter: 8 px per magnitude unit, or 9 px per tenfold felt reports
+const getMagnitudeSize = (magnitude: number | null): number => clampSize((magnitude ?? 0) * 8);
+const getFeltSize = (felt: number | null): number => clampSize(MIN_MARKER_SIZE + Math.log10(Math.max(felt ?? 1, 1)) * 9);
+
+export const SIZE_SCALES: Record<SizeEncoding, SizeScale> = {
+  magnitude: {
+    id: 'magnitude',
+    label: 'Magnitude',
+    getSize: (earthquake) => getMagnitudeSize(earthquake.properties.mag),
+    legend: [3, 5, 7].map(magnitude => ({ label: `M${magnitude}`, size: getMagnitudeSize(magnitude) }))
+  },
+  felt: {
+    id: 'felt',
+    label: 'Felt reports',
+    getSize: (earthquake) => getFeltSize(earthquake.properties.felt),
+    legend: [
+      { label: 'None', size: getFeltSize(null) },
+      { label: '100', size: getFeltSize(100) },
+      { label: '10k+', size: getFeltSize(10000) }
+    ]
+  }
+};
+
+export const SIZE_ENCODINGS = Object.keys(SIZE_SCALES) as SizeEncoding[];
+
+export const getColorClass = (
+  earthquake: Earthquake,
+  encoding: ColorEncoding,
+  now: number = Date.now()
+): SymbolClass => {
+  return COLOR_SCALES[encoding].classify(earthquake, now);
+};
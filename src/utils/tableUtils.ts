@@ -0,0 +1,234 @@
+import { Earthquake } from '../types/earthquake';
+import { PagerLevel } from '../types/alert';
+import { TableColumn, TableColumnId, TableLayout, TableSort } from '../types/table';
+import { PAGER_LEVELS } from './alertUtils';
+import { formatDateTime } from './dateUtils';
+import { formatCoordinates, formatMagnitude } from './earthquakeUtils';
+
+const formatNumber = (value: number | null, digits: number): string => {
+  return value === null ? '—' : value.toFixed(digits);
+};
+
+export const TABLE_COLUMNS: Record<TableColumnId, TableColumn> = {
+  time: {
+    id: 'time',
+    label: 'Time',
+    description: 'Origin time',
+    align: 'left',
+    defaultDirection: 'desc',
+    getValue: eq => eq.properties.time,
+    format: eq => formatDateTime(eq.properties.time)
+  },
+  mag: {
+    id: 'mag',
+    label: 'Mag',
+    description: 'Magnitude',
+    align: 'right',
+    defaultDirection: 'desc',
+    getValue: eq => eq.properties.mag,
+    format: eq => formatMagnitude(eq.properties.mag)
+  },
+  magType: {
+    id: 'magType',
+    label: 'Type',
+    description: 'Magnitude type',
+    align: 'left',
+    defaultDirection: 'asc',
+    getValue: eq => eq.properties.magType,
+    format: eq => eq.properties.magType ?? '—'
+  },
+  place: {
+    id: 'place',
+    label: 'Place',
+    description: 'Location',
+    align: 'left',
+    defaultDirection: 'asc',
+    getValue: eq => eq.properties.place,
+    format: eq => eq.properties.place || 'Unknown Location'
+  },
+  depth: {
+    id: 'depth',
+    label: 'Depth (km)',
+    description: 'Hypocenter depth',
+    align: 'right',
+    defaultDirection: 'desc',
+    getValue: eq => eq.geometry.coordinates[2],
+    format: eq => eq.geometry.coordinates[2].toFixed(1)
+  },
+  coordinates: {
+    id: 'coordinates',
+    label: 'Coordinates',
+    description: 'Epicenter, sorted by latitude',
+    align: 'left',
+    defaultDirection: 'desc',
+    getValue: eq => eq.geometry.coordinates[1],
+    format: eq => formatCoordinates(eq.geometry.coordinates[0], eq.geometry.coordinates[1])
+  },
+  sig: {
+    id: 'sig',
+    label: 'Sig',
+    description: 'Significance (0-1000+)',
+    align: 'right',
+    defaultDirection: 'desc',
+    getValue: eq => eq.properties.sig,
+    format: eq => String(eq.properties.sig)
+  },
+  felt: {
+    id: 'felt',
+    label: 'Felt',
+    description: '"Did You Feel It?" reports',
+    align: 'right',
+    defaultDirection: 'desc',
+    getValue: eq => eq.properties.felt,
+    format: eq => (eq.properties.felt === null ? '—' : String(eq.properties.felt))
+  },
+  alert: {
+    id: 'alert',
+    label: 'Alert',
+    description: 'PAGER alert level',
+    align: 'left',
+    defaultDirection: 'desc',
+    // Ordered by severity rather than by name
+    getValue: eq => {
+      const index = PAGER_LEVELS.indexOf(eq.properties.alert as PagerLevel);
+      return index < 0 ? null : index;
+    },
+    format: eq => eq.properties.alert ?? '—'
+  },
+  status: {
+    id: 'status',
+    label: 'Status',
+    description: 'Review status',
+    align: 'left',
+    defaultDirection: 'asc',
+    getValue: eq => eq.properties.status,
+    format: eq => eq.properties.status
+  },
+  net: {
+    id: 'net',
+    label: 'Net',
+    description: 'Contributing network',
+    align: 'left',
+    defaultDirection: 'asc',
+    getValue: eq => eq.properties.net,
+    format: eq => eq.properties.net
+  },
+  nst: {
+    id: 'nst',
+    label: 'NST',
+    description: 'Stations used for the location',
+    align: 'right',
+    defaultDirection: 'desc',
+    getValue: eq => eq.properties.nst,
+    format: eq => (eq.properties.nst === null ? '—' : String(eq.properties.nst))
+  },
+  gap: {
+    id: 'gap',
+    label: 'Gap (°)',
+    description: 'Largest azimuthal gap between stations',
+    align: 'right',
+    defaultDirection: 'desc',
+    getValue: eq => eq.properties.gap,
+    format: eq => formatNumber(eq.properties.gap, 0)
+  },
+  rms: {
+    id: 'rms',
+    label: 'RMS (s)',
+    description: 'Root-mean-square travel time residual',
+    align: 'right',
+    defaultDirection: 'desc',
+    getValue: eq => eq.properties.rms,
+    format: eq => formatNumber(eq.properties.rms, 2)
+  },
+  dmin: {
+    id: 'dmin',
+    label: 'Dmin (°)',
+    description: 'Distance to the nearest station',
+    align: 'right',
+    defaultDirection: 'desc',
+    getValue: eq => eq.properties.dmin,
+    format: eq => formatNumber(eq.properties.dmin, 3)
+  }
+};
+
+export const TABLE_COLUMN_IDS = Object.keys(TABLE_COLUMNS) as TableColumnId[];
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  order: TABLE_COLUMN_IDS,
+  hidden: ['nst', 'gap', 'rms', 'dmin'],
+  sort: [{ column: 'time', direction: 'desc' }]
+};
+
+// Drops unknown columns from a saved layout and appends ones added since
+export const normalizeTableLayout = (layout: Partial<TableLayout>): TableLayout => {
+  const isColumn = (id: unknown): id is TableColumnId => TABLE_COLUMN_IDS.includes(id as TableColumnId);
+  const order = (Array.isArray(layout.order) ? layout.order : []).filter(isColumn);
+  return {
+    order: [...new Set([...order, ...TABLE_COLUMN_IDS])],
+    hidden: (Array.isArray(layout.hidden) ? layout.hidden : DEFAULT_TABLE_LAYOUT.hidden).filter(isColumn),
+    sort: (Array.isArray(layout.sort) ? layout.sort : DEFAULT_TABLE_LAYOUT.sort)
+      .filter(sort => isColumn(sort?.column) && (sort.direction === 'asc' || sort.direction === 'desc'))
+  };
+};
+
+const compareValues = (a: number | string | null, b: number | string | null): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/**
+ * Sorts by each key in turn, later keys breaking ties of earlier ones.
+ * Missing values go last whichever way a column is sorted.
+ */
+export const sortEarthquakes = (earthquakes: Earthquake[], sort: TableSort[]): Earthquake[] => {
+  if (sort.length === 0) return earthquakes;
+  const keys = sort.map(({ column, direction }) => ({
+    getValue: TABLE_COLUMNS[column].getValue,
+    factor: direction === 'asc' ? 1 : -1
+  }));
+
+  return [...earthquakes].sort((a, b) => {
+    for (const { getValue, factor } of keys) {
+      const valueA = getValue(a);
+      const valueB = getValue(b);
+      if (valueA === valueB) continue;
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+      const result = compareValues(valueA, valueB);
+      if (result !== 0) return result * factor;
+    }
+    return 0;
+  });
+};
+
+/**
+ * Header click handling. A plain click sorts by that column alone, or flips
+ * it if it already is the only key. With `multi` (shift-click) the column is
+ * added as the next key, flipped, and on the third click removed.
+ */
+export const toggleSort = (sort: TableSort[], column: TableColumnId, multi: boolean): TableSort[] => {
+  const existing = sort.find(key => key.column === column);
+  const firstDirection = TABLE_COLUMNS[column].defaultDirection;
+  const flipped = existing?.direction === 'asc' ? 'desc' : 'asc';
+
+  if (!multi) {
+    return [{ column, direction: existing && sort.length === 1 ? flipped : firstDirection }];
+  }
+  if (!existing) {
+    return [...sort, { column, direction: firstDirection }];
+  }
+  if (existing.direction !== firstDirection) {
+    return sort.filter(key => key.column !== column);
+  }
+  return sort.map(key => (key.column === column ? { column, direction: flipped } : key));
+};
+
+export const moveColumn = (order: TableColumnId[], column: TableColumnId, offset: number): TableColumnId[] => {
+  const from = order.indexOf(column);
+  const to = Math.max(0, Math.min(order.length - 1, from + offset));
+  if (from < 0 || from === to) return order;
+  const next = [...order];
+  next.splice(from, 1);
+  next.splice(to, 0, column);
+  return next;
+};
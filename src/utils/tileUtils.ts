@@ -0,0 +1,219 @@
+import { Earthquake } from '../types/earthquake';
+import { BasemapOption, BasemapSettings, TileArea, TileLayerConfig, TilePrecacheProgress } from '../types/tiles';
+
+// Shared with public/sw.js, which answers tile requests from this cache
+export const TILE_CACHE_NAME = 'earthquake-monitor-tiles';
+
+// Keeps bulk downloads within the tile servers' fair-use policies
+export const MAX_PRECACHE_TILES = 2500;
+
+const MAX_LATITUDE = 85.0511; // Web Mercator cut-off
+
+export const TILE_LAYERS: Record<'light' | 'dark' | 'topographic' | 'satellite' | 'ocean', TileLayerConfig> = {
+  light: {
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+  },
+  dark: {
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+  },
+  topographic: {
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: 'Map data: &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, SRTM | Map style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)',
+    maxNativeZoom: 17
+  },
+  satellite: {
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community'
+  },
+  ocean: {
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Ocean/World_Ocean_Base/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Sources: GEBCO, NOAA, CHS, OSU, UNH, CSUMB, National Geographic, DeLorme, NAVTEQ, and Esri',
+    maxNativeZoom: 13
+  }
+};
+
+export const BASEMAP_OPTIONS: BasemapOption[] = [
+  { id: 'street', label: 'Street', description: 'OpenStreetMap, dark with the dark theme' },
+  { id: 'topographic', label: 'Topographic', description: 'Relief and contours, OpenTopoMap' },
+  { id: 'satellite', label: 'Satellite', description: 'Esri World Imagery' },
+  { id: 'ocean', label: 'Ocean', description: 'Bathymetry for offshore events, Esri Ocean' },
+  { id: 'custom', label: 'Custom', description: 'Your own tile server' }
+];
+
+export const MAX_TILE_ZOOM = 18;
+
+// Deployments without internet access can default to their own tile server
+const DEFAULT_CUSTOM_TILE_URL = import.meta.env.VITE_TILE_URL ?? '';
+
+export const DEFAULT_BASEMAP_SETTINGS: BasemapSettings = {
+  basemap: DEFAULT_CUSTOM_TILE_URL ? 'custom' : 'street',
+  customUrl: DEFAULT_CUSTOM_TILE_URL,
+  customAttribution: '',
+  customMaxZoom: MAX_TILE_ZOOM
+};
+
+// Problem with a custom URL template, or null when it can be used
+export const validateTileUrl = (template: string): string | null => {
+  const url = template.trim();
+  if (!url) return 'Enter a URL template';
+  const missing = ['{z}', '{x}', '{y}'].filter(placeholder => !url.includes(placeholder));
+  if (missing.length > 0) return `The template needs ${missing.join(', ')}`;
+  try {
+    // Relative templates resolve against the app, e.g. a proxied /tiles path
+    const { protocol } = new URL(url.replace(/[{}]/g, ''), window.location.href);
+    if (protocol !== 'http:' && protocol !== 'https:') return 'Use an http or https URL';
+  } catch {
+    return 'Not a valid URL';
+  }
+  return null;
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, character => `&#${character.charCodeAt(0)};`);
+};
+
+/**
+ * Tile source for the chosen basemap. Street follows the theme; a custom
+ * template that doesn't validate falls back to street.
+ */
+export const getTileLayer = (darkMode: boolean, settings: BasemapSettings = DEFAULT_BASEMAP_SETTINGS): TileLayerConfig => {
+  switch (settings.basemap) {
+    case 'topographic':
+    case 'satellite':
+    case 'ocean':
+      return TILE_LAYERS[settings.basemap];
+    case 'custom':
+      if (validateTileUrl(settings.customUrl) === null) {
+        return {
+          url: settings.customUrl.trim(),
+          // Typed by the user, so shown as text rather than markup
+          attribution: escapeHtml(settings.customAttribution),
+          maxNativeZoom: settings.customMaxZoom
+        };
+      }
+      break;
+  }
+  return darkMode ? TILE_LAYERS.dark : TILE_LAYERS.light;
+};
+
+const clampLatitude = (latitude: number): number => {
+  return Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude));
+};
+
+const longitudeToTileX = (longitude: number, zoom: number): number => {
+  const tiles = 2 ** zoom;
+  return Math.min(tiles - 1, Math.max(0, Math.floor(((longitude + 180) / 360) * tiles)));
+};
+
+const latitudeToTileY = (latitude: number, zoom: number): number => {
+  const tiles = 2 ** zoom;
+  const radians = (clampLatitude(latitude) * Math.PI) / 180;
+  const y = ((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * tiles;
+  return Math.min(tiles - 1, Math.max(0, Math.floor(y)));
+};
+
+const getTileRange = (area: TileArea, zoom: number) => ({
+  minX: longitudeToTileX(area.minLongitude, zoom),
+  maxX: longitudeToTileX(area.maxLongitude, zoom),
+  // Tile rows count down from the north
+  minY: latitudeToTileY(area.maxLatitude, zoom),
+  maxY: latitudeToTileY(area.minLatitude, zoom)
+});
+
+export const countTiles = (area: TileArea): number => {
+  let count = 0;
+  for (let zoom = area.minZoom; zoom <= area.maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(area, zoom);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+};
+
+/**
+ * Resolves a Leaflet URL template for every tile covering the area.
+ * Subdomains are dropped so the service worker can match tiles fetched
+ * from any of them against one cache key.
+ */
+export const getTileUrls = (template: string, area: TileArea): string[] => {
+  const retina = window.devicePixelRatio > 1 ? '@2x' : '';
+  const base = template.replace('{s}.', '').replace('{r}', retina);
+  const urls: string[] = [];
+
+  for (let zoom = area.minZoom; zoom <= area.maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(area, zoom);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        urls.push(base.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y)));
+      }
+    }
+  }
+
+  return urls;
+};
+
+// Smallest box around the events, padded so edge events aren't on the border
+export const getEarthquakeExtent = (earthquakes: Earthquake[], padding = 1): Omit<TileArea, 'minZoom' | 'maxZoom'> | null => {
+  if (earthquakes.length === 0) return null;
+  const longitudes = earthquakes.map(eq => eq.geometry.coordinates[0]);
+  const latitudes = earthquakes.map(eq => eq.geometry.coordinates[1]);
+
+  return {
+    minLatitude: Math.max(-90, Math.min(...latitudes) - padding),
+    maxLatitude: Math.min(90, Math.max(...latitudes) + padding),
+    minLongitude: Math.max(-180, Math.min(...longitudes) - padding),
+    maxLongitude: Math.min(180, Math.max(...longitudes) + padding)
+  };
+};
+
+/**
+ * Downloads tiles into the Cache API a few at a time. Tiles already cached
+ * are skipped and failures are counted rather than aborting the run.
+ */
+export const precacheTiles = async (
+  urls: string[],
+  {
+    signal,
+    onProgress,
+    concurrency = 4
+  }: {
+    signal?: AbortSignal;
+    onProgress?: (progress: TilePrecacheProgress) => void;
+    concurrency?: number;
+  } = {}
+): Promise<TilePrecacheProgress> => {
+  const cache = await caches.open(TILE_CACHE_NAME);
+  const progress: TilePrecacheProgress = { done: 0, total: urls.length, failed: 0 };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < urls.length && !signal?.aborted) {
+      const url = urls[next++];
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { signal });
+          if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+          await cache.put(url, response);
+        }
+      } catch {
+        if (signal?.aborted) return;
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  return progress;
+};
+
+export const countCachedTiles = async (): Promise<number> => {
+  const cache = await caches.open(TILE_CACHE_NAME);
+  return (await cache.keys()).length;
+};
+
+export const clearTileCache = async (): Promise<void> => {
+  await caches.delete(TILE_CACHE_NAME);
+};
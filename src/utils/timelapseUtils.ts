@@ -0,0 +1,85 @@
+import { Earthquake } from '../types/earthquake';
+import { PlaybackFrame, PlaybackRange, TimelapseOption, TimelapseSettings } from '../types/timelapse';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Simulated time that passes per second of playback
+export const PLAYBACK_SPEEDS: TimelapseOption[] = [
+  { value: MINUTE_MS / 1000, label: '1 min/s' },
+  { value: 10 * MINUTE_MS / 1000, label: '10 min/s' },
+  { value: HOUR_MS / 1000, label: '1 h/s' },
+  { value: 6 * HOUR_MS / 1000, label: '6 h/s' },
+  { value: DAY_MS / 1000, label: '1 day/s' },
+  { value: 7 * DAY_MS / 1000, label: '1 week/s' }
+];
+
+export const PLAYBACK_WINDOWS: TimelapseOption[] = [
+  { value: HOUR_MS, label: '1 h' },
+  { value: 6 * HOUR_MS, label: '6 h' },
+  { value: DAY_MS, label: '24 h' },
+  { value: 7 * DAY_MS, label: '7 days' },
+  { value: 30 * DAY_MS, label: '30 days' }
+];
+
+export const DEFAULT_TIMELAPSE_SETTINGS: TimelapseSettings = {
+  speed: HOUR_MS / 1000,
+  windowMs: 6 * HOUR_MS
+};
+
+// Opacity of an event just before it leaves the window
+const MIN_OPACITY = 0.15;
+
+export const sortByOriginTime = (earthquakes: Earthquake[]): Earthquake[] => {
+  return [...earthquakes].sort((a, b) => a.properties.time - b.properties.time);
+};
+
+export const getPlaybackRange = (earthquakes: Earthquake[]): PlaybackRange | null => {
+  if (earthquakes.length === 0) return null;
+  let start = Infinity;
+  let end = -Infinity;
+  earthquakes.forEach(({ properties }) => {
+    start = Math.min(start, properties.time);
+    end = Math.max(end, properties.time);
+  });
+  return { start, end };
+};
+
+// Index of the first event after the given time, in origin-time order
+const findFirstAfter = (sorted: Earthquake[], time: number): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (sorted[middle].properties.time <= time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Events that have happened by the playback time and are still inside the
+ * window, oldest first. Each fades linearly with age, from fully opaque at
+ * its origin time to faint as it is about to drop out.
+ */
+export const getPlaybackFrame = (
+  sorted: Earthquake[],
+  time: number,
+  windowMs: number
+): PlaybackFrame => {
+  const end = findFirstAfter(sorted, time);
+  let start = end;
+  while (start > 0 && time - sorted[start - 1].properties.time < windowMs) start--;
+
+  const earthquakes = sorted.slice(start, end);
+  const opacities = new Map<string, number>();
+  earthquakes.forEach(earthquake => {
+    const age = (time - earthquake.properties.time) / windowMs;
+    opacities.set(earthquake.id, 1 - age * (1 - MIN_OPACITY));
+  });
+  return { earthquakes, opacities };
+};
@@ -0,0 +1,157 @@
+import { EarthquakeFilters, TimeRange } from '../types/filters';
+import { PagerLevel } from '../types/alert';
+import { DataSourceId } from '../types/dataSource';
+import { FeedDescriptor } from '../types/feed';
+import { ActiveView, MapView, UrlState } from '../types/urlState';
+import { DATA_SOURCE_IDS, DEFAULT_DATA_SOURCES } from '../sources';
+import { PAGER_LEVELS } from './alertUtils';
+import { DEFAULT_FEED, FEED_MAGNITUDES, FEED_WINDOWS } from './feedUtils';
+import { DEFAULT_FILTERS } from './filterUtils';
+
+type NumberFilterKey = 'minMagnitude' | 'maxMagnitude' | 'minDepth' | 'maxDepth' | 'minSignificance';
+type ListFilterKey = 'statuses' | 'networks' | 'eventTypes' | 'magTypes';
+
+// Short parameter names keep shared links readable
+const NUMBER_PARAMS: [NumberFilterKey, string][] = [
+  ['minMagnitude', 'minmag'],
+  ['maxMagnitude', 'maxmag'],
+  ['minDepth', 'mindepth'],
+  ['maxDepth', 'maxdepth'],
+  ['minSignificance', 'minsig']
+];
+
+const LIST_PARAMS: [ListFilterKey, string][] = [
+  ['statuses', 'status'],
+  ['networks', 'net'],
+  ['eventTypes', 'type'],
+  ['magTypes', 'magtype']
+];
+
+const VIEWS: ActiveView[] = ['map', 'list', 'table', 'dashboard'];
+
+export const DEFAULT_ENABLED_SOURCES: DataSourceId[] = DEFAULT_DATA_SOURCES
+  .filter(config => config.enabled)
+  .map(config => config.id);
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const parseList = (value: string | null): string[] => {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+};
+
+const parseTimeRange = (params: URLSearchParams): TimeRange | undefined => {
+  const hours = parseNumber(params.get('hours'));
+  if (hours !== undefined && hours > 0) {
+    return { type: 'relative', hours };
+  }
+  const start = params.get('from') || undefined;
+  const end = params.get('to') || undefined;
+  return start || end ? { type: 'absolute', start, end } : undefined;
+};
+
+const parseFeed = (params: URLSearchParams): FeedDescriptor => ({
+  window: FEED_WINDOWS.find(option => option.value === params.get('feed'))?.value ?? DEFAULT_FEED.window,
+  magnitude: FEED_MAGNITUDES.find(option => option.value === params.get('feedmag'))?.value ?? DEFAULT_FEED.magnitude
+});
+
+// Unknown ids are dropped, and a list with none left is ignored
+const parseDataSources = (value: string | null): DataSourceId[] | null => {
+  const ids = parseList(value);
+  const sources = DATA_SOURCE_IDS.filter(id => ids.includes(id));
+  return sources.length > 0 ? sources : null;
+};
+
+const parseMapView = (params: URLSearchParams): MapView | null => {
+  const latitude = parseNumber(params.get('lat'));
+  const longitude = parseNumber(params.get('lng'));
+  const zoom = parseNumber(params.get('z'));
+  if (latitude === undefined || longitude === undefined || zoom === undefined) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { center: [latitude, longitude], zoom };
+};
+
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const filters: EarthquakeFilters = {
+    ...DEFAULT_FILTERS,
+    search: params.get('q') ?? '',
+    timeRange: parseTimeRange(params),
+    alertLevels: parseList(params.get('alert'))
+      .filter((level): level is PagerLevel => PAGER_LEVELS.includes(level as PagerLevel)),
+    tsunamiOnly: params.get('tsunami') === '1'
+  };
+
+  NUMBER_PARAMS.forEach(([key, name]) => {
+    filters[key] = parseNumber(params.get(name));
+  });
+  LIST_PARAMS.forEach(([key, name]) => {
+    filters[key] = parseList(params.get(name));
+  });
+
+  const maxDistanceKm = parseNumber(params.get('radius'));
+
+  return {
+    view: VIEWS.find(view => view === params.get('view')) ?? 'map',
+    feed: parseFeed(params),
+    dataSources: parseDataSources(params.get('sources')),
+    filters,
+    regionIds: parseList(params.get('regions')),
+    maxDistanceKm: maxDistanceKm !== undefined && maxDistanceKm > 0 ? maxDistanceKm : null,
+    sortOrder: params.get('sort') === 'closest' ? 'closest' : 'newest',
+    mapView: parseMapView(params),
+    darkMode: params.get('dark') === '1',
+    eventId: params.get('event') || null
+  };
+};
+
+// Defaults are left out, so an untouched app has a bare URL
+export const serializeUrlState = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (state.view !== 'map') params.set('view', state.view);
+  if (state.feed.window !== DEFAULT_FEED.window) params.set('feed', state.feed.window);
+  if (state.feed.magnitude !== DEFAULT_FEED.magnitude) params.set('feedmag', state.feed.magnitude);
+  if (state.dataSources && state.dataSources.join(',') !== DEFAULT_ENABLED_SOURCES.join(',')) {
+    params.set('sources', state.dataSources.join(','));
+  }
+  if (filters.search) params.set('q', filters.search);
+
+  NUMBER_PARAMS.forEach(([key, name]) => {
+    const value = filters[key];
+    if (value !== undefined) params.set(name, String(value));
+  });
+
+  if (filters.timeRange?.type === 'relative') {
+    params.set('hours', String(filters.timeRange.hours));
+  } else if (filters.timeRange?.type === 'absolute') {
+    if (filters.timeRange.start) params.set('from', filters.timeRange.start);
+    if (filters.timeRange.end) params.set('to', filters.timeRange.end);
+  }
+
+  if (filters.alertLevels.length > 0) params.set('alert', filters.alertLevels.join(','));
+  if (filters.tsunamiOnly) params.set('tsunami', '1');
+
+  LIST_PARAMS.forEach(([key, name]) => {
+    const value = filters[key];
+    if (value.length > 0) params.set(name, value.join(','));
+  });
+
+  if (state.regionIds.length > 0) params.set('regions', state.regionIds.join(','));
+  if (state.maxDistanceKm !== null) params.set('radius', String(state.maxDistanceKm));
+  if (state.sortOrder !== 'newest') params.set('sort', state.sortOrder);
+
+  if (state.mapView) {
+    params.set('lat', String(Number(state.mapView.center[0].toFixed(4))));
+    params.set('lng', String(Number(state.mapView.center[1].toFixed(4))));
+    params.set('z', String(state.mapView.zoom));
+  }
+  if (state.darkMode) params.set('dark', '1');
+  if (state.eventId) params.set('event', state.eventId);
+
+  return params.toString();
+};
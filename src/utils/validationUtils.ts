@@ -0,0 +1,215 @@
+import { Earthquake, EarthquakeProperties, ValidationReport } from '../types/earthquake';
+
+type RawRecord = Record<string, unknown>;
+
+interface NormalizeResult {
+  earthquake: Earthquake | null;
+  coerced: boolean;
+  reason?: string;
+}
+
+export const EMPTY_VALIDATION_REPORT: ValidationReport = {
+  total: 0,
+  accepted: 0,
+  coerced: 0,
+  rejected: 0,
+  reasons: {}
+};
+
+const isRecord = (value: unknown): value is RawRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Reads typed fields from a raw record, remembering whether any needed coercing
+const createFieldReader = (record: RawRecord) => {
+  let coerced = false;
+
+  const coerce = <T>(value: T): T => {
+    coerced = true;
+    return value;
+  };
+
+  const number = (key: string): number | null => {
+    const value = record[key];
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : coerce(null);
+    if (typeof value === 'string') {
+      const parsed = Number(value);
+      return coerce(Number.isFinite(parsed) ? parsed : null);
+    }
+    return coerce(null);
+  };
+
+  const string = (key: string): string | null => {
+    const value = record[key];
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return coerce(String(value));
+    return coerce(null);
+  };
+
+  return {
+    number,
+    string,
+    // Fields the schema requires fall back to a default
+    requiredNumber: (key: string, fallback: number): number => number(key) ?? coerce(fallback),
+    requiredString: (key: string, fallback: string): string => string(key) ?? coerce(fallback),
+    flagCoerced: () => { coerced = true; },
+    isCoerced: () => coerced
+  };
+};
+
+const readCoordinates = (
+  geometry: unknown,
+  onCoerce: () => void
+): [number, number, number] | null => {
+  if (!isRecord(geometry) || !Array.isArray(geometry.coordinates)) return null;
+  const [longitude, latitude, depth] = geometry.coordinates.map(value => {
+    if (typeof value === 'string' && value.trim() !== '') {
+      onCoerce();
+      return Number(value);
+    }
+    return value;
+  });
+
+  if (typeof longitude !== 'number' || typeof latitude !== 'number' || typeof depth !== 'number') return null;
+  if (![longitude, latitude, depth].every(Number.isFinite)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 360) return null;
+
+  // Wrap longitudes past the antimeridian back into [-180, 180]
+  if (Math.abs(longitude) > 180) {
+    onCoerce();
+    return [longitude > 0 ? longitude - 360 : longitude + 360, latitude, depth];
+  }
+
+  return [longitude, latitude, depth];
+};
+
+/**
+ * Checks one GeoJSON feature against the `Earthquake` schema. Features
+ * without an id, origin time or usable coordinates are rejected, other
+ * missing or mistyped fields are coerced to their documented defaults.
+ */
+export const normalizeEarthquake = (feature: unknown): NormalizeResult => {
+  if (!isRecord(feature)) {
+    return { earthquake: null, coerced: false, reason: 'not an object' };
+  }
+  if (!isRecord(feature.properties)) {
+    return { earthquake: null, coerced: false, reason: 'missing properties' };
+  }
+
+  const id = typeof feature.id === 'number' ? String(feature.id) : feature.id;
+  if (typeof id !== 'string' || id === '') {
+    return { earthquake: null, coerced: false, reason: 'missing id' };
+  }
+
+  const reader = createFieldReader(feature.properties);
+  const coordinates = readCoordinates(feature.geometry, reader.flagCoerced);
+  if (!coordinates) {
+    return { earthquake: null, coerced: false, reason: 'invalid coordinates' };
+  }
+
+  const time = reader.number('time');
+  if (time === null) {
+    return { earthquake: null, coerced: false, reason: 'missing time' };
+  }
+
+  const mag = reader.number('mag');
+  const place = reader.string('place');
+  const tsunami = feature.properties.tsunami;
+
+  const properties: EarthquakeProperties = {
+    mag,
+    place,
+    time,
+    updated: reader.requiredNumber('updated', time),
+    tz: reader.number('tz'),
+    url: reader.requiredString('url', ''),
+    detail: reader.requiredString('detail', ''),
+    felt: reader.number('felt'),
+    cdi: reader.number('cdi'),
+    mmi: reader.number('mmi'),
+    alert: reader.string('alert'),
+    status: reader.requiredString('status', 'automatic'),
+    tsunami: tsunami === 1 || tsunami === true || tsunami === '1' ? 1 : 0,
+    sig: reader.requiredNumber('sig', 0),
+    net: reader.requiredString('net', ''),
+    code: reader.requiredString('code', id),
+    ids: reader.requiredString('ids', `,${id},`),
+    sources: reader.requiredString('sources', ''),
+    types: reader.requiredString('types', ''),
+    nst: reader.number('nst'),
+    dmin: reader.number('dmin'),
+    rms: reader.number('rms'),
+    gap: reader.number('gap'),
+    magType: reader.string('magType'),
+    type: reader.requiredString('type', 'earthquake'),
+    title: reader.requiredString('title', mag === null ? place ?? id : `M ${mag.toFixed(1)} - ${place ?? id}`)
+  };
+
+  if (tsunami !== 0 && tsunami !== 1) {
+    reader.flagCoerced();
+  }
+
+  return {
+    earthquake: {
+      type: 'Feature',
+      id,
+      geometry: { type: 'Point', coordinates },
+      properties
+    },
+    coerced: reader.isCoerced()
+  };
+};
+
+export const validateEarthquakes = (features: unknown[]): { earthquakes: Earthquake[]; report: ValidationReport } => {
+  const earthquakes: Earthquake[] = [];
+  const reasons: Record<string, number> = {};
+  let coerced = 0;
+
+  features.forEach(feature => {
+    const result = normalizeEarthquake(feature);
+    if (result.earthquake) {
+      earthquakes.push(result.earthquake);
+      if (result.coerced) coerced++;
+    } else if (result.reason) {
+      reasons[result.reason] = (reasons[result.reason] ?? 0) + 1;
+    }
+  });
+
+  return {
+    earthquakes,
+    report: {
+      total: features.length,
+      accepted: earthquakes.length,
+      coerced,
+      rejected: features.length - earthquakes.length,
+      reasons
+    }
+  };
+};
+
+// Reads the `features` array of a GeoJSON FeatureCollection of unknown shape
+export const getFeatureList = (collection: unknown): unknown[] => {
+  if (!isRecord(collection) || !Array.isArray(collection.features)) {
+    throw new Error('Response is not a GeoJSON FeatureCollection');
+  }
+  return collection.features;
+};
+
+export const combineValidationReports = (reports: ValidationReport[]): ValidationReport => {
+  return reports.reduce((combined, report) => {
+    const reasons = { ...combined.reasons };
+    Object.entries(report.reasons).forEach(([reason, count]) => {
+      reasons[reason] = (reasons[reason] ?? 0) + count;
+    });
+
+    return {
+      total: combined.total + report.total,
+      accepted: combined.accepted + report.accepted,
+      coerced: combined.coerced + report.coerced,
+      rejected: combined.rejected + report.rejected,
+      reasons
+    };
+  }, EMPTY_VALIDATION_REPORT);
+};
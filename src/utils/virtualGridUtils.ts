@@ -0,0 +1,42 @@
+// Matches the gap-6 spacing of the card grid
+export const GRID_GAP = 24;
+
+// Tailwind's md and lg breakpoints, as in grid-cols-1 md:grid-cols-2 lg:grid-cols-3
+export const getColumnCount = (viewportWidth: number): number => {
+  if (viewportWidth >= 1024) return 3;
+  if (viewportWidth >= 768) return 2;
+  return 1;
+};
+
+/**
+ * Top of every row, plus the total height as the last entry. Rows that
+ * haven't been measured yet count as the estimate.
+ */
+export const getRowOffsets = (
+  rowCount: number,
+  rowHeights: Map<number, number>,
+  estimatedHeight: number
+): number[] => {
+  const offsets = new Array<number>(rowCount + 1);
+  offsets[0] = 0;
+  for (let row = 0; row < rowCount; row++) {
+    offsets[row + 1] = offsets[row] + (rowHeights.get(row) ?? estimatedHeight) + GRID_GAP;
+  }
+  if (rowCount > 0) offsets[rowCount] -= GRID_GAP;
+  return offsets;
+};
+
+// Row that contains a vertical position, clamped to the first and last row
+export const findRowAt = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(0, low);
+};
@@ -1,9 +1,22 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the built assets for public/sw.js to cache on install
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.json',
+      source: JSON.stringify(Object.keys(bundle).filter(fileName => !fileName.endsWith('.map')))
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },